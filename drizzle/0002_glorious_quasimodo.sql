@@ -0,0 +1,14 @@
+CREATE TABLE `seed_pair` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`server_seed` text NOT NULL,
+	`server_seed_hash` text NOT NULL,
+	`nonce` integer DEFAULT 0 NOT NULL,
+	`status` text NOT NULL,
+	`created_at` integer DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	`revealed_at` integer,
+	FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `seed_pair_user_status_idx` ON `seed_pair` (`user_id`,`status`);--> statement-breakpoint
+ALTER TABLE `bet` ADD `seed_pair_id` text REFERENCES seed_pair(id);
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `seed_pair` ADD `client_seed` text DEFAULT '' NOT NULL;--> statement-breakpoint
+UPDATE `seed_pair` SET `client_seed` = lower(hex(randomblob(16))) WHERE `client_seed` = '';
@@ -0,0 +1,18 @@
+CREATE TABLE `game_round` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`game_type` text NOT NULL,
+	`seed_pair_id` text NOT NULL,
+	`nonce` integer NOT NULL,
+	`amount` real NOT NULL,
+	`state` text NOT NULL,
+	`status` text NOT NULL,
+	`bet_id` text,
+	`created_at` integer DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	`updated_at` integer DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`seed_pair_id`) REFERENCES `seed_pair`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`bet_id`) REFERENCES `bet`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `game_round_user_status_idx` ON `game_round` (`user_id`,`status`);
\ No newline at end of file
@@ -0,0 +1,40 @@
+CREATE TABLE `crash_bet` (
+	`id` text PRIMARY KEY NOT NULL,
+	`round_id` text NOT NULL,
+	`user_id` text NOT NULL,
+	`amount` real NOT NULL,
+	`auto_cashout` real,
+	`cashout_multiplier` real,
+	`payout` real DEFAULT 0 NOT NULL,
+	`bet_id` text,
+	`created_at` integer DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	FOREIGN KEY (`round_id`) REFERENCES `crash_round`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`bet_id`) REFERENCES `bet`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `crash_bet_round_user_idx` ON `crash_bet` (`round_id`,`user_id`);--> statement-breakpoint
+CREATE TABLE `crash_chain` (
+	`id` text PRIMARY KEY NOT NULL,
+	`seed` text NOT NULL,
+	`terminating_hash` text NOT NULL,
+	`salt` text NOT NULL,
+	`length` integer NOT NULL,
+	`created_at` integer DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE `crash_round` (
+	`id` text PRIMARY KEY NOT NULL,
+	`chain_id` text NOT NULL,
+	`chain_index` integer NOT NULL,
+	`hash` text NOT NULL,
+	`crash_point` real NOT NULL,
+	`status` text NOT NULL,
+	`starts_at` integer NOT NULL,
+	`crashed_at` integer,
+	`created_at` integer DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	FOREIGN KEY (`chain_id`) REFERENCES `crash_chain`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `crash_round_chain_index_idx` ON `crash_round` (`chain_id`,`chain_index`);--> statement-breakpoint
+CREATE INDEX `crash_round_status_idx` ON `crash_round` (`status`);
\ No newline at end of file
@@ -0,0 +1,22 @@
+CREATE TABLE `auto_bet_session` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`game_type` text NOT NULL,
+	`request` text NOT NULL,
+	`settings` text NOT NULL,
+	`base_amount` real NOT NULL,
+	`next_amount` real NOT NULL,
+	`status` text NOT NULL,
+	`stop_reason` text,
+	`error` text,
+	`bets` integer DEFAULT 0 NOT NULL,
+	`wins` integer DEFAULT 0 NOT NULL,
+	`losses` integer DEFAULT 0 NOT NULL,
+	`wagered` real DEFAULT 0 NOT NULL,
+	`profit` real DEFAULT 0 NOT NULL,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `auto_bet_session_user_status_idx` ON `auto_bet_session` (`user_id`,`status`);
\ No newline at end of file
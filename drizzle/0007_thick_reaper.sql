@@ -0,0 +1,19 @@
+CREATE TABLE `transaction` (
+	`id` text PRIMARY KEY NOT NULL,
+	`transfer_id` text NOT NULL,
+	`type` text NOT NULL,
+	`account` text NOT NULL,
+	`user_id` text,
+	`amount` real NOT NULL,
+	`balance_after` real,
+	`reference` text,
+	`description` text,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `transaction_user_created_idx` ON `transaction` (`user_id`,`created_at`);--> statement-breakpoint
+CREATE INDEX `transaction_transfer_idx` ON `transaction` (`transfer_id`);--> statement-breakpoint
+-- Existing balances become opening entries so every wallet reconciles with the ledger
+INSERT INTO `transaction` (`id`, `transfer_id`, `type`, `account`, `user_id`, `amount`, `balance_after`, `description`, `created_at`) SELECT lower(hex(randomblob(16))), 'opening-' || `id`, 'opening_balance', 'wallet', `id`, `balance`, `balance`, 'Opening balance', strftime('%s', 'now') * 1000 FROM `user` WHERE `balance` != 0;--> statement-breakpoint
+INSERT INTO `transaction` (`id`, `transfer_id`, `type`, `account`, `user_id`, `amount`, `balance_after`, `description`, `created_at`) SELECT lower(hex(randomblob(16))), 'opening-' || `id`, 'opening_balance', 'adjustments', NULL, -`balance`, NULL, 'Opening balance', strftime('%s', 'now') * 1000 FROM `user` WHERE `balance` != 0;
@@ -0,0 +1,136 @@
+-- Drizzle runs migrations in a transaction, where SQLite ignores `PRAGMA foreign_keys`. Deferring
+-- the checks to the commit lets each table be dropped and refilled while rows still point at it;
+-- every insert below converts its amounts, so SQLite refills the tables row by row and the
+-- references resolve again before the commit. Amounts are rounded to the nearest cent, which
+-- drops any fraction of a cent left by the old floating-point payouts.
+PRAGMA defer_foreign_keys=ON;--> statement-breakpoint
+CREATE TABLE `__old_auto_bet_session` AS SELECT * FROM `auto_bet_session`;--> statement-breakpoint
+DROP TABLE `auto_bet_session`;--> statement-breakpoint
+CREATE TABLE `auto_bet_session` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`game_type` text NOT NULL,
+	`request` text NOT NULL,
+	`settings` text NOT NULL,
+	`base_amount` integer NOT NULL,
+	`next_amount` integer NOT NULL,
+	`status` text NOT NULL,
+	`stop_reason` text,
+	`error` text,
+	`bets` integer DEFAULT 0 NOT NULL,
+	`wins` integer DEFAULT 0 NOT NULL,
+	`losses` integer DEFAULT 0 NOT NULL,
+	`wagered` integer DEFAULT 0 NOT NULL,
+	`profit` integer DEFAULT 0 NOT NULL,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+INSERT INTO `auto_bet_session`("id", "user_id", "game_type", "request", "settings", "base_amount", "next_amount", "status", "stop_reason", "error", "bets", "wins", "losses", "wagered", "profit", "created_at", "updated_at") SELECT "id", "user_id", "game_type", "request", "settings", CAST(round("base_amount" * 100) AS INTEGER), CAST(round("next_amount" * 100) AS INTEGER), "status", "stop_reason", "error", "bets", "wins", "losses", CAST(round("wagered" * 100) AS INTEGER), CAST(round("profit" * 100) AS INTEGER), "created_at", "updated_at" FROM `__old_auto_bet_session`;--> statement-breakpoint
+DROP TABLE `__old_auto_bet_session`;--> statement-breakpoint
+CREATE INDEX `auto_bet_session_user_status_idx` ON `auto_bet_session` (`user_id`,`status`);--> statement-breakpoint
+CREATE TABLE `__old_bet` AS SELECT * FROM `bet`;--> statement-breakpoint
+DROP TABLE `bet`;--> statement-breakpoint
+CREATE TABLE `bet` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`game_type` text NOT NULL,
+	`amount` integer NOT NULL,
+	`multiplier` real NOT NULL,
+	`win` integer NOT NULL,
+	`payout` integer DEFAULT 0 NOT NULL,
+	`server_seed` text NOT NULL,
+	`server_seed_hash` text NOT NULL,
+	`client_seed` text NOT NULL,
+	`nonce` integer NOT NULL,
+	`seed_pair_id` text,
+	`game_data` text,
+	`result` real NOT NULL,
+	`created_at` integer DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`seed_pair_id`) REFERENCES `seed_pair`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+INSERT INTO `bet`("id", "user_id", "game_type", "amount", "multiplier", "win", "payout", "server_seed", "server_seed_hash", "client_seed", "nonce", "seed_pair_id", "game_data", "result", "created_at") SELECT "id", "user_id", "game_type", CAST(round("amount" * 100) AS INTEGER), "multiplier", "win", CAST(round("payout" * 100) AS INTEGER), "server_seed", "server_seed_hash", "client_seed", "nonce", "seed_pair_id", "game_data", "result", "created_at" FROM `__old_bet`;--> statement-breakpoint
+DROP TABLE `__old_bet`;--> statement-breakpoint
+CREATE TABLE `__old_crash_bet` AS SELECT * FROM `crash_bet`;--> statement-breakpoint
+DROP TABLE `crash_bet`;--> statement-breakpoint
+CREATE TABLE `crash_bet` (
+	`id` text PRIMARY KEY NOT NULL,
+	`round_id` text NOT NULL,
+	`user_id` text NOT NULL,
+	`amount` integer NOT NULL,
+	`auto_cashout` real,
+	`cashout_multiplier` real,
+	`payout` integer DEFAULT 0 NOT NULL,
+	`bet_id` text,
+	`created_at` integer DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	FOREIGN KEY (`round_id`) REFERENCES `crash_round`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`bet_id`) REFERENCES `bet`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+INSERT INTO `crash_bet`("id", "round_id", "user_id", "amount", "auto_cashout", "cashout_multiplier", "payout", "bet_id", "created_at") SELECT "id", "round_id", "user_id", CAST(round("amount" * 100) AS INTEGER), "auto_cashout", "cashout_multiplier", CAST(round("payout" * 100) AS INTEGER), "bet_id", "created_at" FROM `__old_crash_bet`;--> statement-breakpoint
+DROP TABLE `__old_crash_bet`;--> statement-breakpoint
+CREATE UNIQUE INDEX `crash_bet_round_user_idx` ON `crash_bet` (`round_id`,`user_id`);--> statement-breakpoint
+CREATE TABLE `__old_game_round` AS SELECT * FROM `game_round`;--> statement-breakpoint
+DROP TABLE `game_round`;--> statement-breakpoint
+CREATE TABLE `game_round` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`game_type` text NOT NULL,
+	`seed_pair_id` text NOT NULL,
+	`nonce` integer NOT NULL,
+	`amount` integer NOT NULL,
+	`state` text NOT NULL,
+	`status` text NOT NULL,
+	`bet_id` text,
+	`created_at` integer DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	`updated_at` integer DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`seed_pair_id`) REFERENCES `seed_pair`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`bet_id`) REFERENCES `bet`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+INSERT INTO `game_round`("id", "user_id", "game_type", "seed_pair_id", "nonce", "amount", "state", "status", "bet_id", "created_at", "updated_at") SELECT "id", "user_id", "game_type", "seed_pair_id", "nonce", CAST(round("amount" * 100) AS INTEGER), "state", "status", "bet_id", "created_at", "updated_at" FROM `__old_game_round`;--> statement-breakpoint
+DROP TABLE `__old_game_round`;--> statement-breakpoint
+CREATE INDEX `game_round_user_status_idx` ON `game_round` (`user_id`,`status`);--> statement-breakpoint
+CREATE TABLE `__old_transaction` AS SELECT * FROM `transaction`;--> statement-breakpoint
+DROP TABLE `transaction`;--> statement-breakpoint
+CREATE TABLE `transaction` (
+	`id` text PRIMARY KEY NOT NULL,
+	`transfer_id` text NOT NULL,
+	`type` text NOT NULL,
+	`account` text NOT NULL,
+	`user_id` text,
+	`amount` integer NOT NULL,
+	`balance_after` integer,
+	`reference` text,
+	`description` text,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+INSERT INTO `transaction`("id", "transfer_id", "type", "account", "user_id", "amount", "balance_after", "reference", "description", "created_at") SELECT "id", "transfer_id", "type", "account", "user_id", CAST(round("amount" * 100) AS INTEGER), CAST(round("balance_after" * 100) AS INTEGER), "reference", "description", "created_at" FROM `__old_transaction`;--> statement-breakpoint
+DROP TABLE `__old_transaction`;--> statement-breakpoint
+CREATE INDEX `transaction_user_created_idx` ON `transaction` (`user_id`,`created_at`);--> statement-breakpoint
+CREATE INDEX `transaction_transfer_idx` ON `transaction` (`transfer_id`);--> statement-breakpoint
+CREATE TABLE `__old_user` AS SELECT * FROM `user`;--> statement-breakpoint
+DROP TABLE `user`;--> statement-breakpoint
+CREATE TABLE `user` (
+	`id` text PRIMARY KEY NOT NULL,
+	`username` text NOT NULL,
+	`password_hash` text NOT NULL,
+	`balance` integer DEFAULT 100000 NOT NULL,
+	`is_admin` integer DEFAULT false NOT NULL
+);
+--> statement-breakpoint
+INSERT INTO `user`("id", "username", "password_hash", "balance", "is_admin") SELECT "id", "username", "password_hash", CAST(round("balance" * 100) AS INTEGER), "is_admin" FROM `__old_user`;--> statement-breakpoint
+DROP TABLE `__old_user`;--> statement-breakpoint
+CREATE UNIQUE INDEX `user_username_unique` ON `user` (`username`);--> statement-breakpoint
+UPDATE `auto_bet_session` SET `settings` = json_set(`settings`, '$.stopOnProfit', CAST(round(json_extract(`settings`, '$.stopOnProfit') * 100) AS INTEGER), '$.stopOnLoss', CAST(round(json_extract(`settings`, '$.stopOnLoss') * 100) AS INTEGER));--> statement-breakpoint
+UPDATE `auto_bet_session` SET `request` = json_set(`request`, '$.chips', (SELECT json_group_array(json_set(value, '$.amount', CAST(round(json_extract(value, '$.amount') * 100) AS INTEGER))) FROM json_each(`request`, '$.chips'))) WHERE `game_type` = 'roulette';--> statement-breakpoint
+UPDATE `game_round` SET `state` = json_set(`state`, '$.stake', CAST(round(json_extract(`state`, '$.stake') * 100) AS INTEGER), '$.insurance', CAST(round(json_extract(`state`, '$.insurance') * 100) AS INTEGER), '$.hands', (SELECT json_group_array(json_set(value, '$.stake', CAST(round(json_extract(value, '$.stake') * 100) AS INTEGER))) FROM json_each(`state`, '$.hands'))) WHERE `game_type` = 'blackjack';--> statement-breakpoint
+UPDATE `bet` SET `game_data` = json_set(`game_data`, '$.stake', CAST(round(json_extract(`game_data`, '$.stake') * 100) AS INTEGER), '$.insurance', CAST(round(json_extract(`game_data`, '$.insurance') * 100) AS INTEGER), '$.hands', (SELECT json_group_array(json_set(value, '$.stake', CAST(round(json_extract(value, '$.stake') * 100) AS INTEGER))) FROM json_each(`game_data`, '$.hands'))) WHERE `game_type` = 'blackjack' AND `game_data` IS NOT NULL;--> statement-breakpoint
+UPDATE `bet` SET `game_data` = json_set(`game_data`, '$.totalPayout', CAST(round(json_extract(`game_data`, '$.totalPayout') * 100) AS INTEGER), '$.placements', (SELECT json_group_array(json_set(value, '$.amount', CAST(round(json_extract(value, '$.amount') * 100) AS INTEGER), '$.payout', CAST(round(json_extract(value, '$.payout') * 100) AS INTEGER))) FROM json_each(`game_data`, '$.placements'))) WHERE `game_type` = 'roulette' AND `game_data` IS NOT NULL;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `user` ADD `is_banned` integer DEFAULT false NOT NULL;
\ No newline at end of file
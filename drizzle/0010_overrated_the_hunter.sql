@@ -0,0 +1,9 @@
+CREATE TABLE `game_config` (
+	`game_type` text PRIMARY KEY NOT NULL,
+	`house_edge` real,
+	`min_bet` integer NOT NULL,
+	`max_bet` integer NOT NULL,
+	`max_payout` integer NOT NULL,
+	`enabled` integer DEFAULT true NOT NULL,
+	`updated_at` integer NOT NULL
+);
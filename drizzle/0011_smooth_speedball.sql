@@ -0,0 +1,21 @@
+CREATE TABLE `bankroll` (
+	`id` text PRIMARY KEY NOT NULL,
+	`balance` integer NOT NULL,
+	`max_profit_percent` real NOT NULL,
+	`updated_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE `bankroll_movement` (
+	`id` text PRIMARY KEY NOT NULL,
+	`type` text NOT NULL,
+	`game_type` text,
+	`reference` text NOT NULL,
+	`stake` integer,
+	`payout` integer,
+	`amount` integer NOT NULL,
+	`balance_after` integer NOT NULL,
+	`description` text,
+	`created_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `bankroll_movement_created_idx` ON `bankroll_movement` (`created_at`);
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE `gambling_limit` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`type` text NOT NULL,
+	`period` text NOT NULL,
+	`amount` integer,
+	`pending_amount` integer,
+	`pending_at` integer,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `gambling_limit_user_type_period_idx` ON `gambling_limit` (`user_id`,`type`,`period`);
\ No newline at end of file
@@ -0,0 +1,3 @@
+-- The single house bankroll row, with the defaults in `DEFAULT_BANKROLL`
+INSERT OR IGNORE INTO `bankroll` (`id`, `balance`, `max_profit_percent`, `updated_at`)
+VALUES ('house', 100000000, 1, CAST(strftime('%s', 'now') AS integer) * 1000);
@@ -0,0 +1,8 @@
+CREATE TABLE `ledger_reconciliation` (
+	`id` text PRIMARY KEY NOT NULL,
+	`discrepancies` text NOT NULL,
+	`unbalanced_transfers` text NOT NULL,
+	`created_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `ledger_reconciliation_created_idx` ON `ledger_reconciliation` (`created_at`);
\ No newline at end of file
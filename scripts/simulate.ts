@@ -0,0 +1,54 @@
+/**
+ * Report the return-to-player of every instant game configuration.
+ *
+ *   bun scripts/simulate.ts [--rounds 1000000] [--game dice] [--seed text]
+ */
+
+import { parseArgs } from 'node:util';
+import { SIMULATION_CONFIGS, listSimulatedGames, simulate } from '$lib/server/simulator';
+
+const { values } = parseArgs({
+	options: {
+		rounds: { type: 'string', default: '1000000' },
+		game: { type: 'string' },
+		seed: { type: 'string' }
+	}
+});
+
+const rounds = Number(values.rounds);
+if (!Number.isInteger(rounds) || rounds < 1) {
+	console.error('--rounds must be a positive whole number');
+	process.exit(1);
+}
+if (values.game !== undefined && !listSimulatedGames().includes(values.game)) {
+	console.error(`--game must be one of ${listSimulatedGames().join(', ')}`);
+	process.exit(1);
+}
+
+const configs = SIMULATION_CONFIGS.filter(
+	(config) => values.game === undefined || config.game === values.game
+);
+
+const columns = ['Game', 'Bet', 'RTP', '± (95%)', 'Variance', 'Max', 'Hit rate'];
+const widths = [10, 22, 10, 10, 12, 12, 10];
+const formatRow = (cells: string[]) =>
+	cells.map((cell, i) => (i < 2 ? cell.padEnd(widths[i]) : cell.padStart(widths[i]))).join('');
+
+console.log(`${rounds.toLocaleString('en-US')} rounds per bet\n`);
+console.log(formatRow(columns));
+
+for (const config of configs) {
+	const report = simulate(config, { rounds, seed: values.seed });
+
+	console.log(
+		formatRow([
+			report.game,
+			report.label,
+			`${(report.rtp * 100).toFixed(3)}%`,
+			`${(report.standardError * 196).toFixed(3)}%`,
+			report.variance.toFixed(3),
+			`${report.maxMultiplier.toFixed(2)}x`,
+			`${(report.hitRate * 100).toFixed(2)}%`
+		])
+	);
+}
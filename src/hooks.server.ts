@@ -1,7 +1,18 @@
 import { sequence } from '@sveltejs/kit/hooks';
 import * as auth from '$lib/server/auth';
-import type { Handle } from '@sveltejs/kit';
+import { json, redirect, type Handle, type ServerInit } from '@sveltejs/kit';
 import { paraglideMiddleware } from '$lib/paraglide/server';
+import { startCrashScheduler } from '$lib/server/crash';
+import { startAutoBetScheduler } from '$lib/server/auto-bet';
+import { startLedgerReconciliation } from '$lib/server/ledger';
+
+// Crash rounds and auto-bet sessions run on the server whether or not anyone is watching,
+// and the wallet ledger is reconciled against every balance in the background
+export const init: ServerInit = () => {
+	startCrashScheduler();
+	startAutoBetScheduler();
+	startLedgerReconciliation();
+};
 
 const handleParaglide: Handle = ({ event, resolve }) =>
 	paraglideMiddleware(event.request, ({ request, locale }) => {
@@ -34,4 +45,21 @@ const handleAuth: Handle = async ({ event, resolve }) => {
 	return resolve(event);
 };
 
-export const handle: Handle = sequence(handleParaglide, handleAuth);
+// The admin console and its API are only for admins; everyone else is sent home
+const handleAdmin: Handle = ({ event, resolve }) => {
+	const routeId = event.route.id ?? '';
+	const isAdmin = event.locals.user?.isAdmin ?? false;
+
+	if (!isAdmin && routeId.startsWith('/api/admin/')) {
+		return json(
+			{ success: false, error: 'Admin access required' },
+			{ status: event.locals.user ? 403 : 401 }
+		);
+	}
+	if (!isAdmin && (routeId === '/admin' || routeId.startsWith('/admin/'))) {
+		redirect(303, '/');
+	}
+	return resolve(event);
+};
+
+export const handle: Handle = sequence(handleParaglide, handleAuth, handleAdmin);
@@ -1,11 +1,21 @@
-// API utility functions for game backend
-import { apiCall } from '$lib/utils/error-handling';
+// API utility functions for game backend.
+// Every amount, balance and payout sent or received is in minor units (cents); see `$lib/utils/money`.
+import { apiCall, type ApiResponse } from '$lib/utils/error-handling';
+import type { PlinkoRisk } from '$lib/utils/plinko';
+import type { PublicCrashRound } from '$lib/utils/crash';
+import type { AutoBetSession, AutoBetSettings } from '$lib/utils/auto-bet';
+import type { RoulettePlacement } from '$lib/utils/roulette';
+import type { KenoRisk } from '$lib/utils/keno';
+import type { WheelRisk } from '$lib/utils/wheel';
+import type { HiloGuess, HiloStep } from '$lib/utils/hilo';
+import type { TowerDifficulty } from '$lib/utils/tower';
+
+export type { ApiResponse };
 
 export interface DiceBetRequest {
 	amount: number;
 	betType: 'over' | 'under';
 	target: number;
-	clientSeed?: string;
 }
 
 export interface DiceBetResult {
@@ -13,6 +23,7 @@ export interface DiceBetResult {
 	roll: number;
 	win: boolean;
 	payout: number;
+	multiplier: number;
 	newBalance: number;
 	serverSeedHash: string;
 	clientSeed: string;
@@ -22,7 +33,6 @@ export interface DiceBetResult {
 export interface CoinFlipBetRequest {
 	amount: number;
 	side: 'cat' | 'dog';
-	clientSeed?: string;
 }
 
 export interface CoinFlipBetResult {
@@ -30,22 +40,240 @@ export interface CoinFlipBetResult {
 	flipResult: 'cat' | 'dog';
 	win: boolean;
 	payout: number;
+	multiplier: number;
+	newBalance: number;
+	serverSeedHash: string;
+	clientSeed: string;
+	nonce: number;
+}
+
+export interface LimboBetRequest {
+	amount: number;
+	target: number;
+}
+
+export interface LimboBetResult {
+	betId: string;
+	limboResult: number;
+	target: number;
+	win: boolean;
+	payout: number;
+	multiplier: number;
+	newBalance: number;
+	serverSeedHash: string;
+	clientSeed: string;
+	nonce: number;
+}
+
+export interface PlinkoBetRequest {
+	amount: number;
+	rows: number;
+	risk: PlinkoRisk;
+}
+
+export interface PlinkoBetResult {
+	betId: string;
+	path: (0 | 1)[];
+	bucket: number;
+	win: boolean;
+	payout: number;
+	multiplier: number;
+	newBalance: number;
+	serverSeedHash: string;
+	clientSeed: string;
+	nonce: number;
+}
+
+export interface RouletteBetRequest {
+	chips: RoulettePlacement[];
+}
+
+export interface RouletteBetResult {
+	betId: string;
+	pocket: number;
+	placements: (RoulettePlacement & { payout: number })[];
+	win: boolean;
+	payout: number;
+	multiplier: number;
+	newBalance: number;
+	serverSeedHash: string;
+	clientSeed: string;
+	nonce: number;
+}
+
+export interface KenoBetRequest {
+	amount: number;
+	picks: number[];
+	risk: KenoRisk;
+}
+
+export interface KenoBetResult {
+	betId: string;
+	drawn: number[]; // In draw order
+	hits: number;
+	win: boolean;
+	payout: number;
+	multiplier: number;
+	newBalance: number;
+	serverSeedHash: string;
+	clientSeed: string;
+	nonce: number;
+}
+
+export interface WheelBetRequest {
+	amount: number;
+	segments: number;
+	risk: WheelRisk;
+}
+
+export interface WheelBetResult {
+	betId: string;
+	segment: number; // Index clockwise from the pointer
+	win: boolean;
+	payout: number;
+	multiplier: number;
 	newBalance: number;
 	serverSeedHash: string;
 	clientSeed: string;
 	nonce: number;
 }
 
-export interface ApiResponse<T> {
-	success: boolean;
-	result?: T;
-	data?: T;
-	error?: string;
+export interface GameRound<TState = Record<string, unknown>> {
+	id: string;
+	gameType: string;
+	amount: number;
+	status: 'active' | 'settled';
+	state: TState;
+	serverSeedHash: string;
+	clientSeed: string;
+	nonce: number;
+	createdAt: string;
+}
+
+export interface RoundSettlement {
+	betId: string;
+	win: boolean;
+	payout: number;
+	multiplier: number;
+	result: number;
+	payoutCap?: number; // Set when the payout was cut to the game's cap or the bankroll's limit
+}
+
+export interface RoundResult<TState = Record<string, unknown>> {
+	round: GameRound<TState>;
+	newBalance: number;
+	settlement?: RoundSettlement;
+}
+
+export interface MinesRequest {
+	amount: number;
+	mines: number;
+}
+
+export type MinesAction = { action: 'reveal'; tile: number } | { action: 'cashout' };
+
+export interface MinesState {
+	mineCount: number;
+	revealed: number[];
+	houseEdge: number; // Percent the round was priced at
+	multiplier: number;
+	nextMultiplier: number | null;
+	mines?: number[]; // Only present once the round has settled
+}
+
+export type BlackjackAction =
+	| { action: 'hit' }
+	| { action: 'stand' }
+	| { action: 'double' }
+	| { action: 'split' }
+	| { action: 'insurance'; accept: boolean };
+
+export interface BlackjackHand {
+	cards: number[];
+	stake: number;
+	doubled: boolean;
+	done: boolean;
+}
+
+export interface BlackjackState {
+	stake: number;
+	dealer: number[]; // Only the up card until the round has settled
+	hands: BlackjackHand[];
+	activeHand: number;
+	insurance: number;
+	phase: 'insurance' | 'player' | 'settled';
+	actions: BlackjackAction[];
+}
+
+export type HiloAction =
+	| { action: 'guess'; guess: HiloGuess }
+	| { action: 'skip' }
+	| { action: 'cashout' };
+
+export interface HiloState {
+	cards: number[]; // The card trail, oldest first
+	steps: HiloStep[]; // What the player did before each card after the first
+	houseEdge: number; // Percent the round was priced at
+	multiplier: number;
+}
+
+export interface TowerRequest {
+	amount: number;
+	difficulty: TowerDifficulty;
+}
+
+export type TowerAction = { action: 'pick'; tile: number } | { action: 'cashout' };
+
+export interface TowerState {
+	difficulty: TowerDifficulty;
+	picks: number[]; // The tile picked on each row climbed, bottom row first
+	houseEdge: number; // Percent the round was priced at
+	multiplier: number;
+	nextMultiplier: number | null;
+	rows?: number[][]; // Safe tiles of every row, only present once the round has settled
+}
+
+export interface CrashBetRequest {
+	amount: number;
+	autoCashout: number | null;
+}
+
+export interface CrashBet {
+	amount: number;
+	autoCashout: number | null;
+	cashoutMultiplier: number | null;
+	payout: number;
+	payoutCap?: number; // Set when the cashout was paid at the game's cap or the bankroll's limit
+}
+
+export interface CrashBetResult {
+	bet: CrashBet;
+	newBalance: number;
+}
+
+export interface CrashData {
+	round: PublicCrashRound | null;
+	bet: CrashBet | null;
+	recentRounds: { id: string; chainIndex: number; crashPoint: number; hash: string }[];
+	chain: { terminatingHash: string; salt: string } | null;
+	now: number;
+	balance: number;
+}
+
+export interface AutoBetStartRequest {
+	game: string;
+	request: { amount: number; [key: string]: unknown };
+	settings: AutoBetSettings;
+}
+
+export interface AutoBetData {
+	session: AutoBetSession | null;
+	balance: number;
 }
 
 export interface BetHistoryItem {
 	id: string;
-	gameType: 'dice' | 'flip';
+	gameType: string;
 	amount: number;
 	multiplier: number;
 	win: boolean;
@@ -65,6 +293,30 @@ export interface BetHistoryResponse {
 	limit: number;
 }
 
+export type WalletTransactionType =
+	| 'bet_stake'
+	| 'bet_payout'
+	| 'bonus'
+	| 'admin_adjustment'
+	| 'opening_balance';
+
+export interface WalletTransaction {
+	id: string;
+	type: WalletTransactionType;
+	amount: number; // Negative for debits
+	balanceAfter: number;
+	reference: string | null;
+	description: string | null;
+	createdAt: Date;
+}
+
+export interface WalletTransactionsResponse {
+	transactions: WalletTransaction[];
+	total: number;
+	page: number;
+	limit: number;
+}
+
 export interface BetVerificationData {
 	betId: string;
 	verified: boolean;
@@ -74,9 +326,175 @@ export interface BetVerificationData {
 	nonce: number;
 	expectedResult: number;
 	calculatedResult: number;
-	gameType: 'dice' | 'flip';
+	gameType: string;
 	seedHashValid: boolean;
 	gameData: Record<string, unknown>;
+	details: Record<string, unknown>;
+}
+
+export interface GameData {
+	nextNonce: number;
+	clientSeed: string;
+	serverSeedHash: string;
+	nextServerSeedHash: string;
+	balance: number;
+}
+
+export interface RoundGameData<TState = Record<string, unknown>> extends GameData {
+	activeRound: GameRound<TState> | null;
+}
+
+export interface SeedPairInfo {
+	clientSeed: string;
+	serverSeedHash: string;
+	nonce: number;
+	nextServerSeedHash: string;
+}
+
+export interface RevealedSeedPair {
+	serverSeed: string;
+	serverSeedHash: string;
+	clientSeed: string;
+	nonce: number;
+	revealedAt: string | null;
+}
+
+export interface SeedState {
+	current: SeedPairInfo;
+	previous: RevealedSeedPair | null;
+}
+
+export type LimitType = 'wager' | 'loss';
+export type LimitPeriod = 'daily' | 'weekly' | 'monthly';
+
+export interface GamblingLimit {
+	type: LimitType;
+	period: LimitPeriod;
+	amount: number | null; // Null when no limit applies
+	used: number; // Wagered, or net loss, so far this period
+	remaining: number | null;
+	resetsAt: string;
+	pending: { amount: number | null; at: string } | null; // An increase waiting out the cooling-off period
+}
+
+export interface GameConfig {
+	houseEdge: number | null; // Percent; null for games whose paytable fixes the edge
+	minBet: number;
+	maxBet: number;
+	maxPayout: number; // Larger payouts are paid at this cap
+	enabled: boolean;
+}
+
+export interface GameConfigEntry {
+	type: string;
+	name: string;
+	config: GameConfig;
+}
+
+export interface GameSettings extends GameConfig {
+	maxProfit: number; // The most one bet can win over its stake, set by the bankroll
+}
+
+export interface BankrollMovement {
+	id: string;
+	type: 'bet' | 'adjustment';
+	gameType: string | null;
+	reference: string; // The settled bet, or the admin who adjusted the bankroll
+	stake: number | null;
+	payout: number | null;
+	amount: number; // Positive when the house gains
+	balanceAfter: number;
+	description: string | null;
+	createdAt: string;
+}
+
+export interface BankrollSummary {
+	balance: number;
+	maxProfitPercent: number;
+	maxProfit: number;
+	movements: BankrollMovement[]; // Newest first
+}
+
+export interface LedgerReconciliation {
+	id: string;
+	discrepancies: { userId: string; balance: number; ledgerBalance: number }[];
+	unbalancedTransfers: string[]; // Transfers whose entries do not sum to zero
+	createdAt: string;
+}
+
+export interface AdminUser {
+	id: string;
+	username: string;
+	balance: number;
+	isAdmin: boolean;
+	isBanned: boolean;
+	bets: number;
+	wagered: number;
+}
+
+export interface AdminUserDetail extends AdminUser {
+	profit: number;
+	sessions: number;
+}
+
+export interface AdminUsersResponse {
+	users: AdminUser[];
+	total: number;
+	page: number;
+	limit: number;
+}
+
+export interface AdminUserResponse {
+	user: AdminUserDetail;
+	bets: BetHistoryItem[];
+	total: number;
+	page: number;
+	limit: number;
+}
+
+export type AuditAction =
+	| 'balance_adjustment'
+	| 'user_ban'
+	| 'user_unban'
+	| 'force_logout'
+	| 'game_config_update'
+	| 'bankroll_settings_update'
+	| 'bankroll_adjustment';
+
+export interface AuditEntry {
+	id: string;
+	sequence: number;
+	actorId: string;
+	actorUsername: string | null;
+	action: AuditAction;
+	targetType: 'user' | 'game' | 'bankroll';
+	targetId: string;
+	before: Record<string, unknown> | null;
+	after: Record<string, unknown> | null;
+	ipAddress: string | null;
+	previousHash: string;
+	hash: string;
+	createdAt: string;
+}
+
+export interface AuditFilter {
+	action?: AuditAction;
+	actor?: string; // Username or id
+	target?: string;
+	from?: string; // ISO timestamps
+	to?: string;
+}
+
+export interface AuditLogResponse {
+	entries: AuditEntry[];
+	total: number;
+	page: number;
+	limit: number;
+	chain: {
+		valid: boolean;
+		entries: number;
+		brokenAt: number | null; // Sequence of the first entry that fails verification
+	};
 }
 
 /**
@@ -102,82 +520,472 @@ export async function placeCoinFlipBet(
 }
 
 /**
- * Get bet history
+ * Place a limbo bet
  */
-export async function getBetHistory(
-	page = 1,
-	limit = 20,
-	gameType?: 'dice' | 'flip'
-): Promise<ApiResponse<BetHistoryResponse>> {
-	try {
-		const params = new URLSearchParams({
-			page: page.toString(),
-			limit: limit.toString()
-		});
-
-		if (gameType) {
-			params.append('gameType', gameType);
-		}
+export async function placeLimboBet(
+	request: LimboBetRequest
+): Promise<ApiResponse<LimboBetResult>> {
+	return apiCall<LimboBetResult>('/api/game/limbo', {
+		method: 'POST',
+		body: JSON.stringify(request)
+	});
+}
 
-		const response = await fetch(`/api/game/history?${params}`);
-		return await response.json();
-	} catch {
-		return {
-			success: false,
-			error: 'Network error occurred'
-		};
-	}
+/**
+ * Place a plinko bet
+ */
+export async function placePlinkoBet(
+	request: PlinkoBetRequest
+): Promise<ApiResponse<PlinkoBetResult>> {
+	return apiCall<PlinkoBetResult>('/api/game/plinko', {
+		method: 'POST',
+		body: JSON.stringify(request)
+	});
 }
 
 /**
- * Verify a bet's provable fairness
+ * Spin the roulette wheel with a board of chip placements
  */
-export async function verifyBet(betId: string): Promise<ApiResponse<BetVerificationData>> {
-	try {
-		const response = await fetch(`/api/game/verify?betId=${encodeURIComponent(betId)}`);
-		return await response.json();
-	} catch {
-		return {
-			success: false,
-			error: 'Network error occurred'
-		};
-	}
+export async function placeRouletteBet(
+	request: RouletteBetRequest
+): Promise<ApiResponse<RouletteBetResult>> {
+	return apiCall<RouletteBetResult>('/api/game/roulette', {
+		method: 'POST',
+		body: JSON.stringify(request)
+	});
 }
 
 /**
- * Get current user balance and next nonce (for dice game)
+ * Play a keno draw against a set of picked numbers
  */
-export async function getDiceGameData(): Promise<
-	ApiResponse<{
-		nextNonce: number;
-		nextServerSeedHash: string;
-		balance: number;
-	}>
-> {
-	try {
-		const response = await fetch('/api/game/dice');
-		return await response.json();
-	} catch {
-		return {
-			success: false,
-			error: 'Network error occurred'
-		};
-	}
+export async function placeKenoBet(request: KenoBetRequest): Promise<ApiResponse<KenoBetResult>> {
+	return apiCall<KenoBetResult>('/api/game/keno', {
+		method: 'POST',
+		body: JSON.stringify(request)
+	});
 }
 
 /**
- * Get current user balance and next nonce (for flip game)
+ * Spin the wheel
  */
-export async function getFlipGameData(): Promise<
-	ApiResponse<{
-		nextNonce: number;
-		nextServerSeedHash: string;
-		balance: number;
-	}>
-> {
-	try {
-		const response = await fetch('/api/game/flip');
-		return await response.json();
+export async function placeWheelBet(
+	request: WheelBetRequest
+): Promise<ApiResponse<WheelBetResult>> {
+	return apiCall<WheelBetResult>('/api/game/wheel', {
+		method: 'POST',
+		body: JSON.stringify(request)
+	});
+}
+
+/**
+ * Start a round of a multi-step game (mines, ...)
+ */
+export async function startRound<TState>(
+	gameType: string,
+	request: object
+): Promise<ApiResponse<RoundResult<TState>>> {
+	return apiCall<RoundResult<TState>>(`/api/game/${gameType}`, {
+		method: 'POST',
+		body: JSON.stringify(request)
+	});
+}
+
+/**
+ * Act on the active round of a multi-step game
+ */
+export async function roundAction<TState>(
+	gameType: string,
+	action: object
+): Promise<ApiResponse<RoundResult<TState>>> {
+	return apiCall<RoundResult<TState>>(`/api/game/${gameType}/action`, {
+		method: 'POST',
+		body: JSON.stringify(action)
+	});
+}
+
+/**
+ * Get seed data and the active round of a multi-step game, so a reload can resume it
+ */
+export async function getRoundGameData<TState>(
+	gameType: string
+): Promise<ApiResponse<RoundGameData<TState>>> {
+	try {
+		const response = await fetch(`/api/game/${gameType}`);
+		return await response.json();
+	} catch {
+		return {
+			success: false,
+			error: 'Network error occurred'
+		};
+	}
+}
+
+/**
+ * Start a mines round
+ */
+export async function startMinesRound(
+	request: MinesRequest
+): Promise<ApiResponse<RoundResult<MinesState>>> {
+	return startRound<MinesState>('mines', request);
+}
+
+/**
+ * Reveal a tile or cash out of the active mines round
+ */
+export async function minesAction(
+	action: MinesAction
+): Promise<ApiResponse<RoundResult<MinesState>>> {
+	return roundAction<MinesState>('mines', action);
+}
+
+/**
+ * Deal a blackjack hand
+ */
+export async function startBlackjackRound(request: {
+	amount: number;
+}): Promise<ApiResponse<RoundResult<BlackjackState>>> {
+	return startRound<BlackjackState>('blackjack', request);
+}
+
+/**
+ * Hit, stand, double, split or answer the insurance offer on the active blackjack hand
+ */
+export async function blackjackAction(
+	action: BlackjackAction
+): Promise<ApiResponse<RoundResult<BlackjackState>>> {
+	return roundAction<BlackjackState>('blackjack', action);
+}
+
+/**
+ * Start a Hi-Lo round on the first card
+ */
+export async function startHiloRound(request: {
+	amount: number;
+}): Promise<ApiResponse<RoundResult<HiloState>>> {
+	return startRound<HiloState>('hilo', request);
+}
+
+/**
+ * Guess, skip or cash out of the active Hi-Lo round
+ */
+export async function hiloAction(action: HiloAction): Promise<ApiResponse<RoundResult<HiloState>>> {
+	return roundAction<HiloState>('hilo', action);
+}
+
+/**
+ * Start a Dragon Tower climb
+ */
+export async function startTowerRound(
+	request: TowerRequest
+): Promise<ApiResponse<RoundResult<TowerState>>> {
+	return startRound<TowerState>('tower', request);
+}
+
+/**
+ * Pick a tile on the next row or cash out of the active Dragon Tower round
+ */
+export async function towerAction(
+	action: TowerAction
+): Promise<ApiResponse<RoundResult<TowerState>>> {
+	return roundAction<TowerState>('tower', action);
+}
+
+/**
+ * Get the current crash round, your bet in it and recent crash points
+ */
+export async function getCrashData(): Promise<ApiResponse<CrashData>> {
+	try {
+		const response = await fetch('/api/game/crash');
+		return await response.json();
+	} catch {
+		return {
+			success: false,
+			error: 'Network error occurred'
+		};
+	}
+}
+
+/**
+ * Bet on the crash round that is counting down
+ */
+export async function placeCrashBet(
+	request: CrashBetRequest
+): Promise<ApiResponse<CrashBetResult>> {
+	return apiCall<CrashBetResult>('/api/game/crash', {
+		method: 'POST',
+		body: JSON.stringify(request)
+	});
+}
+
+/**
+ * Cash out of the running crash round
+ */
+export async function cashOutCrash(): Promise<ApiResponse<CrashBetResult>> {
+	return apiCall<CrashBetResult>('/api/game/crash/cashout', {
+		method: 'POST'
+	});
+}
+
+/**
+ * Get your running auto-bet session, or the last one to have run
+ */
+export async function getAutoBetData(): Promise<ApiResponse<AutoBetData>> {
+	try {
+		const response = await fetch('/api/game/auto');
+		return await response.json();
+	} catch {
+		return {
+			success: false,
+			error: 'Network error occurred'
+		};
+	}
+}
+
+/**
+ * Start an auto-bet session that the server runs until a stop condition is met
+ */
+export async function startAutoBet(
+	request: AutoBetStartRequest
+): Promise<ApiResponse<AutoBetSession>> {
+	return apiCall<AutoBetSession>('/api/game/auto', {
+		method: 'POST',
+		body: JSON.stringify(request)
+	});
+}
+
+/**
+ * Stop your running auto-bet session
+ */
+export async function stopAutoBet(): Promise<ApiResponse<AutoBetSession>> {
+	return apiCall<AutoBetSession>('/api/game/auto/stop', {
+		method: 'POST'
+	});
+}
+
+/**
+ * Get bet history
+ */
+export async function getBetHistory(
+	page = 1,
+	limit = 20,
+	gameType?: string
+): Promise<ApiResponse<BetHistoryResponse>> {
+	try {
+		const params = new URLSearchParams({
+			page: page.toString(),
+			limit: limit.toString()
+		});
+
+		if (gameType) {
+			params.append('gameType', gameType);
+		}
+
+		const response = await fetch(`/api/game/history?${params}`);
+		return await response.json();
+	} catch {
+		return {
+			success: false,
+			error: 'Network error occurred'
+		};
+	}
+}
+
+/**
+ * Get the user's wallet transactions
+ */
+export async function getWalletTransactions(
+	page = 1,
+	limit = 20,
+	type?: WalletTransactionType
+): Promise<ApiResponse<WalletTransactionsResponse>> {
+	try {
+		const params = new URLSearchParams({
+			page: page.toString(),
+			limit: limit.toString()
+		});
+
+		if (type) {
+			params.append('type', type);
+		}
+
+		const response = await fetch(`/api/wallet/transactions?${params}`);
+		return await response.json();
+	} catch {
+		return {
+			success: false,
+			error: 'Network error occurred'
+		};
+	}
+}
+
+/**
+ * Verify a bet's provable fairness
+ */
+export async function verifyBet(betId: string): Promise<ApiResponse<BetVerificationData>> {
+	try {
+		const response = await fetch(`/api/game/verify?betId=${encodeURIComponent(betId)}`);
+		return await response.json();
+	} catch {
+		return {
+			success: false,
+			error: 'Network error occurred'
+		};
+	}
+}
+
+/**
+ * Get current user balance, next nonce and committed seed hashes (for dice game)
+ */
+export async function getDiceGameData(): Promise<ApiResponse<GameData>> {
+	try {
+		const response = await fetch('/api/game/dice');
+		return await response.json();
+	} catch {
+		return {
+			success: false,
+			error: 'Network error occurred'
+		};
+	}
+}
+
+/**
+ * Get current user balance, next nonce and committed seed hashes (for flip game)
+ */
+export async function getFlipGameData(): Promise<ApiResponse<GameData>> {
+	try {
+		const response = await fetch('/api/game/flip');
+		return await response.json();
+	} catch {
+		return {
+			success: false,
+			error: 'Network error occurred'
+		};
+	}
+}
+
+/**
+ * Get the active client seed, hashed server seeds and the last revealed seed pair
+ */
+export async function getSeedState(): Promise<ApiResponse<SeedState>> {
+	try {
+		const response = await fetch('/api/game/seed');
+		return await response.json();
+	} catch {
+		return {
+			success: false,
+			error: 'Network error occurred'
+		};
+	}
+}
+
+/**
+ * Change the client seed (this reveals the active server seed)
+ */
+export async function updateClientSeed(clientSeed: string): Promise<ApiResponse<SeedState>> {
+	return apiCall<SeedState>('/api/game/seed', {
+		method: 'PUT',
+		body: JSON.stringify({ clientSeed })
+	});
+}
+
+/**
+ * Reveal the active server seed and switch to the committed next seed pair
+ */
+export async function rotateSeedPair(): Promise<ApiResponse<SeedState>> {
+	return apiCall<SeedState>('/api/game/seed/rotate', {
+		method: 'POST'
+	});
+}
+
+/**
+ * Get the user's wager and loss limits with what is left of each this period
+ */
+export async function getLimits(): Promise<ApiResponse<{ limits: GamblingLimit[] }>> {
+	try {
+		const response = await fetch('/api/limits');
+		return await response.json();
+	} catch {
+		return {
+			success: false,
+			error: 'Network error occurred'
+		};
+	}
+}
+
+/**
+ * Set or remove (`amount: null`) one limit. Lower limits apply at once, higher ones after 24 hours.
+ */
+export async function setLimit(
+	type: LimitType,
+	period: LimitPeriod,
+	amount: number | null
+): Promise<ApiResponse<{ limits: GamblingLimit[] }>> {
+	return apiCall<{ limits: GamblingLimit[] }>('/api/limits', {
+		method: 'PUT',
+		body: JSON.stringify({ type, period, amount })
+	});
+}
+
+/**
+ * Get a game's house edge, bet limits, payout cap and whether it is enabled, with the current
+ * max profit per bet
+ */
+export async function getGameConfig(gameType: string): Promise<ApiResponse<GameSettings>> {
+	try {
+		const response = await fetch(`/api/game/${gameType}/config`);
+		return await response.json();
+	} catch {
+		return {
+			success: false,
+			error: 'Network error occurred'
+		};
+	}
+}
+
+/**
+ * Find users by username or id (admins only)
+ */
+export async function getAdminUsers(
+	search = '',
+	page = 1,
+	limit = 20
+): Promise<ApiResponse<AdminUsersResponse>> {
+	try {
+		const params = new URLSearchParams({
+			page: page.toString(),
+			limit: limit.toString()
+		});
+
+		if (search) {
+			params.append('search', search);
+		}
+
+		const response = await fetch(`/api/admin/users?${params}`);
+		return await response.json();
+	} catch {
+		return {
+			success: false,
+			error: 'Network error occurred'
+		};
+	}
+}
+
+/**
+ * Get a user's details and a page of their bets (admins only)
+ */
+export async function getAdminUser(
+	userId: string,
+	page = 1,
+	limit = 20
+): Promise<ApiResponse<AdminUserResponse>> {
+	try {
+		const params = new URLSearchParams({
+			page: page.toString(),
+			limit: limit.toString()
+		});
+
+		const response = await fetch(`/api/admin/users/${encodeURIComponent(userId)}?${params}`);
+		return await response.json();
 	} catch {
 		return {
 			success: false,
@@ -185,3 +993,169 @@ export async function getFlipGameData(): Promise<
 		};
 	}
 }
+
+/**
+ * Credit (positive amount) or debit (negative amount) a user's balance, giving a reason
+ */
+export async function adjustUserBalance(
+	userId: string,
+	amount: number,
+	reason: string
+): Promise<ApiResponse<{ newBalance: number }>> {
+	return apiCall<{ newBalance: number }>(`/api/admin/users/${encodeURIComponent(userId)}/balance`, {
+		method: 'POST',
+		body: JSON.stringify({ amount, reason })
+	});
+}
+
+/**
+ * Ban or unban a user
+ */
+export async function setUserBanned(
+	userId: string,
+	banned: boolean
+): Promise<ApiResponse<AdminUserDetail>> {
+	return apiCall<AdminUserDetail>(`/api/admin/users/${encodeURIComponent(userId)}/ban`, {
+		method: 'POST',
+		body: JSON.stringify({ banned })
+	});
+}
+
+/**
+ * Sign a user out of every session
+ */
+export async function forceLogoutUser(userId: string): Promise<ApiResponse<{ ended: number }>> {
+	return apiCall<{ ended: number }>(`/api/admin/users/${encodeURIComponent(userId)}/sessions`, {
+		method: 'DELETE'
+	});
+}
+
+/**
+ * List every game with its current settings (admins only)
+ */
+export async function getAdminGames(): Promise<ApiResponse<{ games: GameConfigEntry[] }>> {
+	try {
+		const response = await fetch('/api/admin/games');
+		return await response.json();
+	} catch {
+		return {
+			success: false,
+			error: 'Network error occurred'
+		};
+	}
+}
+
+/**
+ * Save a game's settings (admins only)
+ */
+export async function updateGameConfig(
+	gameType: string,
+	config: GameConfig
+): Promise<ApiResponse<GameConfig>> {
+	return apiCall<GameConfig>(`/api/admin/games/${encodeURIComponent(gameType)}`, {
+		method: 'PUT',
+		body: JSON.stringify(config)
+	});
+}
+
+/**
+ * Get the bankroll, its max profit per bet and its latest movements (admins only)
+ */
+export async function getAdminBankroll(): Promise<ApiResponse<BankrollSummary>> {
+	try {
+		const response = await fetch('/api/admin/bankroll');
+		return await response.json();
+	} catch {
+		return {
+			success: false,
+			error: 'Network error occurred'
+		};
+	}
+}
+
+/**
+ * Set the share of the bankroll one bet can win (admins only)
+ */
+export async function updateBankrollSettings(
+	maxProfitPercent: number
+): Promise<ApiResponse<BankrollSummary>> {
+	return apiCall<BankrollSummary>('/api/admin/bankroll', {
+		method: 'PUT',
+		body: JSON.stringify({ maxProfitPercent })
+	});
+}
+
+/**
+ * Top up or withdraw from the bankroll, with the reason for it (admins only)
+ */
+export async function adjustBankroll(
+	amount: number,
+	reason: string
+): Promise<ApiResponse<BankrollSummary>> {
+	return apiCall<BankrollSummary>('/api/admin/bankroll/adjust', {
+		method: 'POST',
+		body: JSON.stringify({ amount, reason })
+	});
+}
+
+/**
+ * Get the latest ledger reconciliation, or null before the first has run (admins only)
+ */
+export async function getLedgerReconciliation(): Promise<ApiResponse<LedgerReconciliation | null>> {
+	try {
+		const response = await fetch('/api/admin/ledger');
+		return await response.json();
+	} catch {
+		return {
+			success: false,
+			error: 'Network error occurred'
+		};
+	}
+}
+
+/**
+ * Reconcile the ledger now (admins only)
+ */
+export async function reconcileLedger(): Promise<ApiResponse<LedgerReconciliation>> {
+	return apiCall<LedgerReconciliation>('/api/admin/ledger', { method: 'POST' });
+}
+
+function auditParams(filter: AuditFilter): URLSearchParams {
+	const params = new URLSearchParams();
+	for (const [key, value] of Object.entries(filter)) {
+		if (value) params.append(key, value);
+	}
+	return params;
+}
+
+/**
+ * Get a page of the audit log with the state of its hash chain (admins only)
+ */
+export async function getAuditLog(
+	filter: AuditFilter = {},
+	page = 1,
+	limit = 50
+): Promise<ApiResponse<AuditLogResponse>> {
+	try {
+		const params = auditParams(filter);
+		params.append('page', page.toString());
+		params.append('limit', limit.toString());
+
+		const response = await fetch(`/api/admin/audit?${params}`);
+		return await response.json();
+	} catch {
+		return {
+			success: false,
+			error: 'Network error occurred'
+		};
+	}
+}
+
+/**
+ * Link for downloading the audit log entries matching a filter
+ */
+export function getAuditExportUrl(filter: AuditFilter, format: 'csv' | 'json'): string {
+	const params = auditParams(filter);
+	params.append('format', format);
+	return `/api/admin/audit/export?${params}`;
+}
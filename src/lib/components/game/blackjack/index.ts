@@ -0,0 +1,2 @@
+export { default as BlackjackTable } from './BlackjackTable.svelte';
+export { default as BlackjackVerifyDialog } from './BlackjackVerifyDialog.svelte';
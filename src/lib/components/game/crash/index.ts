@@ -0,0 +1,2 @@
+export { default as CrashGraph } from './CrashGraph.svelte';
+export { default as CrashPlayers } from './CrashPlayers.svelte';
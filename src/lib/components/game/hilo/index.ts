@@ -0,0 +1 @@
+export { default as HiloTrail } from './HiloTrail.svelte';
@@ -5,9 +5,43 @@ export { default as ProfitDisplay } from './ProfitDisplay.svelte';
 export { default as GameHistory } from './GameHistory.svelte';
 export { default as WinOverlay } from './WinOverlay.svelte';
 export { default as MultiplierOverlay } from './MultiplierOverlay.svelte';
+export { default as FairnessDialog } from './FairnessDialog.svelte';
+export { default as PlayingCard } from './PlayingCard.svelte';
+export { default as AutoBetPanel } from './AutoBetPanel.svelte';
+export { default as StrategyPanel } from './StrategyPanel.svelte';
 
 // Dice game components
 export * from './dice';
 
 // Flip game components
 export * from './flip';
+
+// Limbo game components
+export * from './limbo';
+
+// Plinko game components
+export * from './plinko';
+
+// Mines game components
+export * from './mines';
+
+// Crash game components
+export * from './crash';
+
+// Roulette game components
+export * from './roulette';
+
+// Keno game components
+export * from './keno';
+
+// Blackjack game components
+export * from './blackjack';
+
+// Hi-Lo game components
+export * from './hilo';
+
+// Wheel game components
+export * from './wheel';
+
+// Dragon Tower game components
+export * from './tower';
@@ -0,0 +1,3 @@
+export { default as KenoBoard } from './KenoBoard.svelte';
+export { default as KenoControls } from './KenoControls.svelte';
+export { default as KenoPayouts } from './KenoPayouts.svelte';
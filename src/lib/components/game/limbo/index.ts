@@ -0,0 +1,2 @@
+export { default as LimboDisplay } from './LimboDisplay.svelte';
+export { default as LimboControls } from './LimboControls.svelte';
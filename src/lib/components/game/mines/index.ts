@@ -0,0 +1 @@
+export { default as MinesGrid } from './MinesGrid.svelte';
@@ -0,0 +1,2 @@
+export { default as PlinkoBoard } from './PlinkoBoard.svelte';
+export { default as PlinkoControls } from './PlinkoControls.svelte';
@@ -0,0 +1,2 @@
+export { default as RouletteBoard } from './RouletteBoard.svelte';
+export { default as RouletteWheel } from './RouletteWheel.svelte';
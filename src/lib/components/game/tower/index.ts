@@ -0,0 +1 @@
+export { default as TowerBoard } from './TowerBoard.svelte';
@@ -0,0 +1,3 @@
+export { default as WheelSpinner } from './WheelSpinner.svelte';
+export { default as WheelControls } from './WheelControls.svelte';
+export { default as WheelPayouts } from './WheelPayouts.svelte';
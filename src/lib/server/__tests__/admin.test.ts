@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeAll } from 'bun:test';
+import { and, eq } from 'drizzle-orm';
+import * as table from '$lib/server/db/schema';
+import {
+	mockDatabase,
+	createTestUser,
+	createRequestEvent,
+	type TestDatabase
+} from '$lib/server/__tests__/test-utils';
+import type { Transaction } from '$lib/server/db';
+
+let db: TestDatabase;
+let auth: typeof import('$lib/server/auth');
+let ledger: typeof import('$lib/server/ledger');
+let admin: typeof import('$lib/server/admin');
+let usersRoute: typeof import('../../../routes/api/admin/users/+server');
+let balanceRoute: typeof import('../../../routes/api/admin/users/[id]/balance/+server');
+let banRoute: typeof import('../../../routes/api/admin/users/[id]/ban/+server');
+
+beforeAll(async () => {
+	db = mockDatabase();
+	auth = await import('$lib/server/auth');
+	ledger = await import('$lib/server/ledger');
+	admin = await import('$lib/server/admin');
+	usersRoute = await import('../../../routes/api/admin/users/+server');
+	balanceRoute = await import('../../../routes/api/admin/users/[id]/balance/+server');
+	banRoute = await import('../../../routes/api/admin/users/[id]/ban/+server');
+});
+
+// Route handlers are typed per route; the test events are built the same way for all of them
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type AnyEvent = any;
+
+/**
+ * A user whose starting balance came in through the ledger, so reconciliation stays clean
+ */
+async function createFundedUser(overrides: Partial<typeof table.user.$inferInsert> = {}) {
+	const user = await createTestUser(db, { ...overrides, balance: 0 });
+	db.transaction((tx) =>
+		ledger.postTransfer(tx as unknown as Transaction, {
+			type: 'bonus',
+			userId: user.userId,
+			amount: 100_000
+		})
+	);
+	return user;
+}
+
+function getBalance(userId: string): number {
+	return db.select().from(table.user).where(eq(table.user.id, userId)).get()!.balance;
+}
+
+describe('Admin console', () => {
+	it('should find users by part of their username or their exact id', async () => {
+		const { userId } = await createFundedUser({ username: 'findme-admin-test' });
+		await createFundedUser();
+
+		const byName = admin.listUsers({ search: 'FINDME', page: 1, limit: 20 });
+		const byId = admin.listUsers({ search: userId, page: 1, limit: 20 });
+		const all = admin.listUsers({ page: 1, limit: 1 });
+
+		expect(byName.users.map((user) => user.id)).toEqual([userId]);
+		expect(byName.users[0]).toMatchObject({ balance: 100_000, bets: 0, isBanned: false });
+		expect(byId.total).toBe(1);
+		expect(all.users).toHaveLength(1);
+		expect(all.total).toBeGreaterThanOrEqual(2);
+	});
+
+	it('should adjust a balance through the ledger with the reason attached', async () => {
+		const moderator = await createFundedUser({ isAdmin: true });
+		const { userId } = await createFundedUser();
+
+		const response = await balanceRoute.POST(
+			createRequestEvent(`/api/admin/users/${userId}/balance`, {
+				method: 'POST',
+				body: { amount: -2500, reason: 'Chargeback on deposit' },
+				sessionToken: moderator.sessionToken,
+				params: { id: userId }
+			}) as AnyEvent
+		);
+		const body = await response.json();
+
+		expect(body).toEqual({ success: true, result: { newBalance: 97_500 } });
+		expect(getBalance(userId)).toBe(97_500);
+
+		const entry = db
+			.select()
+			.from(table.transaction)
+			.where(
+				and(eq(table.transaction.userId, userId), eq(table.transaction.type, 'admin_adjustment'))
+			)
+			.get()!;
+		expect(entry).toMatchObject({
+			amount: -2500,
+			reference: moderator.userId,
+			description: 'Chargeback on deposit'
+		});
+		expect(ledger.reconcileLedger()).toEqual({ discrepancies: [], unbalancedTransfers: [] });
+	});
+
+	it('should refuse adjustments without a reason or that overdraw the wallet', async () => {
+		const moderator = await createFundedUser({ isAdmin: true });
+		const { userId } = await createFundedUser();
+		const adjust = (body: unknown) =>
+			balanceRoute.POST(
+				createRequestEvent(`/api/admin/users/${userId}/balance`, {
+					method: 'POST',
+					body,
+					sessionToken: moderator.sessionToken,
+					params: { id: userId }
+				}) as AnyEvent
+			);
+
+		expect((await adjust({ amount: 100, reason: '  ' })).status).toBe(400);
+		expect((await adjust({ amount: 0.5, reason: 'Refund' })).status).toBe(400);
+		expect((await adjust({ amount: -100_001, reason: 'Too much' })).status).toBe(400);
+		expect(getBalance(userId)).toBe(100_000);
+	});
+
+	it('should end sessions on ban and keep new ones from working', async () => {
+		const moderator = await createFundedUser({ isAdmin: true });
+		const { userId, sessionToken } = await createFundedUser();
+
+		const response = await banRoute.POST(
+			createRequestEvent(`/api/admin/users/${userId}/ban`, {
+				method: 'POST',
+				body: { banned: true },
+				sessionToken: moderator.sessionToken,
+				params: { id: userId }
+			}) as AnyEvent
+		);
+		const body = await response.json();
+
+		expect(body.result).toMatchObject({ isBanned: true, sessions: 0 });
+		expect((await auth.validateSessionToken(sessionToken)).user).toBeNull();
+
+		const lateToken = auth.generateSessionToken();
+		await auth.createSession(lateToken, userId);
+		expect((await auth.validateSessionToken(lateToken)).session).toBeNull();
+
+		await admin.setUserBanned({
+			actor: { id: moderator.userId, ipAddress: null },
+			userId,
+			banned: false
+		});
+		const freshToken = auth.generateSessionToken();
+		await auth.createSession(freshToken, userId);
+		expect((await auth.validateSessionToken(freshToken)).user?.id).toBe(userId);
+	});
+
+	it('should sign a user out everywhere on request', async () => {
+		const moderator = await createFundedUser({ isAdmin: true });
+		const actor = { id: moderator.userId, ipAddress: null };
+		const { userId, sessionToken } = await createFundedUser();
+		await auth.createSession(auth.generateSessionToken(), userId);
+
+		expect(admin.getUserDetail(userId).sessions).toBe(2);
+		expect(await admin.forceLogout(userId, actor)).toBe(2);
+		expect((await auth.validateSessionToken(sessionToken)).session).toBeNull();
+		await expect(admin.forceLogout('missing-user', actor)).rejects.toThrow('User not found');
+	});
+
+	it('should turn away anyone who is not an admin', async () => {
+		const player = await createFundedUser();
+
+		const forbidden = await usersRoute.GET(
+			createRequestEvent('/api/admin/users', { sessionToken: player.sessionToken }) as AnyEvent
+		);
+		const anonymous = await usersRoute.GET(createRequestEvent('/api/admin/users') as AnyEvent);
+
+		expect(forbidden.status).toBe(403);
+		expect(anonymous.status).toBe(401);
+	});
+});
@@ -0,0 +1,201 @@
+import { describe, it, expect, beforeAll } from 'bun:test';
+import { eq, sql } from 'drizzle-orm';
+import * as table from '$lib/server/db/schema';
+import {
+	mockDatabase,
+	createTestUser,
+	createRequestEvent,
+	type TestDatabase
+} from '$lib/server/__tests__/test-utils';
+import type { Transaction } from '$lib/server/db';
+
+let db: TestDatabase;
+let ledger: typeof import('$lib/server/ledger');
+let audit: typeof import('$lib/server/audit');
+let balanceRoute: typeof import('../../../routes/api/admin/users/[id]/balance/+server');
+let banRoute: typeof import('../../../routes/api/admin/users/[id]/ban/+server');
+let auditRoute: typeof import('../../../routes/api/admin/audit/+server');
+let exportRoute: typeof import('../../../routes/api/admin/audit/export/+server');
+
+beforeAll(async () => {
+	db = mockDatabase();
+	ledger = await import('$lib/server/ledger');
+	audit = await import('$lib/server/audit');
+	balanceRoute = await import('../../../routes/api/admin/users/[id]/balance/+server');
+	banRoute = await import('../../../routes/api/admin/users/[id]/ban/+server');
+	auditRoute = await import('../../../routes/api/admin/audit/+server');
+	exportRoute = await import('../../../routes/api/admin/audit/export/+server');
+});
+
+// Route handlers are typed per route; the test events are built the same way for all of them
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type AnyEvent = any;
+
+async function createFundedUser(overrides: Partial<typeof table.user.$inferInsert> = {}) {
+	const user = await createTestUser(db, { ...overrides, balance: 0 });
+	db.transaction((tx) =>
+		ledger.postTransfer(tx as unknown as Transaction, {
+			type: 'bonus',
+			userId: user.userId,
+			amount: 100_000
+		})
+	);
+	return user;
+}
+
+function getEntries(targetId: string) {
+	return audit.exportAuditLog({ target: targetId });
+}
+
+describe('Admin audit log', () => {
+	it('should record the admin, target, before and after state and IP of privileged operations', async () => {
+		const moderator = await createFundedUser({ isAdmin: true, username: 'audit-moderator' });
+		const player = await createFundedUser();
+		const params = { id: player.userId };
+
+		await balanceRoute.POST(
+			createRequestEvent(`/api/admin/users/${player.userId}/balance`, {
+				method: 'POST',
+				body: { amount: 2_500, reason: 'Goodwill credit' },
+				sessionToken: moderator.sessionToken,
+				params
+			}) as AnyEvent
+		);
+		await banRoute.POST(
+			createRequestEvent(`/api/admin/users/${player.userId}/ban`, {
+				method: 'POST',
+				body: { banned: true },
+				sessionToken: moderator.sessionToken,
+				params
+			}) as AnyEvent
+		);
+
+		const [ban, credit] = getEntries(player.userId);
+
+		expect(credit).toMatchObject({
+			actorId: moderator.userId,
+			actorUsername: 'audit-moderator',
+			action: 'balance_adjustment',
+			targetType: 'user',
+			targetId: player.userId,
+			before: { balance: 100_000 },
+			after: { balance: 102_500, reason: 'Goodwill credit' },
+			ipAddress: '127.0.0.1'
+		});
+		expect(ban).toMatchObject({
+			action: 'user_ban',
+			before: { isBanned: false },
+			after: { isBanned: true }
+		});
+		expect(ban.previousHash).toBe(credit.hash);
+	});
+
+	it('should refuse to update or delete entries', async () => {
+		const moderator = await createFundedUser({ isAdmin: true });
+		const player = await createFundedUser();
+		await banRoute.POST(
+			createRequestEvent(`/api/admin/users/${player.userId}/ban`, {
+				method: 'POST',
+				body: { banned: true },
+				sessionToken: moderator.sessionToken,
+				params: { id: player.userId }
+			}) as AnyEvent
+		);
+
+		expect(() =>
+			db
+				.update(table.auditLog)
+				.set({ after: { isBanned: false } })
+				.where(eq(table.auditLog.targetId, player.userId))
+				.run()
+		).toThrow('append-only');
+		expect(() =>
+			db.delete(table.auditLog).where(eq(table.auditLog.targetId, player.userId)).run()
+		).toThrow('append-only');
+		expect(getEntries(player.userId)).toHaveLength(1);
+	});
+
+	it('should filter the log and export it as CSV or JSON for admins only', async () => {
+		const moderator = await createFundedUser({ isAdmin: true, username: 'audit-exporter' });
+		const player = await createFundedUser();
+		await balanceRoute.POST(
+			createRequestEvent(`/api/admin/users/${player.userId}/balance`, {
+				method: 'POST',
+				body: { amount: -1_000, reason: 'Chargeback, "disputed"' },
+				sessionToken: moderator.sessionToken,
+				params: { id: player.userId }
+			}) as AnyEvent
+		);
+		const get = (
+			handler: (event: AnyEvent) => Response | Promise<Response>,
+			url: string,
+			sessionToken: string
+		) => handler(createRequestEvent(url, { sessionToken }));
+
+		expect((await get(auditRoute.GET, '/api/admin/audit', player.sessionToken)).status).toBe(403);
+		expect(
+			(await get(auditRoute.GET, '/api/admin/audit?action=nope', moderator.sessionToken)).status
+		).toBe(400);
+
+		const page = await (
+			await get(
+				auditRoute.GET,
+				'/api/admin/audit?actor=audit-exporter&action=balance_adjustment',
+				moderator.sessionToken
+			)
+		).json();
+		expect(page.data.total).toBe(1);
+		expect(page.data.entries[0].targetId).toBe(player.userId);
+		expect(page.data.chain).toMatchObject({ valid: true, brokenAt: null });
+
+		const future = new Date(Date.now() + 60_000).toISOString();
+		const none = await (
+			await get(auditRoute.GET, `/api/admin/audit?from=${future}`, moderator.sessionToken)
+		).json();
+		expect(none.data.total).toBe(0);
+
+		const csv = await get(
+			exportRoute.GET,
+			`/api/admin/audit/export?target=${player.userId}`,
+			moderator.sessionToken
+		);
+		expect(csv.headers.get('Content-Disposition')).toMatch(/audit-log-.*\.csv/);
+		const lines = (await csv.text()).trim().split('\n');
+		expect(lines).toHaveLength(2);
+		expect(lines[1]).toContain('"{""balance"":99000,""reason"":""Chargeback, \\""disputed\\""""}"');
+
+		const exported = await (
+			await get(
+				exportRoute.GET,
+				`/api/admin/audit/export?format=json&target=${player.userId}`,
+				moderator.sessionToken
+			)
+		).json();
+		expect(exported).toHaveLength(1);
+		expect(exported[0]).toMatchObject({ action: 'balance_adjustment', actorId: moderator.userId });
+	});
+
+	it('should detect an entry altered behind the triggers', async () => {
+		const moderator = await createFundedUser({ isAdmin: true });
+		const player = await createFundedUser();
+		await balanceRoute.POST(
+			createRequestEvent(`/api/admin/users/${player.userId}/balance`, {
+				method: 'POST',
+				body: { amount: 100, reason: 'Small credit' },
+				sessionToken: moderator.sessionToken,
+				params: { id: player.userId }
+			}) as AnyEvent
+		);
+		expect(audit.verifyAuditChain().valid).toBe(true);
+		const [entry] = getEntries(player.userId);
+
+		// Someone with direct database access drops the trigger and rewrites the amount
+		db.run(sql`DROP TRIGGER audit_log_no_update`);
+		db.update(table.auditLog)
+			.set({ after: { balance: 1_000_000, reason: 'Small credit' } })
+			.where(eq(table.auditLog.id, entry.id))
+			.run();
+
+		expect(audit.verifyAuditChain()).toMatchObject({ valid: false, brokenAt: entry.sequence });
+	});
+});
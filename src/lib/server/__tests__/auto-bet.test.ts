@@ -0,0 +1,246 @@
+import { describe, it, expect, beforeAll } from 'bun:test';
+import { asc, eq } from 'drizzle-orm';
+import * as table from '$lib/server/db/schema';
+import {
+	mockDatabase,
+	createTestUser,
+	createRequestEvent,
+	type TestDatabase
+} from '$lib/server/__tests__/test-utils';
+import type { GameBetResult } from '$lib/server/game-handler';
+import { DEFAULT_AUTO_BET_SETTINGS, type AutoBetEvent } from '$lib/utils/auto-bet';
+
+let db: TestDatabase;
+let autoBet: typeof import('$lib/server/auto-bet');
+let rateLimiter: typeof import('$lib/server/rate-limiter');
+let routes: {
+	start: typeof import('../../../routes/api/game/auto/+server').POST;
+	status: typeof import('../../../routes/api/game/auto/+server').GET;
+	stop: typeof import('../../../routes/api/game/auto/stop/+server').POST;
+};
+
+const diceRequest = { amount: 100, betType: 'over', target: 50 };
+
+beforeAll(async () => {
+	db = mockDatabase();
+	autoBet = await import('$lib/server/auto-bet');
+	rateLimiter = await import('$lib/server/rate-limiter');
+
+	const auto = await import('../../../routes/api/game/auto/+server');
+	const stop = await import('../../../routes/api/game/auto/stop/+server');
+	routes = { start: auto.POST, status: auto.GET, stop: stop.POST };
+});
+
+function getBalance(userId: string): number {
+	return db.select().from(table.user).where(eq(table.user.id, userId)).get()!.balance;
+}
+
+function getBets(userId: string) {
+	return db
+		.select()
+		.from(table.bet)
+		.where(eq(table.bet.userId, userId))
+		.orderBy(asc(table.bet.nonce))
+		.all();
+}
+
+/**
+ * Step a session until it stops, returning how many steps it took
+ */
+function runToCompletion(sessionId: string, limit = 100): number {
+	for (let steps = 1; steps <= limit; steps++) {
+		if (autoBet.runAutoBetStep(sessionId) === null) return steps;
+	}
+	throw new Error('The session did not stop');
+}
+
+describe('Auto-bet sessions', () => {
+	it('should place each bet through the bet transaction and stream it', async () => {
+		const { userId } = await createTestUser(db);
+		const events: AutoBetEvent<GameBetResult>[] = [];
+		const unsubscribe = autoBet.subscribeToAutoBet(userId, (event) => events.push(event));
+
+		const session = autoBet.startAutoBetSession(userId, {
+			game: 'dice',
+			request: diceRequest,
+			settings: { ...DEFAULT_AUTO_BET_SETTINGS, bets: 3 }
+		});
+		runToCompletion(session.id);
+		unsubscribe();
+
+		const bets = getBets(userId);
+		const results = events.flatMap((event) => (event.type === 'bet' ? [event.result] : []));
+		const profit = bets.reduce((sum, bet) => sum + bet.payout - bet.amount, 0);
+
+		expect(bets.map((bet) => bet.nonce)).toEqual([1, 2, 3]);
+		expect(bets.every((bet) => bet.gameType === 'dice' && bet.amount === 100)).toBe(true);
+		expect(results.map((result) => result.betId)).toEqual(bets.map((bet) => bet.id));
+		expect(getBalance(userId)).toBe(100_000 + profit);
+
+		const status = autoBet.getAutoBetSession(userId)!;
+		expect(status.status).toBe('stopped');
+		expect(status.stopReason).toBe('completed');
+		expect(status.tally.bets).toBe(3);
+		expect(status.tally.profit).toBe(profit);
+	});
+
+	it('should size each bet from the last result', async () => {
+		const { userId } = await createTestUser(db);
+
+		const session = autoBet.startAutoBetSession(userId, {
+			game: 'dice',
+			request: diceRequest,
+			settings: {
+				...DEFAULT_AUTO_BET_SETTINGS,
+				bets: 6,
+				onLoss: { mode: 'increase', percent: 100 }
+			}
+		});
+		runToCompletion(session.id);
+
+		const bets = getBets(userId);
+		expect(bets).toHaveLength(6);
+		for (let i = 1; i < bets.length; i++) {
+			expect(bets[i].amount).toBe(bets[i - 1].win ? 100 : bets[i - 1].amount * 2);
+		}
+	});
+
+	it('should stop on the profit or loss limit', async () => {
+		const { userId } = await createTestUser(db);
+
+		const session = autoBet.startAutoBetSession(userId, {
+			game: 'dice',
+			request: diceRequest,
+			settings: { ...DEFAULT_AUTO_BET_SETTINGS, bets: 0, stopOnProfit: 50, stopOnLoss: 50 }
+		});
+		expect(runToCompletion(session.id)).toBe(1);
+
+		const [bet] = getBets(userId);
+		expect(autoBet.getAutoBetSession(userId)!.stopReason).toBe(bet.win ? 'profit' : 'loss');
+	});
+
+	it('should stop when the balance cannot cover the next bet', async () => {
+		const { userId } = await createTestUser(db);
+
+		const session = autoBet.startAutoBetSession(userId, {
+			game: 'dice',
+			request: diceRequest,
+			settings: { ...DEFAULT_AUTO_BET_SETTINGS, bets: 0 }
+		});
+		db.update(table.user).set({ balance: 50 }).where(eq(table.user.id, userId)).run();
+
+		expect(autoBet.runAutoBetStep(session.id)).toBeNull();
+		expect(getBets(userId)).toHaveLength(0);
+		expect(autoBet.getAutoBetSession(userId)!.stopReason).toBe('balance');
+	});
+
+	it('should wait for the betting rate limit instead of failing', async () => {
+		const { userId } = await createTestUser(db);
+		const { betting } = rateLimiter.RATE_LIMITS;
+
+		// Manual bets share the same limit
+		for (let i = 0; i < betting.maxRequests; i++) {
+			rateLimiter.isRateLimited(`${userId}:betting`, betting);
+		}
+
+		const session = autoBet.startAutoBetSession(userId, {
+			game: 'dice',
+			request: diceRequest,
+			settings: { ...DEFAULT_AUTO_BET_SETTINGS, bets: 1 }
+		});
+		const delay = autoBet.runAutoBetStep(session.id);
+
+		expect(delay).toBeGreaterThan(0);
+		expect(delay).toBeLessThanOrEqual(betting.windowMs);
+		expect(getBets(userId)).toHaveLength(0);
+		expect(autoBet.getAutoBetSession(userId)!.status).toBe('running');
+	});
+
+	it('should run one session at a time and only on instant games', async () => {
+		const { userId } = await createTestUser(db);
+		const start = {
+			game: 'dice',
+			request: diceRequest,
+			settings: { ...DEFAULT_AUTO_BET_SETTINGS, bets: 0 }
+		};
+
+		expect(() => autoBet.startAutoBetSession(userId, { ...start, game: 'mines' })).toThrow(
+			'Auto-bet is not available for this game'
+		);
+		expect(() =>
+			autoBet.startAutoBetSession(userId, {
+				...start,
+				request: { ...diceRequest, amount: 500_000 }
+			})
+		).toThrow();
+
+		const session = autoBet.startAutoBetSession(userId, start);
+		expect(() => autoBet.startAutoBetSession(userId, start)).toThrow(
+			'An auto-bet session is already running'
+		);
+
+		expect(autoBet.stopAutoBetSession(userId).stopReason).toBe('stopped');
+		expect(autoBet.runAutoBetStep(session.id)).toBeNull();
+		expect(getBets(userId)).toHaveLength(0);
+	});
+});
+
+describe('/api/game/auto', () => {
+	type StartEvent = Parameters<typeof routes.start>[0];
+	type StatusEvent = Parameters<typeof routes.status>[0];
+	type StopEvent = Parameters<typeof routes.stop>[0];
+
+	it('should start, report and stop a session', async () => {
+		const { sessionToken } = await createTestUser(db);
+
+		const started = await routes.start(
+			createRequestEvent<StartEvent>('/api/game/auto', {
+				method: 'POST',
+				body: {
+					game: 'flip',
+					request: { amount: 100, side: 'cat' },
+					settings: DEFAULT_AUTO_BET_SETTINGS
+				},
+				sessionToken
+			})
+		);
+		const startBody = await started.json();
+		expect(started.status).toBe(200);
+		expect(startBody.result.status).toBe('running');
+		expect(startBody.result.request).toEqual({ side: 'cat' });
+
+		const status = await routes.status(
+			createRequestEvent<StatusEvent>('/api/game/auto', { sessionToken })
+		);
+		expect((await status.json()).data.session.id).toBe(startBody.result.id);
+
+		const stopped = await routes.stop(
+			createRequestEvent<StopEvent>('/api/game/auto/stop', { method: 'POST', sessionToken })
+		);
+		expect((await stopped.json()).result.stopReason).toBe('stopped');
+
+		const again = await routes.stop(
+			createRequestEvent<StopEvent>('/api/game/auto/stop', { method: 'POST', sessionToken })
+		);
+		expect(again.status).toBe(400);
+	});
+
+	it('should reject invalid settings', async () => {
+		const { sessionToken } = await createTestUser(db);
+
+		const response = await routes.start(
+			createRequestEvent<StartEvent>('/api/game/auto', {
+				method: 'POST',
+				body: {
+					game: 'dice',
+					request: diceRequest,
+					settings: { ...DEFAULT_AUTO_BET_SETTINGS, bets: -1 }
+				},
+				sessionToken
+			})
+		);
+
+		expect(response.status).toBe(400);
+		expect((await response.json()).error).toBe('Invalid auto-bet settings');
+	});
+});
@@ -0,0 +1,202 @@
+import { describe, it, expect, beforeAll } from 'bun:test';
+import { eq } from 'drizzle-orm';
+import * as table from '$lib/server/db/schema';
+import {
+	mockDatabase,
+	createTestUser,
+	createRequestEvent,
+	type TestDatabase
+} from '$lib/server/__tests__/test-utils';
+import type { Transaction } from '$lib/server/db';
+import type { GameDefinition } from '$lib/server/games';
+import type { AuditActor } from '$lib/server/audit';
+import { formatMoney } from '$lib/utils/money';
+
+let db: TestDatabase;
+let ledger: typeof import('$lib/server/ledger');
+let bankroll: typeof import('$lib/server/bankroll');
+let gameHandler: typeof import('$lib/server/game-handler');
+let games: typeof import('$lib/server/games');
+let gameRoute: typeof import('../../../routes/api/game/[game]/+server');
+let actionRoute: typeof import('../../../routes/api/game/[game]/action/+server');
+let adjustRoute: typeof import('../../../routes/api/admin/bankroll/adjust/+server');
+let actor: AuditActor;
+let seeded: table.Bankroll; // The row as the migrations left it
+
+beforeAll(async () => {
+	db = mockDatabase();
+	ledger = await import('$lib/server/ledger');
+	bankroll = await import('$lib/server/bankroll');
+	gameHandler = await import('$lib/server/game-handler');
+	games = await import('$lib/server/games');
+	gameRoute = await import('../../../routes/api/game/[game]/+server');
+	actionRoute = await import('../../../routes/api/game/[game]/action/+server');
+	adjustRoute = await import('../../../routes/api/admin/bankroll/adjust/+server');
+
+	const { userId } = await createTestUser(db, { isAdmin: true, balance: 0 });
+	actor = { id: userId, ipAddress: null };
+	seeded = db.select().from(table.bankroll).get()!;
+});
+
+// Route handlers are typed per route; the test events are built the same way for all of them
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type AnyEvent = any;
+
+function inTransaction<T>(fn: (tx: Transaction) => T): T {
+	return db.transaction((tx) => fn(tx as unknown as Transaction));
+}
+
+/**
+ * A user whose starting balance came in through the ledger, as it does on registration
+ */
+async function createFundedUser(overrides: Partial<typeof table.user.$inferInsert> = {}) {
+	const user = await createTestUser(db, { ...overrides, balance: 0 });
+	inTransaction((tx) =>
+		ledger.postTransfer(tx, { type: 'bonus', userId: user.userId, amount: 100_000 })
+	);
+	return user;
+}
+
+function getBankrollBalance(): number {
+	return inTransaction((tx) => bankroll.getBankroll(tx).balance);
+}
+
+function getMovement(reference: string) {
+	return db
+		.select()
+		.from(table.bankrollMovement)
+		.where(eq(table.bankrollMovement.reference, reference))
+		.get();
+}
+
+describe('House bankroll', () => {
+	it('should start from the bankroll the migrations seed', () => {
+		expect(seeded.id).toBe('house');
+		expect(seeded.balance).toBeGreaterThan(0);
+		expect(seeded.maxProfitPercent).toBeGreaterThan(0);
+		expect(inTransaction((tx) => bankroll.getBankroll(tx))).toEqual(seeded);
+	});
+
+	it('should move the bankroll by the stake less the payout of every settled bet', async () => {
+		const { userId } = await createFundedUser();
+		const dice = games.getGame('dice') as GameDefinition;
+		const before = getBankrollBalance();
+
+		const results = Array.from({ length: 6 }, () =>
+			gameHandler.placeGameBet(userId, dice, { amount: 500, betType: 'under', target: 50 })
+		);
+
+		for (const result of results) {
+			expect(getMovement(result.betId)).toMatchObject({
+				type: 'bet',
+				gameType: 'dice',
+				stake: 500,
+				payout: result.payout,
+				amount: 500 - result.payout
+			});
+		}
+		const houseResult = results.reduce((sum, result) => sum + 500 - result.payout, 0);
+		expect(getBankrollBalance()).toBe(before + houseResult);
+		expect(bankroll.getBankrollSummary(6).movements[0].balanceAfter).toBe(before + houseResult);
+	});
+
+	it('should reject a bet that could win more than the max profit', async () => {
+		const { userId } = await createFundedUser();
+		const limbo = games.getGame('limbo') as GameDefinition;
+		bankroll.updateBankrollSettings(0.0001, actor); // About 1.00 of the seeded bankroll
+		const { maxProfit } = bankroll.getBankrollSummary();
+		const bet = (target: number) => () =>
+			gameHandler.placeGameBet(userId, limbo, { amount: 100, target });
+
+		expect(bet(1 + (maxProfit + 1) / 100)).toThrow(
+			`Max profit per bet is ${formatMoney(maxProfit)}`
+		);
+		expect(bet(1 + maxProfit / 100)).not.toThrow();
+
+		bankroll.updateBankrollSettings(seeded.maxProfitPercent, actor);
+	});
+
+	it('should refuse round steps above the max profit and pay a cashout above it at the limit', async () => {
+		const { userId, sessionToken } = await createFundedUser();
+		const call = async (
+			handler: (event: AnyEvent) => Response | Promise<Response>,
+			url: string,
+			body: unknown
+		) =>
+			(
+				await handler(
+					createRequestEvent(url, { method: 'POST', body, sessionToken, params: { game: 'mines' } })
+				)
+			).json();
+
+		const start = await call(gameRoute.POST, '/api/game/mines', { amount: 10_000, mines: 3 });
+		const mines = db.select().from(table.gameRound).where(eq(table.gameRound.userId, userId)).get()!
+			.state.mines as number[];
+		const [safeTile, nextSafeTile] = [...Array(25).keys()].filter((tile) => !mines.includes(tile));
+		await call(actionRoute.POST, '/api/game/mines/action', { action: 'reveal', tile: safeTile });
+
+		// Lowered mid-round, the limit refuses the next reveal but still lets the player cash out
+		bankroll.updateBankrollSettings(0.0001, actor);
+		const { maxProfit } = bankroll.getBankrollSummary();
+		const payoutLimit = 10_000 + maxProfit;
+		const refused = await call(actionRoute.POST, '/api/game/mines/action', {
+			action: 'reveal',
+			tile: nextSafeTile
+		});
+		const cashout = await call(actionRoute.POST, '/api/game/mines/action', { action: 'cashout' });
+
+		expect(refused.error).toBe(`Max profit per bet is ${formatMoney(maxProfit)}`);
+		expect(cashout.result.settlement).toMatchObject({
+			payout: payoutLimit,
+			payoutCap: payoutLimit
+		});
+
+		const round = db
+			.select()
+			.from(table.gameRound)
+			.where(eq(table.gameRound.id, start.result.round.id))
+			.get()!;
+		const bet = db.select().from(table.bet).where(eq(table.bet.id, round.betId!)).get()!;
+
+		expect(bet.payout).toBe(payoutLimit);
+		expect(JSON.parse(bet.gameData as string).payoutCap).toBe(payoutLimit);
+		expect(getMovement(bet.id)).toMatchObject({
+			stake: 10_000,
+			payout: payoutLimit,
+			amount: 10_000 - payoutLimit
+		});
+
+		bankroll.updateBankrollSettings(seeded.maxProfitPercent, actor);
+	});
+
+	it('should let admins top up the bankroll but not overdraw it', async () => {
+		const moderator = await createFundedUser({ isAdmin: true });
+		const player = await createFundedUser();
+		const adjust = (sessionToken: string, body: unknown) =>
+			adjustRoute.POST(
+				createRequestEvent('/api/admin/bankroll/adjust', {
+					method: 'POST',
+					body,
+					sessionToken
+				}) as AnyEvent
+			);
+		const before = getBankrollBalance();
+
+		expect((await adjust(player.sessionToken, { amount: 500, reason: 'Top up' })).status).toBe(403);
+		expect((await adjust(moderator.sessionToken, { amount: 500, reason: '' })).status).toBe(400);
+		expect(
+			(await adjust(moderator.sessionToken, { amount: -(before + 1), reason: 'Withdraw' })).status
+		).toBe(400);
+
+		const response = await adjust(moderator.sessionToken, { amount: 50_000, reason: 'Top up' });
+		const body = await response.json();
+
+		expect(body.result).toMatchObject({ balance: before + 50_000 });
+		expect(body.result.movements[0]).toMatchObject({
+			type: 'adjustment',
+			reference: moderator.userId,
+			amount: 50_000,
+			description: 'Top up'
+		});
+	});
+});
@@ -0,0 +1,225 @@
+import { describe, it, expect, beforeAll } from 'bun:test';
+import { and, eq } from 'drizzle-orm';
+import * as table from '$lib/server/db/schema';
+import {
+	mockDatabase,
+	createTestUser,
+	createRequestEvent,
+	type TestDatabase
+} from '$lib/server/__tests__/test-utils';
+import { generateCrashPoint, hashCrashChainLink } from '$lib/server/provably-fair';
+import { CRASH_BETTING_MS, getCrashDuration, getCrashMultiplier } from '$lib/utils/crash';
+
+let db: TestDatabase;
+let crash: typeof import('$lib/server/crash');
+let verify: typeof import('../../../routes/api/game/verify/+server').GET;
+
+type VerifyEvent = Parameters<typeof verify>[0];
+
+// Rounds are ordered by start time, so every test moves the clock forward
+let clock = Date.now();
+
+beforeAll(async () => {
+	db = mockDatabase();
+	crash = await import('$lib/server/crash');
+	({ GET: verify } = await import('../../../routes/api/game/verify/+server'));
+});
+
+function getBalance(userId: string): number {
+	return db.select().from(table.user).where(eq(table.user.id, userId)).get()!.balance;
+}
+
+function getBets(userId: string) {
+	return db.select().from(table.bet).where(eq(table.bet.userId, userId)).all();
+}
+
+/**
+ * Open a round and, if given, pin its crash point so cashouts can be tested at known multipliers
+ */
+function openRound(crashPoint?: number) {
+	clock += 60_000;
+	const round = crash.openCrashRound(clock);
+
+	if (crashPoint !== undefined) {
+		db.update(table.crashRound).set({ crashPoint }).where(eq(table.crashRound.id, round.id)).run();
+	}
+
+	return {
+		...round,
+		crashPoint: crashPoint ?? round.crashPoint,
+		startsAt: clock + CRASH_BETTING_MS
+	};
+}
+
+/**
+ * Milliseconds after the start at which the multiplier first shows `multiplier`
+ */
+function timeToReach(multiplier: number): number {
+	const elapsed = getCrashDuration(multiplier);
+	expect(getCrashMultiplier(elapsed)).toBe(multiplier);
+	return elapsed;
+}
+
+describe('Crash hash chain', () => {
+	it('should link every round hash to the one played before it', () => {
+		const seed = 'chain-seed';
+
+		for (let index = 1; index < 10; index++) {
+			expect(hashCrashChainLink(crash.getChainHash(seed, 10, index))).toBe(
+				crash.getChainHash(seed, 10, index - 1)
+			);
+		}
+		expect(crash.getChainHash(seed, 10, 9)).toBe(seed);
+	});
+
+	it('should give the same hashes when another chain was hashed in between', () => {
+		const first = crash.getChainHash('chain-seed', 10, 0);
+		crash.getChainHash('other-seed', 10, 0);
+		crash.getChainHash('chain-seed', 5, 0);
+
+		let hash = 'chain-seed';
+		for (let i = 0; i < 9; i++) {
+			hash = hashCrashChainLink(hash);
+		}
+		expect(crash.getChainHash('chain-seed', 10, 0)).toBe(hash);
+		expect(first).toBe(hash);
+	});
+
+	it('should reveal consecutive rounds that chain together', () => {
+		const first = openRound();
+		crash.startCrashRound(first.startsAt);
+		crash.settleCrashRound(first.startsAt + getCrashDuration(first.crashPoint));
+
+		const second = openRound();
+		const state = crash.getCrashState('nobody', clock);
+
+		expect(second.chainIndex).toBe(first.chainIndex + 1);
+		expect(state.round!.hash).toBeNull();
+		expect(state.round!.previousHash).toBe(first.hash);
+		expect(state.recentRounds[0]).toMatchObject({ id: first.id, hash: first.hash });
+
+		crash.startCrashRound(second.startsAt);
+		crash.settleCrashRound(second.startsAt + getCrashDuration(second.crashPoint));
+	});
+});
+
+describe('Crash rounds', () => {
+	it('should take bets only during the countdown', async () => {
+		const { userId } = await createTestUser(db);
+		const round = openRound(2);
+
+		const { newBalance } = crash.placeCrashBet(userId, { amount: 1000, autoCashout: null }, clock);
+		expect(newBalance).toBe(99_000);
+		expect(() => crash.placeCrashBet(userId, { amount: 1000, autoCashout: null }, clock)).toThrow(
+			'You already have a bet in this round'
+		);
+
+		crash.startCrashRound(round.startsAt);
+
+		const { userId: lateUserId } = await createTestUser(db);
+		expect(() =>
+			crash.placeCrashBet(lateUserId, { amount: 1000, autoCashout: null }, round.startsAt)
+		).toThrow('Betting is closed for this round');
+
+		crash.settleCrashRound(round.startsAt + getCrashDuration(2));
+	});
+
+	it('should pay a manual cashout at the current multiplier and reject one after the crash', async () => {
+		const { userId } = await createTestUser(db);
+		const { userId: lateUserId } = await createTestUser(db);
+		const round = openRound(3);
+
+		crash.placeCrashBet(userId, { amount: 1000, autoCashout: null }, clock);
+		crash.placeCrashBet(lateUserId, { amount: 1000, autoCashout: null }, clock);
+		crash.startCrashRound(round.startsAt);
+
+		const { bet, newBalance } = crash.cashOutCrashBet(userId, round.startsAt + timeToReach(1.5));
+		expect(bet.cashoutMultiplier).toBe(1.5);
+		expect(newBalance).toBe(100_500);
+		expect(() => crash.cashOutCrashBet(userId, round.startsAt + timeToReach(2))).toThrow(
+			'You have already cashed out'
+		);
+		expect(() => crash.cashOutCrashBet(lateUserId, round.startsAt + getCrashDuration(3))).toThrow(
+			'The round has already crashed'
+		);
+
+		crash.settleCrashRound(round.startsAt + getCrashDuration(3));
+
+		const [winning] = getBets(userId);
+		const [losing] = getBets(lateUserId);
+		expect(winning).toMatchObject({ gameType: 'crash', win: true, payout: 1500, result: 3 });
+		expect(losing).toMatchObject({ gameType: 'crash', win: false, payout: 0, result: 3 });
+		expect(getBalance(lateUserId)).toBe(99_000);
+	});
+
+	it('should cash out auto targets at the target, including at the crash point', async () => {
+		const { userId: early } = await createTestUser(db);
+		const { userId: exact } = await createTestUser(db);
+		const { userId: tooHigh } = await createTestUser(db);
+		const round = openRound(2);
+
+		crash.placeCrashBet(early, { amount: 1000, autoCashout: 1.2 }, clock);
+		crash.placeCrashBet(exact, { amount: 1000, autoCashout: 2 }, clock);
+		crash.placeCrashBet(tooHigh, { amount: 1000, autoCashout: 2.01 }, clock);
+		crash.startCrashRound(round.startsAt);
+
+		// A late tick still pays the target, not the multiplier it was processed at
+		crash.tickCrashRound(round.startsAt + timeToReach(1.5));
+		expect(getBalance(early)).toBe(100_200);
+
+		crash.settleCrashRound(round.startsAt + getCrashDuration(2));
+
+		expect(getBalance(exact)).toBe(101_000);
+		expect(getBalance(tooHigh)).toBe(99_000);
+		expect(getBets(early)[0]).toMatchObject({ win: true, multiplier: 1.2 });
+		expect(getBets(tooHigh)[0]).toMatchObject({ win: false, multiplier: 0 });
+	});
+
+	it('should refuse auto targets above the max profit and pay a cashout above it at the limit', async () => {
+		const { userId } = await createTestUser(db);
+		const house = db.select().from(table.bankroll).get()!;
+		// A max profit of 0.10
+		db.update(table.bankroll).set({ balance: 1000, maxProfitPercent: 1 }).run();
+		const round = openRound(3);
+
+		expect(() => crash.placeCrashBet(userId, { amount: 1000, autoCashout: 1.5 }, clock)).toThrow(
+			'Max profit per bet is 0.10'
+		);
+		crash.placeCrashBet(userId, { amount: 1000, autoCashout: null }, clock);
+		crash.startCrashRound(round.startsAt);
+
+		const { bet } = crash.cashOutCrashBet(userId, round.startsAt + timeToReach(1.5));
+		crash.settleCrashRound(round.startsAt + getCrashDuration(3));
+		db.update(table.bankroll).set(house).run();
+
+		expect(bet).toMatchObject({ cashoutMultiplier: 1.5, payout: 1010, payoutCap: 1010 });
+		expect(JSON.parse(getBets(userId)[0].gameData as string).payoutCap).toBe(1010);
+	});
+
+	it('should verify a settled bet against the revealed chain hash', async () => {
+		const { userId, sessionToken } = await createTestUser(db);
+		const round = openRound();
+
+		crash.placeCrashBet(userId, { amount: 100, autoCashout: null }, clock);
+		crash.startCrashRound(round.startsAt);
+		crash.settleCrashRound(round.startsAt + getCrashDuration(round.crashPoint));
+
+		const [bet] = getBets(userId);
+		const stake = db
+			.select()
+			.from(table.transaction)
+			.where(and(eq(table.transaction.userId, userId), eq(table.transaction.type, 'bet_stake')))
+			.get()!;
+		expect(stake.reference).toBe(bet.id);
+
+		const response = await verify(
+			createRequestEvent<VerifyEvent>(`/api/game/verify?betId=${bet.id}`, { sessionToken })
+		);
+		const body = await response.json();
+
+		expect(response.status).toBe(200);
+		expect(body.data.verified).toBe(true);
+		expect(body.data.calculatedResult).toBe(generateCrashPoint(round.hash, bet.clientSeed));
+		expect(body.data.details.previousHash).toBe(hashCrashChainLink(round.hash));
+	});
+});
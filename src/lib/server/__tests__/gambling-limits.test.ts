@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeAll } from 'bun:test';
+import * as table from '$lib/server/db/schema';
+import {
+	mockDatabase,
+	createTestUser,
+	createRequestEvent,
+	type TestDatabase
+} from '$lib/server/__tests__/test-utils';
+import type { Transaction } from '$lib/server/db';
+
+let db: TestDatabase;
+let ledger: typeof import('$lib/server/ledger');
+let limits: typeof import('$lib/server/gambling-limits');
+let gameRoute: typeof import('../../../routes/api/game/[game]/+server');
+let limitsRoute: typeof import('../../../routes/api/limits/+server');
+
+beforeAll(async () => {
+	db = mockDatabase();
+	ledger = await import('$lib/server/ledger');
+	limits = await import('$lib/server/gambling-limits');
+	gameRoute = await import('../../../routes/api/game/[game]/+server');
+	limitsRoute = await import('../../../routes/api/limits/+server');
+});
+
+// Route handlers are typed per route; the test events are built the same way for all of them
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type AnyEvent = any;
+
+async function createFundedUser(overrides: Partial<typeof table.user.$inferInsert> = {}) {
+	const user = await createTestUser(db, { ...overrides, balance: 0 });
+	db.transaction((tx) =>
+		ledger.postTransfer(tx as unknown as Transaction, {
+			type: 'bonus',
+			userId: user.userId,
+			amount: 100_000
+		})
+	);
+	return user;
+}
+
+function bet(sessionToken: string, game: string, body: unknown) {
+	return gameRoute.POST(
+		createRequestEvent(`/api/game/${game}`, {
+			method: 'POST',
+			body,
+			sessionToken,
+			params: { game }
+		}) as AnyEvent
+	);
+}
+
+function findLimit(statuses: ReturnType<typeof limits.getLimits>, type: string, period: string) {
+	return statuses.find((limit) => limit.type === type && limit.period === period)!;
+}
+
+describe('Gambling limits', () => {
+	it('should reject a bet that would exceed a wager limit with its error code', async () => {
+		const { userId, sessionToken } = await createFundedUser();
+		limits.setLimit(userId, { type: 'wager', period: 'daily', amount: 1_000 });
+		const diceBet = (amount: number) =>
+			bet(sessionToken, 'dice', { amount, betType: 'under', target: 50 });
+
+		expect((await diceBet(600)).status).toBe(200);
+
+		const response = await diceBet(500);
+		const body = await response.json();
+
+		expect(response.status).toBe(400);
+		expect(body).toMatchObject({
+			code: 'WAGER_LIMIT_EXCEEDED',
+			error: 'This bet would exceed your daily wager limit (4.00 left)'
+		});
+		expect((await diceBet(400)).status).toBe(200);
+		expect(findLimit(limits.getLimits(userId), 'wager', 'daily')).toMatchObject({
+			used: 1_000,
+			remaining: 0
+		});
+	});
+
+	it('should count a whole stake against a loss limit, including round games', async () => {
+		const { userId, sessionToken } = await createFundedUser();
+		limits.setLimit(userId, { type: 'loss', period: 'weekly', amount: 1_000 });
+
+		const response = await bet(sessionToken, 'mines', { amount: 1_001, mines: 3 });
+
+		expect(response.status).toBe(400);
+		expect((await response.json()).code).toBe('LOSS_LIMIT_EXCEEDED');
+		expect((await bet(sessionToken, 'mines', { amount: 1_000, mines: 3 })).status).toBe(200);
+	});
+
+	it('should lower a limit at once but raise or remove it only after 24 hours', async () => {
+		const { userId } = await createFundedUser();
+		const now = new Date('2026-03-04T12:00:00Z');
+		const later = (ms: number) => new Date(now.getTime() + ms);
+		const monthly = (statuses: ReturnType<typeof limits.getLimits>) =>
+			findLimit(statuses, 'wager', 'monthly');
+
+		expect(
+			monthly(limits.setLimit(userId, { type: 'wager', period: 'monthly', amount: 5_000 }, now))
+		).toMatchObject({ amount: 5_000, pending: null });
+		expect(
+			monthly(limits.setLimit(userId, { type: 'wager', period: 'monthly', amount: 2_000 }, now))
+		).toMatchObject({ amount: 2_000, pending: null });
+
+		const raised = monthly(
+			limits.setLimit(userId, { type: 'wager', period: 'monthly', amount: 8_000 }, now)
+		);
+		expect(raised).toMatchObject({
+			amount: 2_000,
+			pending: { amount: 8_000, at: later(limits.LIMIT_INCREASE_DELAY_MS) }
+		});
+		expect(
+			monthly(limits.getLimits(userId, later(limits.LIMIT_INCREASE_DELAY_MS - 1))).amount
+		).toBe(2_000);
+		expect(monthly(limits.getLimits(userId, later(limits.LIMIT_INCREASE_DELAY_MS)))).toMatchObject({
+			amount: 8_000,
+			pending: null
+		});
+
+		const removalAt = later(limits.LIMIT_INCREASE_DELAY_MS);
+		limits.setLimit(userId, { type: 'wager', period: 'monthly', amount: null }, removalAt);
+		expect(monthly(limits.getLimits(userId, removalAt)).amount).toBe(8_000);
+		expect(
+			monthly(limits.getLimits(userId, later(2 * limits.LIMIT_INCREASE_DELAY_MS)))
+		).toMatchObject({ amount: null, remaining: null, pending: null });
+	});
+
+	it('should use UTC calendar periods with weeks starting on Monday', () => {
+		const sunday = new Date('2026-03-08T23:30:00Z');
+
+		expect(limits.getPeriodStart('daily', sunday)).toEqual(new Date('2026-03-08T00:00:00Z'));
+		expect(limits.getPeriodStart('weekly', sunday)).toEqual(new Date('2026-03-02T00:00:00Z'));
+		expect(limits.getPeriodStart('monthly', sunday)).toEqual(new Date('2026-03-01T00:00:00Z'));
+	});
+
+	it('should let users read and set their own limits', async () => {
+		const { sessionToken } = await createFundedUser();
+		const put = (body: unknown) =>
+			limitsRoute.PUT(
+				createRequestEvent('/api/limits', { method: 'PUT', body, sessionToken }) as AnyEvent
+			);
+
+		expect((await limitsRoute.GET(createRequestEvent('/api/limits') as AnyEvent)).status).toBe(401);
+		expect((await put({ type: 'wager', period: 'yearly', amount: 100 })).status).toBe(400);
+		expect((await put({ type: 'loss', period: 'daily', amount: 0 })).status).toBe(400);
+
+		const updated = await (await put({ type: 'loss', period: 'daily', amount: 2_500 })).json();
+		expect(findLimit(updated.result.limits, 'loss', 'daily')).toMatchObject({
+			amount: 2_500,
+			remaining: 2_500
+		});
+
+		const response = await limitsRoute.GET(
+			createRequestEvent('/api/limits', { sessionToken }) as AnyEvent
+		);
+		const body = await response.json();
+		expect(body.data.limits).toHaveLength(6);
+		expect(findLimit(body.data.limits, 'wager', 'weekly')).toMatchObject({
+			amount: null,
+			used: 0,
+			remaining: null
+		});
+	});
+});
@@ -0,0 +1,176 @@
+import { describe, it, expect, beforeAll } from 'bun:test';
+import { eq } from 'drizzle-orm';
+import * as table from '$lib/server/db/schema';
+import {
+	mockDatabase,
+	createTestUser,
+	createRequestEvent,
+	type TestDatabase
+} from '$lib/server/__tests__/test-utils';
+import type { Transaction } from '$lib/server/db';
+import type { GameDefinition } from '$lib/server/games';
+import type { GameConfig } from '$lib/server/game-config';
+import type { AuditActor } from '$lib/server/audit';
+
+let db: TestDatabase;
+let ledger: typeof import('$lib/server/ledger');
+let gameConfig: typeof import('$lib/server/game-config');
+let gameHandler: typeof import('$lib/server/game-handler');
+let games: typeof import('$lib/server/games');
+let configRoute: typeof import('../../../routes/api/game/[game]/config/+server');
+let adminGameRoute: typeof import('../../../routes/api/admin/games/[game]/+server');
+let actor: AuditActor;
+
+beforeAll(async () => {
+	db = mockDatabase();
+	ledger = await import('$lib/server/ledger');
+	gameConfig = await import('$lib/server/game-config');
+	gameHandler = await import('$lib/server/game-handler');
+	games = await import('$lib/server/games');
+	configRoute = await import('../../../routes/api/game/[game]/config/+server');
+	adminGameRoute = await import('../../../routes/api/admin/games/[game]/+server');
+
+	const { userId } = await createTestUser(db, { isAdmin: true, balance: 0 });
+	actor = { id: userId, ipAddress: null };
+});
+
+// Route handlers are typed per route; the test events are built the same way for all of them
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type AnyEvent = any;
+
+function inTransaction<T>(fn: (tx: Transaction) => T): T {
+	return db.transaction((tx) => fn(tx as unknown as Transaction));
+}
+
+/**
+ * A user whose starting balance came in through the ledger, as it does on registration
+ */
+async function createFundedUser(overrides: Partial<typeof table.user.$inferInsert> = {}) {
+	const user = await createTestUser(db, { ...overrides, balance: 0 });
+	inTransaction((tx) =>
+		ledger.postTransfer(tx, { type: 'bonus', userId: user.userId, amount: 100_000 })
+	);
+	return user;
+}
+
+function getBalance(userId: string): number {
+	return db.select().from(table.user).where(eq(table.user.id, userId)).get()!.balance;
+}
+
+function saveConfig(gameType: string, changes: Partial<GameConfig>) {
+	const current = inTransaction((tx) => gameConfig.getGameConfig(tx, gameType));
+	return gameConfig.updateGameConfig(gameType, { ...current, ...changes }, actor);
+}
+
+describe('Game configuration', () => {
+	it('should fall back to the defaults until a game is configured', async () => {
+		const configs = inTransaction((tx) => gameConfig.listGameConfigs(tx));
+		const dice = configs.find((entry) => entry.type === 'dice')!;
+		const plinko = configs.find((entry) => entry.type === 'plinko')!;
+
+		expect(dice.config).toEqual({ houseEdge: 1, ...gameConfig.DEFAULT_GAME_LIMITS, enabled: true });
+		expect(plinko.config.houseEdge).toBeNull();
+
+		const response = await configRoute.GET(
+			createRequestEvent('/api/game/limbo/config', { params: { game: 'limbo' } }) as AnyEvent
+		);
+		expect(await response.json()).toEqual({
+			success: true,
+			data: { ...dice.config, maxProfit: 1_000_000 }
+		});
+
+		const missing = await configRoute.GET(
+			createRequestEvent('/api/game/nope/config', { params: { game: 'nope' } }) as AnyEvent
+		);
+		expect(missing.status).toBe(404);
+	});
+
+	it('should only accept a house edge for games priced from one', () => {
+		expect(() => saveConfig('plinko', { houseEdge: 2 })).toThrow(
+			'Plinko has a fixed paytable and no house edge'
+		);
+		expect(() => saveConfig('dice', { houseEdge: null })).toThrow('Dice needs a house edge');
+	});
+
+	it('should price and record bets at the configured house edge', async () => {
+		const { userId } = await createFundedUser();
+		const dice = games.getGame('dice') as GameDefinition;
+
+		saveConfig('dice', { houseEdge: 5 });
+		const result = gameHandler.placeGameBet(userId, dice, {
+			amount: 100,
+			betType: 'under',
+			target: 50
+		});
+		const bet = db.select().from(table.bet).where(eq(table.bet.id, result.betId)).get()!;
+
+		expect(result.multiplier).toBeCloseTo(1.9);
+		expect(JSON.parse(bet.gameData as string).houseEdge).toBe(5);
+
+		saveConfig('dice', { houseEdge: 1 });
+	});
+
+	it('should reject bets outside the limits or on a disabled game', async () => {
+		const { userId } = await createFundedUser();
+		const limbo = games.getGame('limbo') as GameDefinition;
+		const bet = (amount: number) => () =>
+			gameHandler.placeGameBet(userId, limbo, { amount, target: 2 });
+
+		saveConfig('limbo', { minBet: 100, maxBet: 1000 });
+		expect(bet(99)).toThrow('Minimum bet is 1.00');
+		expect(bet(1001)).toThrow('Maximum bet is 10.00');
+
+		saveConfig('limbo', { enabled: false });
+		expect(bet(500)).toThrow('Limbo is currently disabled');
+		expect(getBalance(userId)).toBe(100_000);
+
+		saveConfig('limbo', { enabled: true });
+		expect(bet(500)).not.toThrow();
+	});
+
+	it('should pay winnings above the cap at the cap and record it', async () => {
+		const { userId } = await createFundedUser();
+		const dice = games.getGame('dice') as GameDefinition;
+		saveConfig('dice', { maxPayout: 1500 });
+
+		let result;
+		do {
+			result = gameHandler.placeGameBet(userId, dice, {
+				amount: 1000,
+				betType: 'under',
+				target: 50
+			});
+		} while (!result.win);
+		const bet = db.select().from(table.bet).where(eq(table.bet.id, result.betId)).get()!;
+
+		expect(result.payout).toBe(1500);
+		expect(bet.payout).toBe(1500);
+		expect(JSON.parse(bet.gameData as string).payoutCap).toBe(1500);
+		expect(ledger.reconcileLedger()).toEqual({ discrepancies: [], unbalancedTransfers: [] });
+
+		saveConfig('dice', { maxPayout: gameConfig.DEFAULT_GAME_LIMITS.maxPayout });
+	});
+
+	it('should let only admins change settings, and only to valid ones', async () => {
+		const moderator = await createFundedUser({ isAdmin: true });
+		const player = await createFundedUser();
+		const update = (sessionToken: string, body: unknown) =>
+			adminGameRoute.PUT(
+				createRequestEvent('/api/admin/games/mines', {
+					method: 'PUT',
+					body,
+					sessionToken,
+					params: { game: 'mines' }
+				}) as AnyEvent
+			);
+		const valid = { houseEdge: 2, minBet: 10, maxBet: 5000, maxPayout: 50_000, enabled: true };
+
+		expect((await update(player.sessionToken, valid)).status).toBe(403);
+		expect((await update(moderator.sessionToken, { ...valid, maxBet: 5 })).status).toBe(400);
+		expect((await update(moderator.sessionToken, { ...valid, houseEdge: 60 })).status).toBe(400);
+
+		const response = await update(moderator.sessionToken, valid);
+		expect(await response.json()).toEqual({ success: true, result: valid });
+		expect(inTransaction((tx) => gameConfig.getGameConfig(tx, 'mines'))).toEqual(valid);
+	});
+});
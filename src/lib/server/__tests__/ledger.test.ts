@@ -0,0 +1,191 @@
+import { describe, it, expect, beforeAll } from 'bun:test';
+import { asc, eq } from 'drizzle-orm';
+import * as table from '$lib/server/db/schema';
+import {
+	mockDatabase,
+	createTestUser,
+	createRequestEvent,
+	type TestDatabase
+} from '$lib/server/__tests__/test-utils';
+import type { Transaction } from '$lib/server/db';
+import type { GameDefinition } from '$lib/server/games';
+
+let db: TestDatabase;
+let ledger: typeof import('$lib/server/ledger');
+let gameHandler: typeof import('$lib/server/game-handler');
+let games: typeof import('$lib/server/games');
+let gameRoute: typeof import('../../../routes/api/game/[game]/+server');
+let actionRoute: typeof import('../../../routes/api/game/[game]/action/+server');
+let transactionsRoute: typeof import('../../../routes/api/wallet/transactions/+server');
+let ledgerRoute: typeof import('../../../routes/api/admin/ledger/+server');
+
+beforeAll(async () => {
+	db = mockDatabase();
+	ledger = await import('$lib/server/ledger');
+	gameHandler = await import('$lib/server/game-handler');
+	games = await import('$lib/server/games');
+	gameRoute = await import('../../../routes/api/game/[game]/+server');
+	actionRoute = await import('../../../routes/api/game/[game]/action/+server');
+	transactionsRoute = await import('../../../routes/api/wallet/transactions/+server');
+	ledgerRoute = await import('../../../routes/api/admin/ledger/+server');
+});
+
+// Route handlers are typed per route; the test events are built the same way for all of them
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type AnyEvent = any;
+
+/**
+ * Run `fn` in a transaction on the test database, which stands in for the server's
+ */
+function inTransaction<T>(fn: (tx: Transaction) => T): T {
+	return db.transaction((tx) => fn(tx as unknown as Transaction));
+}
+
+/**
+ * A user whose starting balance came in through the ledger, as it does on registration
+ */
+async function createFundedUser(amount = 100_000) {
+	const user = await createTestUser(db, { balance: 0 });
+	inTransaction((tx) => ledger.postTransfer(tx, { type: 'bonus', userId: user.userId, amount }));
+	return user;
+}
+
+function getBalance(userId: string): number {
+	return db.select().from(table.user).where(eq(table.user.id, userId)).get()!.balance;
+}
+
+function getTransfers(reference: string) {
+	return db
+		.select()
+		.from(table.transaction)
+		.where(eq(table.transaction.reference, reference))
+		.orderBy(asc(table.transaction.account))
+		.all();
+}
+
+describe('Wallet ledger', () => {
+	it('should write balanced stake and payout transfers for instant bets', async () => {
+		const { userId } = await createFundedUser();
+		const dice = games.getGame('dice') as GameDefinition;
+
+		const results = Array.from({ length: 10 }, () =>
+			gameHandler.placeGameBet(userId, dice, { amount: 500, betType: 'under', target: 50 })
+		);
+
+		for (const result of results) {
+			const entries = getTransfers(result.betId);
+			const stake = entries.filter((entry) => entry.type === 'bet_stake');
+			const payout = entries.filter((entry) => entry.type === 'bet_payout');
+
+			expect(stake.map((entry) => [entry.account, entry.amount])).toEqual([
+				['house', 500],
+				['wallet', -500]
+			]);
+			expect(payout.map((entry) => entry.amount)).toEqual(
+				result.win ? [-result.payout, result.payout] : []
+			);
+			expect(entries.reduce((sum, entry) => sum + entry.amount, 0)).toBe(0);
+		}
+
+		const last = results[results.length - 1];
+		expect(getBalance(userId)).toBe(last.newBalance);
+		expect(ledger.reconcileLedger()).toEqual({ discrepancies: [], unbalancedTransfers: [] });
+	});
+
+	it('should record the stake and payout of a round game', async () => {
+		const { userId, sessionToken } = await createFundedUser();
+		const call = async (
+			handler: (event: AnyEvent) => Response | Promise<Response>,
+			url: string,
+			body: unknown
+		) =>
+			(
+				await handler(
+					createRequestEvent(url, { method: 'POST', body, sessionToken, params: { game: 'mines' } })
+				)
+			).json();
+
+		const start = await call(gameRoute.POST, '/api/game/mines', { amount: 1000, mines: 3 });
+		const mines = db.select().from(table.gameRound).where(eq(table.gameRound.userId, userId)).get()!
+			.state.mines as number[];
+		const safeTile = [...Array(25).keys()].find((tile) => !mines.includes(tile))!;
+		await call(actionRoute.POST, '/api/game/mines/action', { action: 'reveal', tile: safeTile });
+		const cashout = await call(actionRoute.POST, '/api/game/mines/action', { action: 'cashout' });
+
+		// The stake is taken before the bet exists, but references the id the bet settles with
+		const { betId } = cashout.result.settlement;
+		const walletEntries = getTransfers(betId).filter((entry) => entry.account === 'wallet');
+		expect(walletEntries.map((entry) => entry.type).sort()).toEqual(['bet_payout', 'bet_stake']);
+		expect(start.result.round.id).toBe(betId);
+		expect(getBalance(userId)).toBe(cashout.result.newBalance);
+		expect(ledger.reconcileLedger().discrepancies).toEqual([]);
+	});
+
+	it('should report balances changed outside the ledger', async () => {
+		const { userId } = await createFundedUser();
+		db.update(table.user).set({ balance: 100_001 }).where(eq(table.user.id, userId)).run();
+
+		expect(ledger.reconcileLedger().discrepancies).toEqual([
+			{ userId, balance: 100_001, ledgerBalance: 100_000 }
+		]);
+
+		db.update(table.user).set({ balance: 100_000 }).where(eq(table.user.id, userId)).run();
+		expect(ledger.reconcileLedger().discrepancies).toEqual([]);
+	});
+
+	it('should store each reconciliation and show admins the latest', async () => {
+		const admin = await createTestUser(db, { isAdmin: true, balance: 0 });
+		const { userId, sessionToken } = await createFundedUser();
+		const latest = async (token: string) =>
+			ledgerRoute.GET(createRequestEvent('/api/admin/ledger', { sessionToken: token }) as AnyEvent);
+
+		db.update(table.user).set({ balance: 100_001 }).where(eq(table.user.id, userId)).run();
+		const reconcile = await ledgerRoute.POST(
+			createRequestEvent('/api/admin/ledger', {
+				method: 'POST',
+				sessionToken: admin.sessionToken
+			}) as AnyEvent
+		);
+		const { result } = await reconcile.json();
+
+		expect(result.discrepancies).toEqual([{ userId, balance: 100_001, ledgerBalance: 100_000 }]);
+		expect((await (await latest(admin.sessionToken)).json()).data.id).toBe(result.id);
+		expect((await latest(sessionToken)).status).toBe(403);
+
+		db.update(table.user).set({ balance: 100_000 }).where(eq(table.user.id, userId)).run();
+		const run = ledger.recordReconciliation();
+
+		expect(run.discrepancies).toEqual([]);
+		expect(ledger.getLatestReconciliation()).toEqual(run);
+	});
+
+	it('should page through a wallet newest first', async () => {
+		const { userId, sessionToken } = await createFundedUser();
+		const dice = games.getGame('dice') as GameDefinition;
+		for (let i = 0; i < 4; i++) {
+			gameHandler.placeGameBet(userId, dice, { amount: 100, betType: 'over', target: 50 });
+		}
+
+		const fetchPage = async (query: string) => {
+			const response = await transactionsRoute.GET(
+				createRequestEvent(`/api/wallet/transactions?${query}`, { sessionToken }) as AnyEvent
+			);
+			return (await response.json()).data;
+		};
+
+		const first = await fetchPage('page=1&limit=3');
+		const all = await fetchPage('limit=50');
+		const stakes = await fetchPage('type=bet_stake');
+
+		expect(first.transactions).toHaveLength(3);
+		expect(first.total).toBe(all.total);
+		expect(all.transactions.at(-1)).toMatchObject({ type: 'bonus', amount: 100_000 });
+		expect(all.transactions[0].balanceAfter).toBe(getBalance(userId));
+		expect(stakes.total).toBe(4);
+
+		const anonymous = await transactionsRoute.GET(
+			createRequestEvent('/api/wallet/transactions') as AnyEvent
+		);
+		expect(anonymous.status).toBe(401);
+	});
+});
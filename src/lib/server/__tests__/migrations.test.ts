@@ -0,0 +1,239 @@
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test';
+import { cpSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Database } from 'bun:sqlite';
+import { drizzle } from 'drizzle-orm/bun-sqlite';
+import { migrate } from 'drizzle-orm/bun-sqlite/migrator';
+
+interface JournalEntry {
+	idx: number;
+	tag: string;
+}
+
+const journal: { entries: JournalEntry[] } = JSON.parse(
+	readFileSync('./drizzle/meta/_journal.json', 'utf8')
+);
+
+/**
+ * A copy of the migrations folder that stops after migration `idx`
+ */
+function migrationsThrough(root: string, idx: number): string {
+	const folder = join(root, String(idx));
+	cpSync('./drizzle', folder, { recursive: true });
+	writeFileSync(
+		join(folder, 'meta/_journal.json'),
+		JSON.stringify({ ...journal, entries: journal.entries.filter((entry) => entry.idx <= idx) })
+	);
+	return folder;
+}
+
+/**
+ * Run drizzle's migrator the way production does: in one transaction, with foreign keys enforced.
+ * better-sqlite3 does not load under Bun, but both drivers share drizzle's SQLite migrator.
+ */
+function runMigrations(client: Database, folder: string): void {
+	migrate(drizzle(client), { migrationsFolder: folder });
+}
+
+function getRow(client: Database, table: string, id: string) {
+	return client.query(`SELECT * FROM \`${table}\` WHERE id = ?`).get(id) as Record<string, unknown>;
+}
+
+function getJson(client: Database, table: string, column: string, id: string) {
+	return JSON.parse(getRow(client, table, id)[column] as string);
+}
+
+describe('0008 money in minor units', () => {
+	const root = mkdtempSync(join(tmpdir(), 'migrations-'));
+	let client: Database;
+
+	afterAll(() => rmSync(root, { recursive: true, force: true }));
+
+	beforeAll(() => {
+		client = new Database(':memory:');
+		client.run('PRAGMA foreign_keys=ON');
+		runMigrations(client, migrationsThrough(root, 7));
+		const now = Date.now();
+
+		// Amounts were floats in major units, some carrying fractions of a cent
+		client.run(
+			`INSERT INTO user (id, username, password_hash, balance, is_admin) VALUES ('player', 'player', 'hash', 1.15, 0)`
+		);
+		client.run(`INSERT INTO session (id, user_id, expires_at) VALUES ('session', 'player', ?1)`, [
+			now
+		]);
+		client.run(
+			`INSERT INTO bet (id, user_id, game_type, amount, multiplier, win, payout, server_seed, server_seed_hash, client_seed, nonce, game_data, result, created_at) VALUES
+			('dice', 'player', 'dice', 12.34, 1.98, 1, 24.4332, 's', 'h', 'c', 1, '{"target":50}', 42, ?1),
+			('blackjack', 'player', 'blackjack', 31.506, 0, 0, 0, 's', 'h', 'c', 2, ?2, 0, ?1),
+			('roulette', 'player', 'roulette', 1.5001, 36, 1, 36.003, 's', 'h', 'c', 3, ?3, 17, ?1)`,
+			[
+				now,
+				JSON.stringify({
+					stake: 10.5,
+					insurance: 5.25,
+					hands: [
+						{ stake: 10.5, cards: [1, 2] },
+						{ stake: 21.006, cards: [3, 4] }
+					]
+				}),
+				JSON.stringify({
+					pocket: 17,
+					totalPayout: 36.003,
+					placements: [
+						{ type: 'straight', numbers: [17], amount: 1.0001, payout: 36.003 },
+						{ type: 'red', amount: 0.5, payout: 0 }
+					]
+				})
+			]
+		);
+		client.run(
+			`INSERT INTO seed_pair (id, user_id, server_seed, server_seed_hash, client_seed, nonce, status, created_at) VALUES ('seeds', 'player', 's', 'h', 'c', 5, 'active', ?1)`,
+			[now]
+		);
+		client.run(
+			`INSERT INTO game_round (id, user_id, game_type, seed_pair_id, nonce, amount, state, status, created_at, updated_at) VALUES
+			('blackjack', 'player', 'blackjack', 'seeds', 4, 2.5, ?2, 'active', ?1, ?1),
+			('mines', 'player', 'mines', 'seeds', 5, 0.994, '{"mines":[1,2,3],"revealed":[]}', 'active', ?1, ?1)`,
+			[
+				now,
+				JSON.stringify({
+					stake: 2.5,
+					insurance: 0,
+					hands: [{ stake: 2.5, cards: [5, 6] }],
+					phase: 'player'
+				})
+			]
+		);
+		client.run(
+			`INSERT INTO auto_bet_session (id, user_id, game_type, request, settings, base_amount, next_amount, status, wagered, profit, created_at, updated_at) VALUES
+			('dice', 'player', 'dice', '{"betType":"under","target":50}', ?2, 1.25, 2.5, 'running', 100.1, -3.333, ?1, ?1),
+			('roulette', 'player', 'roulette', ?3, '{"stopOnProfit":null,"stopOnLoss":null}', 1.254, 1.254, 'running', 0, 0, ?1, ?1)`,
+			[
+				now,
+				JSON.stringify({ stopOnProfit: 10.257, stopOnLoss: null, onWin: { action: 'reset' } }),
+				JSON.stringify({
+					chips: [
+						{ type: 'red', amount: 0.25 },
+						{ type: 'straight', numbers: [7], amount: 1.004 }
+					]
+				})
+			]
+		);
+		client.run(
+			`INSERT INTO \`transaction\` (id, transfer_id, type, account, user_id, amount, balance_after, reference, created_at) VALUES
+			('wallet', 'transfer', 'bet_stake', 'wallet', 'player', -12.34, 987.76, 'dice', ?1),
+			('house', 'transfer', 'bet_stake', 'house', NULL, 12.34, NULL, 'dice', ?1)`,
+			[now]
+		);
+		client.run(
+			`INSERT INTO crash_chain (id, seed, terminating_hash, salt, length, created_at) VALUES ('chain', 's', 'h', 'salt', 10, ?1)`,
+			[now]
+		);
+		client.run(
+			`INSERT INTO crash_round (id, chain_id, chain_index, hash, crash_point, status, starts_at, created_at) VALUES ('round', 'chain', 1, 'h', 2.5, 'crashed', ?1, ?1)`,
+			[now]
+		);
+		client.run(
+			`INSERT INTO crash_bet (id, round_id, user_id, amount, auto_cashout, cashout_multiplier, payout, created_at) VALUES
+			('crash', 'round', 'player', 3.333, 2.1, 2.1, 6.999, ?1)`,
+			[now]
+		);
+
+		runMigrations(client, migrationsThrough(root, 8));
+	});
+
+	it('should convert amount columns to whole cents, rounding rather than truncating', () => {
+		// 1.15 * 100 is 114.99999999999999 as a float, so a bare cast would lose a cent
+		expect(getRow(client, 'user', 'player').balance).toBe(115);
+		expect(getRow(client, 'bet', 'dice')).toMatchObject({ amount: 1_234, payout: 2_443 });
+		expect(getRow(client, 'game_round', 'mines').amount).toBe(99);
+		expect(getRow(client, 'auto_bet_session', 'dice')).toMatchObject({
+			base_amount: 125,
+			next_amount: 250,
+			wagered: 10_010,
+			profit: -333
+		});
+		expect(getRow(client, 'transaction', 'wallet')).toMatchObject({
+			amount: -1_234,
+			balance_after: 98_776
+		});
+		expect(getRow(client, 'transaction', 'house')).toMatchObject({
+			amount: 1_234,
+			balance_after: null
+		});
+		expect(getRow(client, 'crash_bet', 'crash')).toMatchObject({
+			amount: 333,
+			payout: 700,
+			auto_cashout: 2.1
+		});
+	});
+
+	it('should keep the rows that reference rebuilt tables', () => {
+		expect(getRow(client, 'session', 'session').user_id).toBe('player');
+		expect(getRow(client, 'crash_bet', 'crash').round_id).toBe('round');
+		expect(client.query('PRAGMA foreign_key_check').all()).toEqual([]);
+	});
+
+	it('should store the converted amounts as integers', () => {
+		const types = client
+			.query(
+				`SELECT typeof(balance) AS balance, (SELECT typeof(amount) FROM bet WHERE id = 'dice') AS bet FROM user`
+			)
+			.get();
+
+		expect(types).toEqual({ balance: 'integer', bet: 'integer' });
+	});
+
+	it('should convert blackjack stakes in rounds and settled bets', () => {
+		expect(getJson(client, 'game_round', 'state', 'blackjack')).toEqual({
+			stake: 250,
+			insurance: 0,
+			hands: [{ stake: 250, cards: [5, 6] }],
+			phase: 'player'
+		});
+		expect(getJson(client, 'bet', 'game_data', 'blackjack')).toEqual({
+			stake: 1_050,
+			insurance: 525,
+			hands: [
+				{ stake: 1_050, cards: [1, 2] },
+				{ stake: 2_101, cards: [3, 4] }
+			]
+		});
+	});
+
+	it('should convert roulette placements and leave other games untouched', () => {
+		expect(getJson(client, 'bet', 'game_data', 'roulette')).toEqual({
+			pocket: 17,
+			totalPayout: 3_600,
+			placements: [
+				{ type: 'straight', numbers: [17], amount: 100, payout: 3_600 },
+				{ type: 'red', amount: 50, payout: 0 }
+			]
+		});
+		expect(getJson(client, 'bet', 'game_data', 'dice')).toEqual({ target: 50 });
+		expect(getJson(client, 'game_round', 'state', 'mines')).toEqual({
+			mines: [1, 2, 3],
+			revealed: []
+		});
+	});
+
+	it('should convert auto-bet stop limits and roulette chips', () => {
+		expect(getJson(client, 'auto_bet_session', 'settings', 'dice')).toEqual({
+			stopOnProfit: 1_026,
+			stopOnLoss: null,
+			onWin: { action: 'reset' }
+		});
+		expect(getJson(client, 'auto_bet_session', 'request', 'roulette')).toEqual({
+			chips: [
+				{ type: 'red', amount: 25 },
+				{ type: 'straight', numbers: [7], amount: 100 }
+			]
+		});
+		expect(getJson(client, 'auto_bet_session', 'request', 'dice')).toEqual({
+			betType: 'under',
+			target: 50
+		});
+	});
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'bun:test';
+import { createHmac } from 'crypto';
+import {
+	generateGameBytes,
+	generateGameFloats,
+	generateKenoDraw,
+	generateLimboResult,
+	generatePlinkoPath,
+	generateTowerRows,
+	LIMBO_MAX_TARGET
+} from '$lib/server/provably-fair';
+import { TOWER_DIFFICULTIES, TOWER_LAYOUTS, TOWER_ROWS } from '$lib/utils/tower';
+
+const serverSeed = 'a'.repeat(64);
+const clientSeed = 'client-seed';
+
+describe('Provably fair byte stream', () => {
+	it('should start with the HMAC block used by generateGameResult', () => {
+		const expected = createHmac('sha256', serverSeed).update(`${clientSeed}-1`).digest();
+
+		expect(generateGameBytes(serverSeed, clientSeed, 1, 32)).toEqual([...expected]);
+	});
+
+	it('should continue into further rounds past 32 bytes', () => {
+		const bytes = generateGameBytes(serverSeed, clientSeed, 1, 40);
+		const nextBlock = createHmac('sha256', serverSeed).update(`${clientSeed}-1-1`).digest();
+
+		expect(bytes).toHaveLength(40);
+		expect(bytes.slice(32)).toEqual([...nextBlock.subarray(0, 8)]);
+	});
+
+	it('should produce floats in [0, 1)', () => {
+		const floats = generateGameFloats(serverSeed, clientSeed, 7, 50);
+
+		expect(floats).toHaveLength(50);
+		for (const float of floats) {
+			expect(float).toBeGreaterThanOrEqual(0);
+			expect(float).toBeLessThan(1);
+		}
+	});
+});
+
+describe('Limbo result', () => {
+	it('should reach 2x about 49.5% of the time', () => {
+		const rounds = 20000;
+		let hits = 0;
+
+		for (let nonce = 1; nonce <= rounds; nonce++) {
+			const result = generateLimboResult(serverSeed, clientSeed, nonce);
+			expect(result).toBeGreaterThanOrEqual(1);
+			expect(result).toBeLessThanOrEqual(LIMBO_MAX_TARGET);
+			if (result >= 2) hits++;
+		}
+
+		expect(hits / rounds).toBeCloseTo(0.495, 1);
+	});
+});
+
+describe('Plinko path', () => {
+	it('should take one bounce per row and land on the number of right bounces', () => {
+		for (let nonce = 1; nonce <= 100; nonce++) {
+			const { path, bucket } = generatePlinkoPath(serverSeed, clientSeed, nonce, 16);
+
+			expect(path).toHaveLength(16);
+			expect(bucket).toBe(path.filter((direction) => direction === 1).length);
+		}
+	});
+});
+
+describe('Keno draw', () => {
+	it('should draw 10 distinct numbers by taking each float from what is left', () => {
+		const drawn = generateKenoDraw(serverSeed, clientSeed, 1);
+		const remaining = Array.from({ length: 40 }, (_, index) => index + 1);
+		const expected = generateGameFloats(serverSeed, clientSeed, 1, 10).map(
+			(float) => remaining.splice(Math.floor(float * remaining.length), 1)[0]
+		);
+
+		expect(drawn).toEqual(expected);
+		expect(new Set(drawn).size).toBe(10);
+		expect(drawn.every((number) => number >= 1 && number <= 40)).toBe(true);
+	});
+});
+
+describe('Dragon Tower rows', () => {
+	it('should commit distinct safe tiles for every row from the float stream', () => {
+		for (const difficulty of TOWER_DIFFICULTIES) {
+			const { tiles, safe } = TOWER_LAYOUTS[difficulty];
+			const rows = generateTowerRows(serverSeed, clientSeed, 1, difficulty);
+
+			expect(rows).toHaveLength(TOWER_ROWS);
+			for (const row of rows) {
+				expect(new Set(row).size).toBe(safe);
+				expect(row.every((tile) => tile >= 0 && tile < tiles)).toBe(true);
+			}
+		}
+	});
+
+	it('should take one float per row on single-safe difficulties', () => {
+		const rows = generateTowerRows(serverSeed, clientSeed, 1, 'master');
+		const floats = generateGameFloats(serverSeed, clientSeed, 1, TOWER_ROWS);
+
+		expect(rows).toEqual(floats.map((float) => [Math.floor(float * 4)]));
+	});
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'bun:test';
+import {
+	SIMULATION_CONFIGS,
+	listSimulatedGames,
+	simulate,
+	type SimulationConfig
+} from '$lib/server/simulator';
+
+const ADVERTISED_RTP = 0.99;
+const ROUNDS = 400_000;
+
+// Allowed distance from the advertised RTP, in standard errors of the simulated RTP
+const TOLERANCE = 4;
+
+describe('RTP simulator', () => {
+	it.each(
+		SIMULATION_CONFIGS.filter((config) => config.game === 'dice' || config.game === 'flip').map(
+			(config) => [`${config.game} ${config.label}`, config] as const
+		)
+	)(
+		'should return 99%% on %s',
+		(_: string, config: SimulationConfig) => {
+			const report = simulate(config, { rounds: ROUNDS, seed: 'rtp-check' });
+
+			expect(report.rounds).toBe(ROUNDS);
+			expect(Math.abs(report.rtp - ADVERTISED_RTP)).toBeLessThan(TOLERANCE * report.standardError);
+		},
+		30_000
+	);
+
+	it('should report the hit rate and top multiplier of a bet', () => {
+		const report = simulate(
+			{ game: 'dice', label: 'under 25', request: { amount: 200, betType: 'under', target: 25 } },
+			{ rounds: 20_000, seed: 'report' }
+		);
+
+		expect(report.maxMultiplier).toBeCloseTo(3.96, 10);
+		expect(report.hitRate).toBeCloseTo(0.25, 1);
+		expect(report.variance).toBeGreaterThan(0);
+	});
+
+	it('should repeat a run from the same seed', () => {
+		const config = SIMULATION_CONFIGS.find((config) => config.game === 'limbo')!;
+
+		expect(simulate(config, { rounds: 1000, seed: 'again' })).toEqual(
+			simulate(config, { rounds: 1000, seed: 'again' })
+		);
+	});
+
+	it('should cover every configured game and reject bets the game would refuse', () => {
+		const configured = new Set(SIMULATION_CONFIGS.map((config) => config.game));
+
+		expect([...configured].sort()).toEqual(listSimulatedGames().sort());
+		expect(() =>
+			simulate(
+				{
+					game: 'dice',
+					label: 'impossible',
+					request: { amount: 100, betType: 'over', target: 99.5 }
+				},
+				{ rounds: 10 }
+			)
+		).toThrow('Win chance must be between 1% and 98%');
+		expect(() =>
+			simulate({ game: 'mines', label: 'any', request: { amount: 100 } }, { rounds: 10 })
+		).toThrow('cannot be simulated');
+	});
+});
@@ -0,0 +1,313 @@
+/**
+ * Admin console operations: finding users and their bets, balance adjustments, bans and forced
+ * logouts. `hooks.server.ts` keeps non-admins out of `/admin` and `/api/admin`, and every admin
+ * route checks again with `requireAdmin`. Every change is written to the audit log.
+ */
+
+import type { RequestEvent } from '@sveltejs/kit';
+import { z } from 'zod';
+import { and, asc, eq, gt, or, sql, type SQL } from 'drizzle-orm';
+import { db } from '$lib/server/db';
+import { newestFirst } from '$lib/server/db/order';
+import * as table from '$lib/server/db/schema';
+import * as auth from '$lib/server/auth';
+import {
+	AuthenticationError,
+	AuthorizationError,
+	NotFoundError,
+	ValidationError
+} from '$lib/server/errors';
+import { postTransfer } from '$lib/server/ledger';
+import { getAutoBetSession, stopAutoBetSession } from '$lib/server/auto-bet';
+import { recordAudit, type AuditActor } from '$lib/server/audit';
+
+export const balanceAdjustmentSchema = z.object({
+	amount: z
+		.number()
+		.int()
+		.refine((amount) => amount !== 0, 'Amount must not be zero'), // Minor units; negative to debit
+	reason: z.string().trim().min(1).max(500)
+});
+
+export const banSchema = z.object({
+	banned: z.boolean()
+});
+
+export interface AdminUser {
+	id: string;
+	username: string;
+	balance: number;
+	isAdmin: boolean;
+	isBanned: boolean;
+	bets: number;
+	wagered: number;
+}
+
+export interface AdminUserDetail extends AdminUser {
+	profit: number; // Payouts less stakes, over every bet
+	sessions: number; // Sessions that are still signed in
+}
+
+export interface AdminBet {
+	id: string;
+	gameType: string;
+	amount: number;
+	multiplier: number;
+	win: boolean;
+	payout: number;
+	result: number;
+	nonce: number;
+	createdAt: Date;
+}
+
+const userColumns = {
+	id: table.user.id,
+	username: table.user.username,
+	balance: table.user.balance,
+	isAdmin: table.user.isAdmin,
+	isBanned: table.user.isBanned,
+	bets: sql<number>`count(${table.bet.id})`,
+	wagered: sql<number>`coalesce(sum(${table.bet.amount}), 0)`
+};
+
+/**
+ * The admin behind a request, failing for anonymous users and anyone who is not an admin
+ */
+export async function requireAdmin(event: RequestEvent): Promise<table.PublicUser> {
+	const sessionToken = auth.getSessionToken(event);
+	if (!sessionToken) {
+		throw new AuthenticationError();
+	}
+
+	const { session, user } = await auth.validateSessionToken(sessionToken);
+	if (!session || !user) {
+		throw new AuthenticationError('Invalid session');
+	}
+	if (!user.isAdmin) {
+		throw new AuthorizationError('Admin access required');
+	}
+	return user;
+}
+
+/**
+ * A page of users whose username contains `search`, or whose id is `search`, by username
+ */
+export function listUsers({
+	search,
+	page,
+	limit
+}: {
+	search?: string;
+	page: number;
+	limit: number;
+}): { users: AdminUser[]; total: number } {
+	const term = search?.trim().toLowerCase();
+	const condition: SQL | undefined = term
+		? or(sql`instr(${table.user.username}, ${term}) > 0`, eq(table.user.id, term))
+		: undefined;
+
+	const users = db
+		.select(userColumns)
+		.from(table.user)
+		.leftJoin(table.bet, eq(table.bet.userId, table.user.id))
+		.where(condition)
+		.groupBy(table.user.id)
+		.orderBy(asc(table.user.username))
+		.limit(limit)
+		.offset((page - 1) * limit)
+		.all();
+
+	const total = db
+		.select({ count: sql<number>`count(*)` })
+		.from(table.user)
+		.where(condition)
+		.get();
+
+	return { users, total: Number(total?.count ?? 0) };
+}
+
+/**
+ * One user with their betting totals and how many sessions they have open
+ */
+export function getUserDetail(userId: string): AdminUserDetail {
+	const user = db
+		.select({
+			...userColumns,
+			profit: sql<number>`coalesce(sum(${table.bet.payout} - ${table.bet.amount}), 0)`
+		})
+		.from(table.user)
+		.leftJoin(table.bet, eq(table.bet.userId, table.user.id))
+		.where(eq(table.user.id, userId))
+		.groupBy(table.user.id)
+		.get();
+
+	if (!user) {
+		throw new NotFoundError('User not found');
+	}
+
+	const sessions = db
+		.select({ count: sql<number>`count(*)` })
+		.from(table.session)
+		.where(and(eq(table.session.userId, userId), gt(table.session.expiresAt, new Date())))
+		.get();
+
+	return { ...user, sessions: Number(sessions?.count ?? 0) };
+}
+
+/**
+ * A page of a user's bets, newest first
+ */
+export function listUserBets(
+	userId: string,
+	{ page, limit }: { page: number; limit: number }
+): { bets: AdminBet[]; total: number } {
+	const bets = db
+		.select({
+			id: table.bet.id,
+			gameType: table.bet.gameType,
+			amount: table.bet.amount,
+			multiplier: table.bet.multiplier,
+			win: table.bet.win,
+			payout: table.bet.payout,
+			result: table.bet.result,
+			nonce: table.bet.nonce,
+			createdAt: table.bet.createdAt
+		})
+		.from(table.bet)
+		.where(eq(table.bet.userId, userId))
+		.orderBy(...newestFirst(table.bet.createdAt))
+		.limit(limit)
+		.offset((page - 1) * limit)
+		.all();
+
+	const total = db
+		.select({ count: sql<number>`count(*)` })
+		.from(table.bet)
+		.where(eq(table.bet.userId, userId))
+		.get();
+
+	return { bets, total: Number(total?.count ?? 0) };
+}
+
+/**
+ * Credit or debit a user's wallet through the ledger, recording the admin and their reason.
+ * Returns the new balance.
+ */
+export function adjustBalance({
+	actor,
+	userId,
+	amount,
+	reason
+}: {
+	actor: AuditActor;
+	userId: string;
+	amount: number;
+	reason: string;
+}): number {
+	return db.transaction((tx) => {
+		const user = tx
+			.select({ balance: table.user.balance })
+			.from(table.user)
+			.where(eq(table.user.id, userId))
+			.get();
+
+		if (!user) {
+			throw new NotFoundError('User not found');
+		}
+		if (user.balance + amount < 0) {
+			throw new ValidationError('The adjustment would leave a negative balance');
+		}
+
+		const newBalance = postTransfer(tx, {
+			type: 'admin_adjustment',
+			userId,
+			amount,
+			reference: actor.id,
+			description: reason
+		});
+		recordAudit(tx, actor, {
+			action: 'balance_adjustment',
+			targetType: 'user',
+			targetId: userId,
+			before: { balance: user.balance },
+			after: { balance: newBalance, reason }
+		});
+
+		return newBalance;
+	});
+}
+
+/**
+ * Ban or unban a user. A ban also signs them out everywhere and stops any auto-bet session.
+ */
+export async function setUserBanned({
+	actor,
+	userId,
+	banned
+}: {
+	actor: AuditActor;
+	userId: string;
+	banned: boolean;
+}): Promise<AdminUserDetail> {
+	if (banned && actor.id === userId) {
+		throw new ValidationError('You cannot ban yourself');
+	}
+
+	db.transaction((tx) => {
+		const user = tx
+			.select({ isBanned: table.user.isBanned })
+			.from(table.user)
+			.where(eq(table.user.id, userId))
+			.get();
+
+		if (!user) {
+			throw new NotFoundError('User not found');
+		}
+
+		tx.update(table.user).set({ isBanned: banned }).where(eq(table.user.id, userId)).run();
+		recordAudit(tx, actor, {
+			action: banned ? 'user_ban' : 'user_unban',
+			targetType: 'user',
+			targetId: userId,
+			before: { isBanned: user.isBanned },
+			after: { isBanned: banned }
+		});
+	});
+
+	if (banned) {
+		await auth.invalidateUserSessions(userId);
+		if (getAutoBetSession(userId)?.status === 'running') {
+			stopAutoBetSession(userId);
+		}
+	}
+
+	return getUserDetail(userId);
+}
+
+/**
+ * End every session a user has, returning how many there were
+ */
+export async function forceLogout(userId: string, actor: AuditActor): Promise<number> {
+	const user = db
+		.select({ id: table.user.id })
+		.from(table.user)
+		.where(eq(table.user.id, userId))
+		.get();
+
+	if (!user) {
+		throw new NotFoundError('User not found');
+	}
+
+	const ended = await auth.invalidateUserSessions(userId);
+	db.transaction((tx) =>
+		recordAudit(tx, actor, {
+			action: 'force_logout',
+			targetType: 'user',
+			targetId: userId,
+			before: { sessions: ended },
+			after: { sessions: 0 }
+		})
+	);
+
+	return ended;
+}
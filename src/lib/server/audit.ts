@@ -0,0 +1,267 @@
+/**
+ * Append-only audit log of privileged operations.
+ * Each entry records the admin, what they did and to what, the target's state before and after
+ * and the admin's IP. Entries are written in the same transaction as the change they describe and
+ * form a hash chain: every hash covers the entry's fields and the previous entry's hash, so editing
+ * or removing an entry breaks the chain from that point on. The database refuses updates and
+ * deletes on the table as well.
+ */
+
+import { createHash } from 'crypto';
+import type { RequestEvent } from '@sveltejs/kit';
+import { z } from 'zod';
+import { and, asc, desc, eq, gte, lte, or, sql, type SQL } from 'drizzle-orm';
+import { db, type Transaction } from '$lib/server/db';
+import * as table from '$lib/server/db/schema';
+
+export type AuditAction = table.AuditLogEntry['action'];
+export type AuditTargetType = table.AuditLogEntry['targetType'];
+
+export const AUDIT_ACTIONS = table.auditLog.action.enumValues;
+
+const GENESIS_HASH = '0'.repeat(64);
+
+/**
+ * The admin behind a privileged operation
+ */
+export interface AuditActor {
+	id: string;
+	ipAddress: string | null;
+}
+
+export interface AuditRecord {
+	action: AuditAction;
+	targetType: AuditTargetType;
+	targetId: string;
+	before: Record<string, unknown> | null;
+	after: Record<string, unknown> | null;
+}
+
+export interface PublicAuditEntry extends table.AuditLogEntry {
+	actorUsername: string | null;
+}
+
+export interface AuditChainStatus {
+	valid: boolean;
+	entries: number;
+	brokenAt: number | null; // Sequence of the first entry whose hash does not match
+}
+
+export const auditFilterSchema = z.object({
+	action: z.enum(AUDIT_ACTIONS as [AuditAction, ...AuditAction[]]).optional(),
+	actor: z.string().trim().min(1).optional(), // Username or id
+	target: z.string().trim().min(1).optional(), // Target id
+	from: z.coerce.date().optional(),
+	to: z.coerce.date().optional()
+});
+
+export type AuditFilter = z.infer<typeof auditFilterSchema>;
+
+/**
+ * Read a filter from query parameters, ignoring empty ones
+ */
+export function parseAuditFilter(params: URLSearchParams) {
+	return auditFilterSchema.safeParse({
+		action: params.get('action') || undefined,
+		actor: params.get('actor') || undefined,
+		target: params.get('target') || undefined,
+		from: params.get('from') || undefined,
+		to: params.get('to') || undefined
+	});
+}
+
+/**
+ * The admin making a request, with the address it came from
+ */
+export function getAuditActor(event: RequestEvent, admin: { id: string }): AuditActor {
+	return { id: admin.id, ipAddress: event.getClientAddress() };
+}
+
+/**
+ * The hash of an entry: SHA-256 over its fields in a fixed order, chained to the previous hash
+ */
+function hashEntry(entry: Omit<table.AuditLogEntry, 'id' | 'hash'>): string {
+	const payload = JSON.stringify([
+		entry.sequence,
+		entry.previousHash,
+		entry.actorId,
+		entry.action,
+		entry.targetType,
+		entry.targetId,
+		entry.before,
+		entry.after,
+		entry.ipAddress,
+		entry.createdAt.getTime()
+	]);
+
+	return createHash('sha256').update(payload).digest('hex');
+}
+
+/**
+ * Append an entry to the log inside the caller's transaction
+ */
+export function recordAudit(tx: Transaction, actor: AuditActor, record: AuditRecord): void {
+	const last = tx
+		.select({ sequence: table.auditLog.sequence, hash: table.auditLog.hash })
+		.from(table.auditLog)
+		.orderBy(desc(table.auditLog.sequence))
+		.limit(1)
+		.get();
+
+	const entry = {
+		...record,
+		sequence: (last?.sequence ?? 0) + 1,
+		actorId: actor.id,
+		ipAddress: actor.ipAddress,
+		previousHash: last?.hash ?? GENESIS_HASH,
+		createdAt: new Date()
+	};
+
+	tx.insert(table.auditLog)
+		.values({ ...entry, id: crypto.randomUUID(), hash: hashEntry(entry) })
+		.run();
+}
+
+function filterConditions(filter: AuditFilter): SQL | undefined {
+	const conditions: SQL[] = [];
+
+	if (filter.action) {
+		conditions.push(eq(table.auditLog.action, filter.action));
+	}
+	if (filter.actor) {
+		conditions.push(
+			or(eq(table.auditLog.actorId, filter.actor), eq(table.user.username, filter.actor))!
+		);
+	}
+	if (filter.target) {
+		conditions.push(eq(table.auditLog.targetId, filter.target));
+	}
+	if (filter.from) {
+		conditions.push(gte(table.auditLog.createdAt, filter.from));
+	}
+	if (filter.to) {
+		conditions.push(lte(table.auditLog.createdAt, filter.to));
+	}
+
+	return conditions.length > 0 ? and(...conditions) : undefined;
+}
+
+function selectEntries(filter: AuditFilter) {
+	return db
+		.select({
+			id: table.auditLog.id,
+			sequence: table.auditLog.sequence,
+			actorId: table.auditLog.actorId,
+			actorUsername: table.user.username,
+			action: table.auditLog.action,
+			targetType: table.auditLog.targetType,
+			targetId: table.auditLog.targetId,
+			before: table.auditLog.before,
+			after: table.auditLog.after,
+			ipAddress: table.auditLog.ipAddress,
+			previousHash: table.auditLog.previousHash,
+			hash: table.auditLog.hash,
+			createdAt: table.auditLog.createdAt
+		})
+		.from(table.auditLog)
+		.leftJoin(table.user, eq(table.user.id, table.auditLog.actorId))
+		.where(filterConditions(filter))
+		.orderBy(desc(table.auditLog.sequence))
+		.$dynamic();
+}
+
+/**
+ * A page of log entries matching the filter, newest first
+ */
+export function listAuditLog(
+	filter: AuditFilter,
+	{ page, limit }: { page: number; limit: number }
+): { entries: PublicAuditEntry[]; total: number } {
+	const entries = selectEntries(filter)
+		.limit(limit)
+		.offset((page - 1) * limit)
+		.all();
+
+	const total = db
+		.select({ count: sql<number>`count(*)` })
+		.from(table.auditLog)
+		.leftJoin(table.user, eq(table.user.id, table.auditLog.actorId))
+		.where(filterConditions(filter))
+		.get();
+
+	return { entries, total: Number(total?.count ?? 0) };
+}
+
+/**
+ * Every log entry matching the filter, newest first, for export
+ */
+export function exportAuditLog(filter: AuditFilter): PublicAuditEntry[] {
+	return selectEntries(filter).all();
+}
+
+/**
+ * Render entries as CSV, with the before and after states as JSON
+ */
+export function toAuditCsv(entries: PublicAuditEntry[]): string {
+	const columns = [
+		'sequence',
+		'created_at',
+		'actor_id',
+		'actor_username',
+		'action',
+		'target_type',
+		'target_id',
+		'before',
+		'after',
+		'ip_address',
+		'previous_hash',
+		'hash'
+	];
+	const escape = (value: unknown) => {
+		const text = value === null || value === undefined ? '' : String(value);
+		return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+	};
+
+	const rows = entries.map((entry) =>
+		[
+			entry.sequence,
+			entry.createdAt.toISOString(),
+			entry.actorId,
+			entry.actorUsername,
+			entry.action,
+			entry.targetType,
+			entry.targetId,
+			entry.before === null ? null : JSON.stringify(entry.before),
+			entry.after === null ? null : JSON.stringify(entry.after),
+			entry.ipAddress,
+			entry.previousHash,
+			entry.hash
+		]
+			.map(escape)
+			.join(',')
+	);
+
+	return [columns.join(','), ...rows].join('\n') + '\n';
+}
+
+/**
+ * Walk the chain from the first entry and report the first one that was altered or is missing
+ * its predecessor
+ */
+export function verifyAuditChain(): AuditChainStatus {
+	const entries = db.select().from(table.auditLog).orderBy(asc(table.auditLog.sequence)).all();
+	let previousHash = GENESIS_HASH;
+
+	for (const [index, entry] of entries.entries()) {
+		if (
+			entry.sequence !== index + 1 ||
+			entry.previousHash !== previousHash ||
+			entry.hash !== hashEntry(entry)
+		) {
+			return { valid: false, entries: entries.length, brokenAt: entry.sequence };
+		}
+		previousHash = entry.hash;
+	}
+
+	return { valid: true, entries: entries.length, brokenAt: null };
+}
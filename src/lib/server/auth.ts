@@ -46,7 +46,8 @@ export async function validateSessionToken(token: string) {
 				id: table.user.id,
 				username: table.user.username,
 				balance: table.user.balance,
-				isAdmin: table.user.isAdmin
+				isAdmin: table.user.isAdmin,
+				isBanned: table.user.isBanned
 			},
 			session: table.session
 		})
@@ -61,7 +62,8 @@ export async function validateSessionToken(token: string) {
 	const { session, user } = result;
 	const sessionExpired = Date.now() >= session.expiresAt.getTime();
 
-	if (sessionExpired) {
+	// Banning ends a user's sessions, but one created in the meantime must not outlive the ban
+	if (sessionExpired || user.isBanned) {
 		await db.delete(table.session).where(eq(table.session.id, session.id));
 		return { session: null, user: null };
 	}
@@ -88,6 +90,17 @@ export async function invalidateSession(sessionId: string) {
 	await db.delete(table.session).where(eq(table.session.id, sessionId));
 }
 
+/**
+ * Log a user out everywhere, returning how many sessions were ended
+ */
+export async function invalidateUserSessions(userId: string): Promise<number> {
+	const ended = await db
+		.delete(table.session)
+		.where(eq(table.session.userId, userId))
+		.returning({ id: table.session.id });
+	return ended.length;
+}
+
 export function setSessionTokenCookie(event: RequestEvent, token: string, expiresAt: Date) {
 	event.cookies.set(sessionCookieName, token, { 
 		expires: expiresAt, 
@@ -0,0 +1,330 @@
+/**
+ * Auto-bet sessions run by the server for the instant games.
+ * A session places one bet at a time through `placeGameBet`, the same transaction as the bet
+ * endpoint, and counts against the user's betting rate limit: when the limit is reached it waits
+ * for the window to reset instead of failing. Stop conditions are checked after every bet, and
+ * each result is pushed to the user's subscribers (the SSE stream).
+ */
+
+import { z } from 'zod';
+import { and, desc, eq } from 'drizzle-orm';
+import { db, type Transaction } from '$lib/server/db';
+import * as table from '$lib/server/db/schema';
+import { AppError, GameError } from '$lib/server/errors';
+import { placeGameBet, type GameBetResult } from '$lib/server/game-handler';
+import { getGame } from '$lib/server/games';
+import { isRateLimited, RATE_LIMITS } from '$lib/server/rate-limiter';
+import {
+	getAutoBetStopReason,
+	getNextAutoBetAmount,
+	recordAutoBet,
+	type AutoBetEvent,
+	type AutoBetSession,
+	type AutoBetStopReason
+} from '$lib/utils/auto-bet';
+
+// Pause between bets; long enough for the page to play each result, and under the betting limit
+export const AUTO_BET_INTERVAL_MS = 1200;
+
+const adjustmentSchema = z.object({
+	mode: z.enum(['reset', 'increase']),
+	percent: z.number().finite().min(0).max(1000)
+});
+
+export const autoBetStartSchema = z.object({
+	game: z.string(),
+	request: z.object({ amount: z.number().int() }).passthrough(),
+	settings: z.object({
+		bets: z.number().int().min(0),
+		onWin: adjustmentSchema,
+		onLoss: adjustmentSchema,
+		stopOnProfit: z.number().int().min(0),
+		stopOnLoss: z.number().int().min(0)
+	})
+});
+
+export type AutoBetStart = z.infer<typeof autoBetStartSchema>;
+
+type AutoBetListener = (event: AutoBetEvent<GameBetResult>) => void;
+
+const listeners = new Map<string, Set<AutoBetListener>>();
+
+/**
+ * Receive the user's auto-bet events until the returned function is called
+ */
+export function subscribeToAutoBet(userId: string, listener: AutoBetListener): () => void {
+	if (!listeners.has(userId)) listeners.set(userId, new Set());
+	listeners.get(userId)!.add(listener);
+
+	return () => {
+		listeners.get(userId)?.delete(listener);
+		if (listeners.get(userId)?.size === 0) listeners.delete(userId);
+	};
+}
+
+function broadcast(userId: string, event: AutoBetEvent<GameBetResult>): void {
+	for (const listener of listeners.get(userId) ?? []) {
+		listener(event);
+	}
+}
+
+function toSession(row: table.AutoBetSession): AutoBetSession {
+	return {
+		id: row.id,
+		game: row.gameType,
+		request: row.request,
+		settings: row.settings,
+		baseAmount: row.baseAmount,
+		nextAmount: row.nextAmount,
+		status: row.status,
+		stopReason: row.stopReason,
+		error: row.error,
+		tally: {
+			bets: row.bets,
+			wins: row.wins,
+			losses: row.losses,
+			wagered: row.wagered,
+			profit: row.profit
+		}
+	};
+}
+
+function getRunningSession(tx: Transaction, userId: string): table.AutoBetSession | undefined {
+	return tx
+		.select()
+		.from(table.autoBetSession)
+		.where(and(eq(table.autoBetSession.userId, userId), eq(table.autoBetSession.status, 'running')))
+		.get();
+}
+
+function getBalance(tx: Transaction, userId: string): number {
+	return tx
+		.select({ balance: table.user.balance })
+		.from(table.user)
+		.where(eq(table.user.id, userId))
+		.get()!.balance;
+}
+
+function finish(
+	sessionId: string,
+	reason: AutoBetStopReason,
+	now: number,
+	error: string | null = null
+): table.AutoBetSession {
+	return db
+		.update(table.autoBetSession)
+		.set({ status: 'stopped', stopReason: reason, error, updatedAt: new Date(now) })
+		.where(eq(table.autoBetSession.id, sessionId))
+		.returning()
+		.get();
+}
+
+/**
+ * Start an auto-bet session on an instant game. The first bet is validated up front, so a
+ * session that could never place a bet is rejected instead of stopping straight away.
+ */
+export function startAutoBetSession(
+	userId: string,
+	start: AutoBetStart,
+	now: number = Date.now()
+): AutoBetSession {
+	const game = getGame(start.game);
+	if (!game || game.kind !== 'instant') {
+		throw new GameError('Auto-bet is not available for this game');
+	}
+
+	const parsed = game.requestSchema.safeParse(start.request);
+	if (!parsed.success) {
+		throw new GameError('Invalid bet parameters');
+	}
+	const { amount, ...request } = parsed.data;
+
+	const row = db.transaction((tx) => {
+		if (getRunningSession(tx, userId)) {
+			throw new GameError('An auto-bet session is already running');
+		}
+
+		const validation = game.logic.validateBet(parsed.data, getBalance(tx, userId));
+		if (!validation.valid) {
+			throw new GameError(validation.error ?? 'Invalid bet parameters');
+		}
+
+		return tx
+			.insert(table.autoBetSession)
+			.values({
+				id: crypto.randomUUID(),
+				userId,
+				gameType: game.type,
+				request,
+				settings: start.settings,
+				baseAmount: amount,
+				nextAmount: amount,
+				status: 'running',
+				createdAt: new Date(now),
+				updatedAt: new Date(now)
+			})
+			.returning()
+			.get();
+	});
+
+	const session = toSession(row);
+	broadcast(userId, { type: 'session', session });
+	schedule(row.id, 0);
+	return session;
+}
+
+/**
+ * Stop the user's running session
+ */
+export function stopAutoBetSession(userId: string, now: number = Date.now()): AutoBetSession {
+	const running = db.transaction((tx) => getRunningSession(tx, userId));
+	if (!running) {
+		throw new GameError('No auto-bet session is running');
+	}
+
+	unschedule(running.id);
+	const session = toSession(finish(running.id, 'stopped', now));
+	broadcast(userId, { type: 'session', session });
+	return session;
+}
+
+/**
+ * The user's running session, or the last one to have run
+ */
+export function getAutoBetSession(userId: string): AutoBetSession | null {
+	const row = db
+		.select()
+		.from(table.autoBetSession)
+		.where(eq(table.autoBetSession.userId, userId))
+		.orderBy(desc(table.autoBetSession.createdAt))
+		.limit(1)
+		.get();
+
+	return row ? toSession(row) : null;
+}
+
+/**
+ * Place the session's next bet and check its stop conditions.
+ * Returns how long to wait before the next bet, or null once the session has stopped.
+ */
+export function runAutoBetStep(sessionId: string, now: number = Date.now()): number | null {
+	const row = db
+		.select()
+		.from(table.autoBetSession)
+		.where(eq(table.autoBetSession.id, sessionId))
+		.get();
+	if (!row || row.status !== 'running') return null;
+
+	const stop = (reason: AutoBetStopReason, error: string | null = null) => {
+		const session = toSession(finish(row.id, reason, now, error));
+		broadcast(row.userId, { type: 'session', session });
+		return null;
+	};
+
+	// Share the betting limit with manual bets and wait out the window when it is used up
+	const limit = isRateLimited(`${row.userId}:betting`, RATE_LIMITS.betting);
+	if (limit.limited) {
+		return Math.max(0, (limit.resetTime ?? now) - now);
+	}
+
+	const game = getGame(row.gameType);
+	if (!game || game.kind !== 'instant') {
+		return stop('error', 'Auto-bet is not available for this game');
+	}
+
+	const amount = row.nextAmount;
+	if (amount <= 0 || amount > db.transaction((tx) => getBalance(tx, row.userId))) {
+		return stop('balance');
+	}
+
+	let result: GameBetResult;
+	try {
+		result = placeGameBet(row.userId, game, { ...row.request, amount });
+	} catch (error) {
+		if (error instanceof Error && error.message === 'Insufficient balance') {
+			return stop('balance');
+		}
+		if (error instanceof AppError) {
+			return stop('error', error.message);
+		}
+
+		console.error('Auto-bet error:', error);
+		return stop('error', 'Internal server error');
+	}
+
+	const tally = recordAutoBet(
+		{
+			bets: row.bets,
+			wins: row.wins,
+			losses: row.losses,
+			wagered: row.wagered,
+			profit: row.profit
+		},
+		amount,
+		result
+	);
+	const reason = getAutoBetStopReason(row.settings, tally);
+
+	const updated = db
+		.update(table.autoBetSession)
+		.set({
+			...tally,
+			nextAmount: getNextAutoBetAmount(row.settings, row.baseAmount, amount, result.win),
+			...(reason && { status: 'stopped' as const, stopReason: reason }),
+			updatedAt: new Date(now)
+		})
+		.where(eq(table.autoBetSession.id, row.id))
+		.returning()
+		.get();
+
+	broadcast(row.userId, { type: 'bet', session: toSession(updated), result });
+	return reason ? null : AUTO_BET_INTERVAL_MS;
+}
+
+// Sessions are only driven once the scheduler has started (from the `init` hook)
+let schedulerStarted = false;
+const timers = new Map<string, ReturnType<typeof setTimeout>>();
+
+function schedule(sessionId: string, delay: number): void {
+	if (!schedulerStarted) return;
+
+	timers.set(
+		sessionId,
+		setTimeout(() => {
+			timers.delete(sessionId);
+
+			let next: number | null = null;
+			try {
+				next = runAutoBetStep(sessionId);
+			} catch (error) {
+				console.error('Auto-bet error:', error);
+				next = AUTO_BET_INTERVAL_MS;
+			}
+
+			if (next !== null) schedule(sessionId, next);
+		}, delay)
+	);
+}
+
+function unschedule(sessionId: string): void {
+	clearTimeout(timers.get(sessionId));
+	timers.delete(sessionId);
+}
+
+/**
+ * Start driving auto-bet sessions, picking up any left running by a restart
+ */
+export function startAutoBetScheduler(): void {
+	if (schedulerStarted) return;
+	schedulerStarted = true;
+
+	const running = db
+		.select({ id: table.autoBetSession.id })
+		.from(table.autoBetSession)
+		.where(eq(table.autoBetSession.status, 'running'))
+		.all();
+
+	for (const { id } of running) {
+		schedule(id, AUTO_BET_INTERVAL_MS);
+	}
+}
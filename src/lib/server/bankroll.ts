@@ -0,0 +1,172 @@
+/**
+ * House bankroll.
+ * The bankroll caps what one bet can win: no bet may profit more than `maxProfitPercent` of the
+ * balance. Every settled bet moves the balance by its stake less its payout, and each movement is
+ * recorded in `bankroll_movement` along with admin top-ups and withdrawals.
+ */
+
+import { z } from 'zod';
+import { eq, sql } from 'drizzle-orm';
+import { db, type Transaction } from '$lib/server/db';
+import { newestFirst } from '$lib/server/db/order';
+import * as table from '$lib/server/db/schema';
+import { GameError, ValidationError } from '$lib/server/errors';
+import type { GameConfig } from '$lib/server/game-config';
+import { recordAudit, type AuditActor } from '$lib/server/audit';
+import { formatMoney, multiplyMoney } from '$lib/utils/money';
+
+const BANKROLL_ID = 'house';
+
+export const bankrollSettingsSchema = z.object({
+	maxProfitPercent: z.number().finite().gt(0).max(100)
+});
+
+export interface BankrollSummary {
+	balance: number;
+	maxProfitPercent: number;
+	maxProfit: number;
+	movements: table.BankrollMovement[]; // Newest first
+}
+
+/**
+ * The bankroll row, seeded by the migrations
+ */
+export function getBankroll(tx: Transaction): table.Bankroll {
+	return tx.select().from(table.bankroll).where(eq(table.bankroll.id, BANKROLL_ID)).get()!;
+}
+
+/**
+ * The most a single bet can win over its stake right now
+ */
+export function getMaxProfit(bankroll: table.Bankroll): number {
+	return Math.max(0, Math.floor((bankroll.balance * bankroll.maxProfitPercent) / 100));
+}
+
+/**
+ * The most a bet of `stake` can be paid: the game's payout cap or the bankroll's max profit on top
+ * of the stake, whichever is lower
+ */
+export function getPayoutLimit(tx: Transaction, config: GameConfig, stake: number): number {
+	return Math.min(config.maxPayout, stake + getMaxProfit(getBankroll(tx)));
+}
+
+/**
+ * Reject a bet whose win would profit more than the bankroll allows
+ */
+export function assertProfitAllowed(tx: Transaction, stake: number, multiplier: number): void {
+	const maxProfit = getMaxProfit(getBankroll(tx));
+
+	if (multiplyMoney(stake, multiplier) - stake > maxProfit) {
+		throw new GameError(`Max profit per bet is ${formatMoney(maxProfit)}`);
+	}
+}
+
+function moveBankroll(
+	tx: Transaction,
+	movement: Omit<typeof table.bankrollMovement.$inferInsert, 'id' | 'balanceAfter' | 'createdAt'>
+): number {
+	const { balance } = tx
+		.update(table.bankroll)
+		.set({ balance: sql`${table.bankroll.balance} + ${movement.amount}`, updatedAt: new Date() })
+		.where(eq(table.bankroll.id, BANKROLL_ID))
+		.returning({ balance: table.bankroll.balance })
+		.get()!;
+
+	tx.insert(table.bankrollMovement)
+		.values({ ...movement, id: crypto.randomUUID(), balanceAfter: balance, createdAt: new Date() })
+		.run();
+
+	return balance;
+}
+
+/**
+ * Move the bankroll by a settled bet's stake less its payout
+ */
+export function recordBetSettlement(
+	tx: Transaction,
+	bet: { betId: string; gameType: string; stake: number; payout: number }
+): void {
+	moveBankroll(tx, {
+		type: 'bet',
+		gameType: bet.gameType,
+		reference: bet.betId,
+		stake: bet.stake,
+		payout: bet.payout,
+		amount: bet.stake - bet.payout
+	});
+}
+
+/**
+ * Top up or withdraw from the bankroll. Returns the new balance.
+ */
+export function adjustBankroll({
+	actor,
+	amount,
+	reason
+}: {
+	actor: AuditActor;
+	amount: number;
+	reason: string;
+}): number {
+	return db.transaction((tx) => {
+		const { balance } = getBankroll(tx);
+		if (balance + amount < 0) {
+			throw new ValidationError('The adjustment would leave a negative bankroll');
+		}
+
+		const newBalance = moveBankroll(tx, {
+			type: 'adjustment',
+			reference: actor.id,
+			amount,
+			description: reason
+		});
+		recordAudit(tx, actor, {
+			action: 'bankroll_adjustment',
+			targetType: 'bankroll',
+			targetId: BANKROLL_ID,
+			before: { balance },
+			after: { balance: newBalance, reason }
+		});
+
+		return newBalance;
+	});
+}
+
+export function updateBankrollSettings(maxProfitPercent: number, actor: AuditActor): void {
+	db.transaction((tx) => {
+		const before = getBankroll(tx);
+		tx.update(table.bankroll)
+			.set({ maxProfitPercent, updatedAt: new Date() })
+			.where(eq(table.bankroll.id, BANKROLL_ID))
+			.run();
+		recordAudit(tx, actor, {
+			action: 'bankroll_settings_update',
+			targetType: 'bankroll',
+			targetId: BANKROLL_ID,
+			before: { maxProfitPercent: before.maxProfitPercent },
+			after: { maxProfitPercent }
+		});
+	});
+}
+
+/**
+ * The bankroll with its most recent movements
+ */
+export function getBankrollSummary(limit = 20): BankrollSummary {
+	return db.transaction((tx) => {
+		const bankroll = getBankroll(tx);
+		const movements = tx
+			.select()
+			.from(table.bankrollMovement)
+			.orderBy(...newestFirst(table.bankrollMovement.createdAt))
+			.limit(limit)
+			.all();
+
+		return {
+			balance: bankroll.balance,
+			maxProfitPercent: bankroll.maxProfitPercent,
+			maxProfit: getMaxProfit(bankroll),
+			movements
+		};
+	});
+}
@@ -0,0 +1,627 @@
+/**
+ * Crash: one shared round at a time that every player bets on.
+ * Each round's crash point comes from the next hash of a pre-generated reverse hash chain, so the
+ * whole sequence is committed before it is played. A scheduler runs the countdown, the rising
+ * multiplier and the crash, and pushes every change to subscribers (the SSE stream).
+ * Stakes and cashouts move the user balance as they happen; the bet rows are written at the crash.
+ */
+
+import { randomBytes } from 'crypto';
+import { and, desc, eq, isNull, isNotNull, lte } from 'drizzle-orm';
+import { db, type Transaction } from '$lib/server/db';
+import * as table from '$lib/server/db/schema';
+import { GameError } from '$lib/server/errors';
+import { postTransfer } from '$lib/server/ledger';
+import { assertBetAllowed, getGameConfig } from '$lib/server/game-config';
+import { assertProfitAllowed, getPayoutLimit, recordBetSettlement } from '$lib/server/bankroll';
+import { assertWithinLimits } from '$lib/server/gambling-limits';
+import { generateCrashPoint, hashCrashChainLink } from '$lib/server/provably-fair';
+import {
+	CRASH_BETTING_MS,
+	CRASH_COOLDOWN_MS,
+	CRASH_TICK_MS,
+	getCrashDuration,
+	getCrashMultiplier,
+	type CrashEvent,
+	type PublicCrashBet,
+	type PublicCrashRound
+} from '$lib/utils/crash';
+import { multiplyMoney } from '$lib/utils/money';
+
+export const CRASH_CHAIN_LENGTH = 10_000;
+const RECENT_ROUNDS = 20;
+
+export interface CrashBetRequest {
+	amount: number;
+	autoCashout: number | null;
+}
+
+export interface PlayerCrashBet {
+	amount: number;
+	autoCashout: number | null;
+	cashoutMultiplier: number | null;
+	payout: number;
+	payoutCap?: number; // Set when the cashout was paid at the game's cap or the bankroll's limit
+}
+
+export interface CrashState {
+	round: PublicCrashRound | null;
+	bet: PlayerCrashBet | null; // The requesting user's bet in the current round
+	recentRounds: { id: string; chainIndex: number; crashPoint: number; hash: string }[];
+	chain: { terminatingHash: string; salt: string } | null;
+	now: number;
+}
+
+type CrashListener = (event: CrashEvent) => void;
+
+const listeners = new Set<CrashListener>();
+
+// The hashes of the chain rounds are drawn from, so opening a round looks one up rather than
+// hashing up to CRASH_CHAIN_LENGTH times; `hashes[n]` is the seed hashed n times
+let chainHashes: { seed: string; length: number; hashes: string[] } | null = null;
+
+/**
+ * Receive every crash event until the returned function is called
+ */
+export function subscribeToCrash(listener: CrashListener): () => void {
+	listeners.add(listener);
+	return () => listeners.delete(listener);
+}
+
+function broadcast(event: CrashEvent): void {
+	for (const listener of listeners) {
+		listener(event);
+	}
+}
+
+/**
+ * The hash of the round at `index` on a chain: the seed hashed (length - 1 - index) times.
+ * Hashing it once more gives the previous round's hash, or the terminating hash for index 0.
+ * The chain is hashed through once per seed and kept until another chain is asked for.
+ */
+export function getChainHash(seed: string, length: number, index: number): string {
+	if (chainHashes?.seed !== seed || chainHashes.length !== length) {
+		const hashes = [seed];
+		for (let i = 1; i < length; i++) {
+			hashes.push(hashCrashChainLink(hashes[i - 1]));
+		}
+		chainHashes = { seed, length, hashes };
+	}
+	return chainHashes.hashes[length - 1 - index];
+}
+
+function createChain(tx: Transaction): table.CrashChain {
+	const seed = randomBytes(32).toString('hex');
+
+	return tx
+		.insert(table.crashChain)
+		.values({
+			id: crypto.randomUUID(),
+			seed,
+			terminatingHash: hashCrashChainLink(getChainHash(seed, CRASH_CHAIN_LENGTH, 0)),
+			salt: randomBytes(16).toString('hex'),
+			length: CRASH_CHAIN_LENGTH,
+			createdAt: new Date()
+		})
+		.returning()
+		.get();
+}
+
+function getChain(tx: Transaction, chainId: string): table.CrashChain {
+	return tx.select().from(table.crashChain).where(eq(table.crashChain.id, chainId)).get()!;
+}
+
+function getLatestRound(tx: Transaction): table.CrashRound | undefined {
+	return tx.select().from(table.crashRound).orderBy(desc(table.crashRound.startsAt)).limit(1).get();
+}
+
+function getBalance(tx: Transaction, userId: string): number {
+	return tx
+		.select({ balance: table.user.balance })
+		.from(table.user)
+		.where(eq(table.user.id, userId))
+		.get()!.balance;
+}
+
+function toPublicBet(bet: table.CrashBet, username: string): PublicCrashBet {
+	return {
+		username,
+		amount: bet.amount,
+		cashoutMultiplier: bet.cashoutMultiplier,
+		payout: bet.payout
+	};
+}
+
+function getUsername(tx: Transaction, userId: string): string {
+	return tx
+		.select({ username: table.user.username })
+		.from(table.user)
+		.where(eq(table.user.id, userId))
+		.get()!.username;
+}
+
+function toPublicRound(tx: Transaction, round: table.CrashRound): PublicCrashRound {
+	const crashed = round.status === 'crashed';
+	const bets = tx
+		.select({ bet: table.crashBet, username: table.user.username })
+		.from(table.crashBet)
+		.innerJoin(table.user, eq(table.crashBet.userId, table.user.id))
+		.where(eq(table.crashBet.roundId, round.id))
+		.orderBy(desc(table.crashBet.amount))
+		.all();
+
+	return {
+		id: round.id,
+		chainIndex: round.chainIndex,
+		status: round.status,
+		startsAt: round.startsAt.getTime(),
+		previousHash: hashCrashChainLink(round.hash),
+		hash: crashed ? round.hash : null,
+		crashPoint: crashed ? round.crashPoint : null,
+		bets: bets.map(({ bet, username }) => toPublicBet(bet, username))
+	};
+}
+
+function roundEvent(tx: Transaction, round: table.CrashRound, now: number): CrashEvent {
+	return { type: 'round', round: toPublicRound(tx, round), now };
+}
+
+/**
+ * Credit a cashout at `multiplier` and record it on the bet
+ */
+function cashOut(tx: Transaction, bet: table.CrashBet, multiplier: number): table.CrashBet {
+	// Payouts above the game's cap or the bankroll's limit are paid at it
+	const payout = Math.min(
+		multiplyMoney(bet.amount, multiplier),
+		getPayoutLimit(tx, getGameConfig(tx, 'crash'), bet.amount)
+	);
+	postTransfer(tx, { type: 'bet_payout', userId: bet.userId, amount: payout, reference: bet.id });
+
+	return tx
+		.update(table.crashBet)
+		.set({ cashoutMultiplier: multiplier, payout })
+		.where(eq(table.crashBet.id, bet.id))
+		.returning()
+		.get();
+}
+
+/**
+ * The limit a cashout was paid at, when it was worth more than the game's cap or the bankroll's
+ * limit allowed
+ */
+function getPayoutCap(bet: table.CrashBet): number | undefined {
+	return bet.cashoutMultiplier !== null &&
+		bet.payout < multiplyMoney(bet.amount, bet.cashoutMultiplier)
+		? bet.payout
+		: undefined;
+}
+
+/**
+ * Cash out every open bet whose auto cashout target has been reached
+ */
+function cashOutAutoTargets(
+	tx: Transaction,
+	round: table.CrashRound,
+	multiplier: number
+): PublicCrashBet[] {
+	const due = tx
+		.select()
+		.from(table.crashBet)
+		.where(
+			and(
+				eq(table.crashBet.roundId, round.id),
+				isNull(table.crashBet.cashoutMultiplier),
+				isNotNull(table.crashBet.autoCashout),
+				lte(table.crashBet.autoCashout, Math.min(multiplier, round.crashPoint))
+			)
+		)
+		.all();
+
+	return due.map((bet) =>
+		toPublicBet(cashOut(tx, bet, bet.autoCashout!), getUsername(tx, bet.userId))
+	);
+}
+
+/**
+ * Open the next round for betting, continuing the current hash chain or starting a new one.
+ * Returns the round still in progress instead if there is one.
+ */
+export function openCrashRound(now: number = Date.now()): table.CrashRound {
+	const { round, event } = db.transaction((tx) => {
+		const latest = getLatestRound(tx);
+		if (latest && latest.status !== 'crashed') {
+			return { round: latest, event: null };
+		}
+
+		let chain = latest ? getChain(tx, latest.chainId) : null;
+		let chainIndex = latest ? latest.chainIndex + 1 : 0;
+		if (!chain || chainIndex >= chain.length) {
+			chain = createChain(tx);
+			chainIndex = 0;
+		}
+
+		const hash = getChainHash(chain.seed, chain.length, chainIndex);
+		const round = tx
+			.insert(table.crashRound)
+			.values({
+				id: crypto.randomUUID(),
+				chainId: chain.id,
+				chainIndex,
+				hash,
+				crashPoint: generateCrashPoint(hash, chain.salt),
+				status: 'betting',
+				startsAt: new Date(now + CRASH_BETTING_MS),
+				createdAt: new Date(now)
+			})
+			.returning()
+			.get();
+
+		return { round, event: roundEvent(tx, round, now) };
+	});
+
+	if (event) broadcast(event);
+	return round;
+}
+
+/**
+ * Close betting and start the multiplier once the countdown is over
+ */
+export function startCrashRound(now: number = Date.now()): table.CrashRound | null {
+	const { round, event } = db.transaction((tx) => {
+		const latest = getLatestRound(tx);
+		if (!latest || latest.status !== 'betting' || now < latest.startsAt.getTime()) {
+			return { round: null, event: null };
+		}
+
+		const round = tx
+			.update(table.crashRound)
+			.set({ status: 'running' })
+			.where(eq(table.crashRound.id, latest.id))
+			.returning()
+			.get();
+
+		return { round, event: roundEvent(tx, round, now) };
+	});
+
+	if (event) broadcast(event);
+	return round;
+}
+
+/**
+ * Pay out auto cashouts reached by the running multiplier and push the current multiplier
+ */
+export function tickCrashRound(now: number = Date.now()): void {
+	const events = db.transaction((tx) => {
+		const round = getLatestRound(tx);
+		if (!round || round.status !== 'running') return [];
+
+		const elapsed = now - round.startsAt.getTime();
+		const multiplier = Math.min(getCrashMultiplier(elapsed), round.crashPoint);
+		const cashouts = cashOutAutoTargets(tx, round, multiplier);
+
+		return [
+			...cashouts.map((bet): CrashEvent => ({ type: 'cashout', bet })),
+			{ type: 'tick', multiplier, elapsed } as CrashEvent
+		];
+	});
+
+	events.forEach(broadcast);
+}
+
+/**
+ * Crash the running round: pay any auto cashouts at or below the crash point, write a bet row for
+ * every stake and reveal the round's hash
+ */
+export function settleCrashRound(now: number = Date.now()): table.CrashRound | null {
+	const { round, events } = db.transaction((tx) => {
+		const latest = getLatestRound(tx);
+		if (!latest || latest.status !== 'running') {
+			return { round: null, events: [] };
+		}
+
+		const chain = getChain(tx, latest.chainId);
+		const cashouts = cashOutAutoTargets(tx, latest, latest.crashPoint);
+		const bets = tx
+			.select()
+			.from(table.crashBet)
+			.where(eq(table.crashBet.roundId, latest.id))
+			.all();
+
+		for (const bet of bets) {
+			// The bet takes the crash bet's id, which its stake and payout already reference
+			const betId = bet.id;
+
+			// The chain hash stands in for the server seed and the previous link for its hash,
+			// so the shared verify endpoint checks the chain link as well as the crash point
+			tx.insert(table.bet)
+				.values({
+					id: betId,
+					userId: bet.userId,
+					gameType: 'crash',
+					amount: bet.amount,
+					multiplier: bet.cashoutMultiplier ?? 0,
+					win: bet.cashoutMultiplier !== null,
+					payout: bet.payout,
+					serverSeed: latest.hash,
+					serverSeedHash: hashCrashChainLink(latest.hash),
+					clientSeed: chain.salt,
+					nonce: latest.chainIndex,
+					seedPairId: null,
+					gameData: JSON.stringify({
+						roundId: latest.id,
+						autoCashout: bet.autoCashout,
+						cashoutMultiplier: bet.cashoutMultiplier,
+						payoutCap: getPayoutCap(bet)
+					}),
+					result: latest.crashPoint,
+					createdAt: new Date(now)
+				})
+				.run();
+			recordBetSettlement(tx, {
+				betId,
+				gameType: 'crash',
+				stake: bet.amount,
+				payout: bet.payout
+			});
+
+			tx.update(table.crashBet).set({ betId }).where(eq(table.crashBet.id, bet.id)).run();
+		}
+
+		const round = tx
+			.update(table.crashRound)
+			.set({ status: 'crashed', crashedAt: new Date(now) })
+			.where(eq(table.crashRound.id, latest.id))
+			.returning()
+			.get();
+
+		return {
+			round,
+			events: [
+				...cashouts.map((bet): CrashEvent => ({ type: 'cashout', bet })),
+				roundEvent(tx, round, now)
+			]
+		};
+	});
+
+	events.forEach(broadcast);
+	return round;
+}
+
+/**
+ * Place a bet on the round that is counting down
+ */
+export function placeCrashBet(
+	userId: string,
+	request: CrashBetRequest,
+	now: number = Date.now()
+): { bet: PlayerCrashBet; newBalance: number } {
+	const { result, event } = db.transaction((tx) => {
+		assertBetAllowed('crash', getGameConfig(tx, 'crash'), request.amount);
+		// An auto cashout prices the win before the round runs, like a limbo target
+		if (request.autoCashout !== null) {
+			assertProfitAllowed(tx, request.amount, request.autoCashout);
+		}
+
+		const round = getLatestRound(tx);
+		if (!round || round.status !== 'betting' || now >= round.startsAt.getTime()) {
+			throw new GameError('Betting is closed for this round');
+		}
+
+		const existing = tx
+			.select({ id: table.crashBet.id })
+			.from(table.crashBet)
+			.where(and(eq(table.crashBet.roundId, round.id), eq(table.crashBet.userId, userId)))
+			.get();
+		if (existing) {
+			throw new GameError('You already have a bet in this round');
+		}
+
+		assertWithinLimits(tx, userId, request.amount);
+		if (getBalance(tx, userId) < request.amount) {
+			throw new GameError('Insufficient balance');
+		}
+		const betId = crypto.randomUUID();
+		postTransfer(tx, { type: 'bet_stake', userId, amount: -request.amount, reference: betId });
+
+		const bet = tx
+			.insert(table.crashBet)
+			.values({
+				id: betId,
+				roundId: round.id,
+				userId,
+				amount: request.amount,
+				autoCashout: request.autoCashout,
+				createdAt: new Date(now)
+			})
+			.returning()
+			.get();
+
+		return {
+			result: {
+				bet: toPlayerBet(bet),
+				newBalance: getBalance(tx, userId)
+			},
+			event: { type: 'bet', bet: toPublicBet(bet, getUsername(tx, userId)) } as CrashEvent
+		};
+	});
+
+	broadcast(event);
+	return result;
+}
+
+/**
+ * Cash out the user's bet at the multiplier the running round has reached
+ */
+export function cashOutCrashBet(
+	userId: string,
+	now: number = Date.now()
+): { bet: PlayerCrashBet; newBalance: number } {
+	const { result, event } = db.transaction((tx) => {
+		const round = getLatestRound(tx);
+		if (!round || round.status !== 'running') {
+			throw new GameError('The round has not started');
+		}
+
+		const elapsed = now - round.startsAt.getTime();
+		if (elapsed >= getCrashDuration(round.crashPoint)) {
+			throw new GameError('The round has already crashed');
+		}
+
+		const bet = tx
+			.select()
+			.from(table.crashBet)
+			.where(and(eq(table.crashBet.roundId, round.id), eq(table.crashBet.userId, userId)))
+			.get();
+		if (!bet) {
+			throw new GameError('You have no bet in this round');
+		}
+		if (bet.cashoutMultiplier !== null) {
+			throw new GameError('You have already cashed out');
+		}
+
+		const settled = cashOut(tx, bet, Math.min(getCrashMultiplier(elapsed), round.crashPoint));
+
+		return {
+			result: {
+				bet: toPlayerBet(settled),
+				newBalance: getBalance(tx, userId)
+			},
+			event: { type: 'cashout', bet: toPublicBet(settled, getUsername(tx, userId)) } as CrashEvent
+		};
+	});
+
+	broadcast(event);
+	return result;
+}
+
+function toPlayerBet(bet: table.CrashBet): PlayerCrashBet {
+	const payoutCap = getPayoutCap(bet);
+
+	return {
+		amount: bet.amount,
+		autoCashout: bet.autoCashout,
+		cashoutMultiplier: bet.cashoutMultiplier,
+		payout: bet.payout,
+		...(payoutCap !== undefined && { payoutCap })
+	};
+}
+
+/**
+ * The current round as a stream event, sent to new subscribers before live events
+ */
+export function getCrashRoundEvent(now: number = Date.now()): CrashEvent | null {
+	return db.transaction((tx) => {
+		const round = getLatestRound(tx);
+		return round ? roundEvent(tx, round, now) : null;
+	});
+}
+
+/**
+ * Snapshot for the crash page: the current round, the user's bet in it and recent crash points
+ */
+export function getCrashState(userId: string, now: number = Date.now()): CrashState {
+	return db.transaction((tx) => {
+		const round = getLatestRound(tx);
+		const bet = round
+			? tx
+					.select()
+					.from(table.crashBet)
+					.where(and(eq(table.crashBet.roundId, round.id), eq(table.crashBet.userId, userId)))
+					.get()
+			: undefined;
+		const chain = round ? getChain(tx, round.chainId) : null;
+
+		const recentRounds = tx
+			.select({
+				id: table.crashRound.id,
+				chainIndex: table.crashRound.chainIndex,
+				crashPoint: table.crashRound.crashPoint,
+				hash: table.crashRound.hash
+			})
+			.from(table.crashRound)
+			.where(eq(table.crashRound.status, 'crashed'))
+			.orderBy(desc(table.crashRound.startsAt))
+			.limit(RECENT_ROUNDS)
+			.all();
+
+		return {
+			round: round ? toPublicRound(tx, round) : null,
+			bet: bet ? toPlayerBet(bet) : null,
+			recentRounds,
+			chain: chain ? { terminatingHash: chain.terminatingHash, salt: chain.salt } : null,
+			now
+		};
+	});
+}
+
+let schedulerStarted = false;
+
+function runSafely(step: () => void): boolean {
+	try {
+		step();
+		return true;
+	} catch (error) {
+		console.error('Crash scheduler error:', error);
+		return false;
+	}
+}
+
+function scheduleNextRound(delay: number): void {
+	setTimeout(() => {
+		let round: table.CrashRound | null = null;
+		if (!runSafely(() => (round = openCrashRound()))) {
+			scheduleNextRound(CRASH_COOLDOWN_MS);
+			return;
+		}
+
+		scheduleStart(round!);
+	}, delay);
+}
+
+function scheduleStart(round: table.CrashRound): void {
+	setTimeout(
+		() => {
+			runSafely(() => startCrashRound());
+
+			const crashesAt = round.startsAt.getTime() + getCrashDuration(round.crashPoint);
+			const timer = setInterval(() => {
+				const now = Date.now();
+
+				if (now >= crashesAt) {
+					clearInterval(timer);
+					runSafely(() => settleCrashRound(now));
+					scheduleNextRound(CRASH_COOLDOWN_MS);
+				} else {
+					runSafely(() => tickCrashRound(now));
+				}
+			}, CRASH_TICK_MS);
+		},
+		Math.max(0, round.startsAt.getTime() - Date.now())
+	);
+}
+
+/**
+ * Start the round loop: countdown, rising multiplier, crash, cooldown, repeat.
+ * A round left running by a restart is crashed at its committed point first; one still counting
+ * down resumes its countdown.
+ */
+export function startCrashScheduler(): void {
+	if (schedulerStarted) return;
+	schedulerStarted = true;
+
+	runSafely(() => {
+		const latest = db.transaction((tx) => getLatestRound(tx));
+		if (latest?.status === 'running') {
+			settleCrashRound();
+		} else if (latest?.status === 'betting') {
+			db.update(table.crashRound)
+				.set({
+					startsAt: new Date(Math.max(latest.startsAt.getTime(), Date.now() + CRASH_BETTING_MS))
+				})
+				.where(eq(table.crashRound.id, latest.id))
+				.run();
+		}
+	});
+
+	scheduleNextRound(0);
+}
@@ -15,3 +15,5 @@ if (!isDevelopment) {
 }
 
 export const db = drizzle(client, { schema });
+
+export type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
@@ -0,0 +1,10 @@
+import { desc, sql, type SQL } from 'drizzle-orm';
+import type { SQLiteColumn } from 'drizzle-orm/sqlite-core';
+
+/**
+ * Order rows newest first. Rows written in one transaction share a timestamp, so ties fall back
+ * to insertion order.
+ */
+export function newestFirst(createdAt: SQLiteColumn): SQL[] {
+	return [desc(createdAt), desc(sql`rowid`)];
+}
@@ -1,12 +1,14 @@
 import { sql } from 'drizzle-orm';
-import { sqliteTable, integer, text, real } from 'drizzle-orm/sqlite-core';
+import { sqliteTable, integer, text, real, index, uniqueIndex } from 'drizzle-orm/sqlite-core';
+import type { AutoBetSettings, AutoBetStopReason } from '$lib/utils/auto-bet';
 
 export const user = sqliteTable('user', {
 	id: text('id').primaryKey(),
 	username: text('username').notNull().unique(),
 	passwordHash: text('password_hash').notNull(),
-	balance: real('balance').notNull().default(1000),
-	isAdmin: integer('is_admin', { mode: 'boolean' }).notNull().default(false)
+	balance: integer('balance').notNull().default(100_000), // Minor units
+	isAdmin: integer('is_admin', { mode: 'boolean' }).notNull().default(false),
+	isBanned: integer('is_banned', { mode: 'boolean' }).notNull().default(false)
 });
 
 export const bet = sqliteTable('bet', {
@@ -14,17 +16,18 @@ export const bet = sqliteTable('bet', {
 	userId: text('user_id')
 		.notNull()
 		.references(() => user.id),
-	gameType: text('game_type', { enum: ['dice', 'flip'] }).notNull(),
-	amount: real('amount').notNull(),
+	gameType: text('game_type').notNull(),
+	amount: integer('amount').notNull(), // Minor units
 	multiplier: real('multiplier').notNull(),
 	win: integer('win', { mode: 'boolean' }).notNull(),
-	payout: real('payout').notNull().default(0),
+	payout: integer('payout').notNull().default(0), // Minor units
 
 	// Provably fair fields
 	serverSeed: text('server_seed').notNull(),
 	serverSeedHash: text('server_seed_hash').notNull(),
 	clientSeed: text('client_seed').notNull(),
 	nonce: integer('nonce').notNull(),
+	seedPairId: text('seed_pair_id').references(() => seedPair.id),
 
 	// Game-specific data
 	gameData: text('game_data', { mode: 'json' }), // JSON field for game-specific parameters
@@ -46,6 +49,283 @@ export const userGameSession = sqliteTable('user_game_session', {
 		.default(sql`CURRENT_TIMESTAMP`)
 });
 
+// Committed server seeds per user. Each user has one active pair that bets are played on and
+// one pre-committed next pair; the active server seed is only revealed when the user rotates it.
+// The client seed is chosen by the user and carried over to the next pair on rotation.
+export const seedPair = sqliteTable(
+	'seed_pair',
+	{
+		id: text('id').primaryKey(),
+		userId: text('user_id')
+			.notNull()
+			.references(() => user.id),
+		serverSeed: text('server_seed').notNull(),
+		serverSeedHash: text('server_seed_hash').notNull(),
+		clientSeed: text('client_seed').notNull(),
+		nonce: integer('nonce').notNull().default(0),
+		status: text('status', { enum: ['next', 'active', 'revealed'] }).notNull(),
+		createdAt: integer('created_at', { mode: 'timestamp' })
+			.notNull()
+			.default(sql`CURRENT_TIMESTAMP`),
+		revealedAt: integer('revealed_at', { mode: 'timestamp_ms' })
+	},
+	(t) => [index('seed_pair_user_status_idx').on(t.userId, t.status)]
+);
+
+// Multi-step rounds (mines, ...) that stay open across requests. The stake is debited and the
+// outcome committed from the seed pair and nonce when the round starts; the round's private state
+// (e.g. the mine layout) is only exposed once it settles, at which point a bet row is written.
+export const gameRound = sqliteTable(
+	'game_round',
+	{
+		id: text('id').primaryKey(),
+		userId: text('user_id')
+			.notNull()
+			.references(() => user.id),
+		gameType: text('game_type').notNull(),
+		seedPairId: text('seed_pair_id')
+			.notNull()
+			.references(() => seedPair.id),
+		nonce: integer('nonce').notNull(),
+		amount: integer('amount').notNull(), // Total stake in minor units, including any stake added by actions
+		state: text('state', { mode: 'json' }).$type<Record<string, unknown>>().notNull(),
+		status: text('status', { enum: ['active', 'settled'] }).notNull(),
+		betId: text('bet_id').references(() => bet.id),
+		createdAt: integer('created_at', { mode: 'timestamp' })
+			.notNull()
+			.default(sql`CURRENT_TIMESTAMP`),
+		updatedAt: integer('updated_at', { mode: 'timestamp' })
+			.notNull()
+			.default(sql`CURRENT_TIMESTAMP`)
+	},
+	(t) => [index('game_round_user_status_idx').on(t.userId, t.status)]
+);
+
+// Pre-generated hash chains for crash. The chain is built by hashing `seed` `length` times and only
+// its final hash (the terminating hash) is published up front; rounds use the chain from the end
+// backwards, so every revealed round hash hashes to the one revealed before it.
+export const crashChain = sqliteTable('crash_chain', {
+	id: text('id').primaryKey(),
+	seed: text('seed').notNull(),
+	terminatingHash: text('terminating_hash').notNull(),
+	salt: text('salt').notNull(), // Public; mixed into every crash point so the chain alone does not decide it
+	length: integer('length').notNull(),
+	createdAt: integer('created_at', { mode: 'timestamp' })
+		.notNull()
+		.default(sql`CURRENT_TIMESTAMP`)
+});
+
+// Shared crash rounds. The hash and crash point are fixed when the round opens and only
+// exposed once it has crashed.
+export const crashRound = sqliteTable(
+	'crash_round',
+	{
+		id: text('id').primaryKey(),
+		chainId: text('chain_id')
+			.notNull()
+			.references(() => crashChain.id),
+		chainIndex: integer('chain_index').notNull(), // 0 for the first round played on the chain
+		hash: text('hash').notNull(),
+		crashPoint: real('crash_point').notNull(),
+		status: text('status', { enum: ['betting', 'running', 'crashed'] }).notNull(),
+		startsAt: integer('starts_at', { mode: 'timestamp_ms' }).notNull(),
+		crashedAt: integer('crashed_at', { mode: 'timestamp_ms' }),
+		createdAt: integer('created_at', { mode: 'timestamp' })
+			.notNull()
+			.default(sql`CURRENT_TIMESTAMP`)
+	},
+	(t) => [
+		uniqueIndex('crash_round_chain_index_idx').on(t.chainId, t.chainIndex),
+		index('crash_round_status_idx').on(t.status)
+	]
+);
+
+// A player's stake in a crash round. The stake is debited when it is placed and any cashout is
+// credited straight away; the bet row is written when the round crashes.
+export const crashBet = sqliteTable(
+	'crash_bet',
+	{
+		id: text('id').primaryKey(),
+		roundId: text('round_id')
+			.notNull()
+			.references(() => crashRound.id),
+		userId: text('user_id')
+			.notNull()
+			.references(() => user.id),
+		amount: integer('amount').notNull(), // Minor units
+		autoCashout: real('auto_cashout'),
+		cashoutMultiplier: real('cashout_multiplier'),
+		payout: integer('payout').notNull().default(0), // Minor units
+		betId: text('bet_id').references(() => bet.id),
+		createdAt: integer('created_at', { mode: 'timestamp' })
+			.notNull()
+			.default(sql`CURRENT_TIMESTAMP`)
+	},
+	(t) => [uniqueIndex('crash_bet_round_user_idx').on(t.roundId, t.userId)]
+);
+
+// Auto-bet sessions run by the server. Every bet goes through the same transaction as a manual
+// bet; the tally and the next stake are saved after each one, so a session carries on across page
+// loads and resumes after a restart.
+export const autoBetSession = sqliteTable(
+	'auto_bet_session',
+	{
+		id: text('id').primaryKey(),
+		userId: text('user_id')
+			.notNull()
+			.references(() => user.id),
+		gameType: text('game_type').notNull(),
+		request: text('request', { mode: 'json' }).$type<Record<string, unknown>>().notNull(), // Bet parameters other than the amount
+		settings: text('settings', { mode: 'json' }).$type<AutoBetSettings>().notNull(),
+		baseAmount: integer('base_amount').notNull(), // Minor units, like the other amounts here
+		nextAmount: integer('next_amount').notNull(),
+		status: text('status', { enum: ['running', 'stopped'] }).notNull(),
+		stopReason: text('stop_reason').$type<AutoBetStopReason>(),
+		error: text('error'),
+		bets: integer('bets').notNull().default(0),
+		wins: integer('wins').notNull().default(0),
+		losses: integer('losses').notNull().default(0),
+		wagered: integer('wagered').notNull().default(0),
+		profit: integer('profit').notNull().default(0),
+		createdAt: integer('created_at', { mode: 'timestamp_ms' }).notNull(),
+		updatedAt: integer('updated_at', { mode: 'timestamp_ms' }).notNull()
+	},
+	(t) => [index('auto_bet_session_user_status_idx').on(t.userId, t.status)]
+);
+
+// Double-entry wallet ledger. Every balance change is a transfer of two entries that share a
+// transfer id and sum to zero: one on the user's wallet and one on the system account on the
+// other side. A wallet's balance always equals its entries' sum.
+export const transaction = sqliteTable(
+	'transaction',
+	{
+		id: text('id').primaryKey(),
+		transferId: text('transfer_id').notNull(),
+		type: text('type', {
+			enum: ['bet_stake', 'bet_payout', 'bonus', 'admin_adjustment', 'opening_balance']
+		}).notNull(),
+		account: text('account', {
+			enum: ['wallet', 'house', 'promotions', 'adjustments']
+		}).notNull(),
+		userId: text('user_id').references(() => user.id), // Set on wallet entries
+		amount: integer('amount').notNull(), // Minor units; positive credits the account, negative debits it
+		balanceAfter: integer('balance_after'), // The wallet's balance after this entry
+		reference: text('reference'), // The bet the transfer belongs to; round and crash bets share their bet's id
+		description: text('description'),
+		createdAt: integer('created_at', { mode: 'timestamp_ms' }).notNull()
+	},
+	(t) => [
+		index('transaction_user_created_idx').on(t.userId, t.createdAt),
+		index('transaction_transfer_idx').on(t.transferId)
+	]
+);
+
+// The result of each ledger reconciliation, which the admin console shows the latest of
+export const ledgerReconciliation = sqliteTable(
+	'ledger_reconciliation',
+	{
+		id: text('id').primaryKey(),
+		// Users whose balance differs from the sum of their wallet entries
+		discrepancies: text('discrepancies', { mode: 'json' })
+			.$type<{ userId: string; balance: number; ledgerBalance: number }[]>()
+			.notNull(),
+		// Transfers whose entries do not sum to zero
+		unbalancedTransfers: text('unbalanced_transfers', { mode: 'json' }).$type<string[]>().notNull(),
+		createdAt: integer('created_at', { mode: 'timestamp_ms' }).notNull()
+	},
+	(t) => [index('ledger_reconciliation_created_idx').on(t.createdAt)]
+);
+
+// Admin overrides of a game's runtime settings. Games without a row play on the defaults in
+// src/lib/server/game-config.ts.
+export const gameConfig = sqliteTable('game_config', {
+	gameType: text('game_type').primaryKey(),
+	houseEdge: real('house_edge'), // Percent; null for games whose paytable fixes the edge
+	minBet: integer('min_bet').notNull(), // Minor units
+	maxBet: integer('max_bet').notNull(), // Minor units
+	maxPayout: integer('max_payout').notNull(), // Minor units; larger payouts are paid at this cap
+	enabled: integer('enabled', { mode: 'boolean' }).notNull().default(true),
+	updatedAt: integer('updated_at', { mode: 'timestamp_ms' }).notNull()
+});
+
+export const bankroll = sqliteTable('bankroll', {
+	id: text('id').primaryKey(), // A single 'house' row
+	balance: integer('balance').notNull(), // Minor units
+	maxProfitPercent: real('max_profit_percent').notNull(), // Of the balance, the most one bet can win
+	updatedAt: integer('updated_at', { mode: 'timestamp_ms' }).notNull()
+});
+
+export const bankrollMovement = sqliteTable(
+	'bankroll_movement',
+	{
+		id: text('id').primaryKey(),
+		type: text('type', { enum: ['bet', 'adjustment'] }).notNull(),
+		gameType: text('game_type'), // Set on bet movements
+		reference: text('reference').notNull(), // The settled bet, or the admin who adjusted the bankroll
+		stake: integer('stake'), // Minor units; set on bet movements
+		payout: integer('payout'), // Minor units; set on bet movements
+		amount: integer('amount').notNull(), // Minor units; positive when the house gains
+		balanceAfter: integer('balance_after').notNull(),
+		description: text('description'),
+		createdAt: integer('created_at', { mode: 'timestamp_ms' }).notNull()
+	},
+	(t) => [index('bankroll_movement_created_idx').on(t.createdAt)]
+);
+
+export const auditLog = sqliteTable(
+	'audit_log',
+	{
+		id: text('id').primaryKey(),
+		sequence: integer('sequence').notNull(), // Position in the hash chain, from 1
+		actorId: text('actor_id')
+			.notNull()
+			.references(() => user.id),
+		action: text('action', {
+			enum: [
+				'balance_adjustment',
+				'user_ban',
+				'user_unban',
+				'force_logout',
+				'game_config_update',
+				'bankroll_settings_update',
+				'bankroll_adjustment'
+			]
+		}).notNull(),
+		targetType: text('target_type', { enum: ['user', 'game', 'bankroll'] }).notNull(),
+		targetId: text('target_id').notNull(),
+		before: text('before', { mode: 'json' }).$type<Record<string, unknown> | null>(),
+		after: text('after', { mode: 'json' }).$type<Record<string, unknown> | null>(),
+		ipAddress: text('ip_address'),
+		previousHash: text('previous_hash').notNull(), // The previous entry's hash; zeros for the first
+		hash: text('hash').notNull(), // SHA-256 over this entry's fields and the previous hash
+		createdAt: integer('created_at', { mode: 'timestamp_ms' }).notNull()
+	},
+	(t) => [
+		uniqueIndex('audit_log_sequence_idx').on(t.sequence),
+		index('audit_log_actor_idx').on(t.actorId),
+		index('audit_log_target_idx').on(t.targetType, t.targetId)
+	]
+);
+
+// Wager and loss limits a user sets on their own account, one row per kind and period. Lowering a
+// limit applies at once; raising or removing one is held in `pending_*` until `pending_at`.
+export const gamblingLimit = sqliteTable(
+	'gambling_limit',
+	{
+		id: text('id').primaryKey(),
+		userId: text('user_id')
+			.notNull()
+			.references(() => user.id),
+		type: text('type', { enum: ['wager', 'loss'] }).notNull(),
+		period: text('period', { enum: ['daily', 'weekly', 'monthly'] }).notNull(),
+		amount: integer('amount'), // Minor units; null when no limit applies
+		pendingAmount: integer('pending_amount'), // Replaces `amount` at `pending_at`; null removes the limit
+		pendingAt: integer('pending_at', { mode: 'timestamp_ms' }), // Set while an increase is cooling off
+		updatedAt: integer('updated_at', { mode: 'timestamp_ms' }).notNull()
+	},
+	(t) => [uniqueIndex('gambling_limit_user_type_period_idx').on(t.userId, t.type, t.period)]
+);
+
 export const session = sqliteTable('session', {
 	id: text('id').primaryKey(),
 	userId: text('user_id')
@@ -60,4 +340,17 @@ export type Session = typeof session.$inferSelect;
 export type User = typeof user.$inferSelect;
 export type Bet = typeof bet.$inferSelect;
 export type UserGameSession = typeof userGameSession.$inferSelect;
+export type SeedPair = typeof seedPair.$inferSelect;
+export type GameRound = typeof gameRound.$inferSelect;
+export type CrashChain = typeof crashChain.$inferSelect;
+export type CrashRound = typeof crashRound.$inferSelect;
+export type CrashBet = typeof crashBet.$inferSelect;
+export type AutoBetSession = typeof autoBetSession.$inferSelect;
+export type WalletTransaction = typeof transaction.$inferSelect;
+export type LedgerReconciliation = typeof ledgerReconciliation.$inferSelect;
+export type GameConfigRow = typeof gameConfig.$inferSelect;
+export type Bankroll = typeof bankroll.$inferSelect;
+export type BankrollMovement = typeof bankrollMovement.$inferSelect;
+export type AuditLogEntry = typeof auditLog.$inferSelect;
+export type GamblingLimit = typeof gamblingLimit.$inferSelect;
 export type PublicUser = Omit<User, 'passwordHash'>;
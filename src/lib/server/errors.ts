@@ -9,17 +9,20 @@ export class AppError extends Error {
 	public readonly statusCode: number;
 	public readonly isOperational: boolean;
 	public readonly timestamp: Date;
+	public readonly code?: string; // Machine-readable reason for errors a client can act on
 
 	constructor(
 		message: string,
 		statusCode: number = 500,
-		isOperational: boolean = true
+		isOperational: boolean = true,
+		code?: string
 	) {
 		super(message);
 		this.name = this.constructor.name;
 		this.statusCode = statusCode;
 		this.isOperational = isOperational;
 		this.timestamp = new Date();
+		this.code = code;
 
 		Error.captureStackTrace(this, this.constructor);
 	}
@@ -56,8 +59,8 @@ export class RateLimitError extends AppError {
 }
 
 export class GameError extends AppError {
-	constructor(message: string) {
-		super(message, 400);
+	constructor(message: string, code?: string) {
+		super(message, 400, true, code);
 	}
 }
 
@@ -73,6 +76,7 @@ export function handleError(error: unknown, headers?: Record<string, string>): R
 			{
 				success: false,
 				error: error.message,
+				...(error.code && { code: error.code }),
 				timestamp: error.timestamp.toISOString(),
 				...(isDevelopment && { stack: error.stack })
 			},
@@ -0,0 +1,226 @@
+/**
+ * Responsible gambling limits.
+ * Users cap how much they wager and how much they lose per day, week or month (UTC calendar
+ * periods, weeks starting on Monday). Usage comes from the wallet ledger: the wager is the stakes
+ * debited in the period and the loss is those stakes less the payouts credited. Every stake is
+ * checked inside the transaction that debits it, counting the whole stake as a possible loss.
+ * Lowering a limit applies at once; raising or removing one waits out a cooling-off period.
+ */
+
+import { z } from 'zod';
+import { and, eq, gte, inArray, lte, sql } from 'drizzle-orm';
+import { db, type Transaction } from '$lib/server/db';
+import * as table from '$lib/server/db/schema';
+import { GameError } from '$lib/server/errors';
+import { formatMoney } from '$lib/utils/money';
+
+export type LimitType = table.GamblingLimit['type'];
+export type LimitPeriod = table.GamblingLimit['period'];
+
+export const LIMIT_TYPES = table.gamblingLimit.type.enumValues;
+export const LIMIT_PERIODS = table.gamblingLimit.period.enumValues;
+
+export const LIMIT_INCREASE_DELAY_MS = 24 * 60 * 60 * 1000;
+
+// Sent with the rejection so clients can tell a limit apart from other bet errors
+export const LIMIT_ERROR_CODES: Record<LimitType, string> = {
+	wager: 'WAGER_LIMIT_EXCEEDED',
+	loss: 'LOSS_LIMIT_EXCEEDED'
+};
+
+export const limitUpdateSchema = z.object({
+	type: z.enum(LIMIT_TYPES),
+	period: z.enum(LIMIT_PERIODS),
+	amount: z.number().int().positive().nullable() // Minor units; null removes the limit
+});
+
+export type LimitUpdate = z.infer<typeof limitUpdateSchema>;
+
+export interface LimitStatus {
+	type: LimitType;
+	period: LimitPeriod;
+	amount: number | null;
+	used: number; // Wagered, or net loss, so far this period
+	remaining: number | null; // Null when no limit applies
+	resetsAt: Date;
+	pending: { amount: number | null; at: Date } | null; // An increase waiting to apply
+}
+
+interface Usage {
+	wagered: number;
+	lost: number; // Negative while the user is up on the period
+}
+
+/**
+ * The start of the calendar period containing `now`, in UTC
+ */
+export function getPeriodStart(period: LimitPeriod, now: Date): Date {
+	const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+
+	if (period === 'weekly') {
+		start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+	} else if (period === 'monthly') {
+		start.setUTCDate(1);
+	}
+
+	return start;
+}
+
+function getPeriodEnd(period: LimitPeriod, now: Date): Date {
+	const end = getPeriodStart(period, now);
+
+	if (period === 'daily') {
+		end.setUTCDate(end.getUTCDate() + 1);
+	} else if (period === 'weekly') {
+		end.setUTCDate(end.getUTCDate() + 7);
+	} else {
+		end.setUTCMonth(end.getUTCMonth() + 1);
+	}
+
+	return end;
+}
+
+/**
+ * Apply the user's increases whose cooling-off period is over
+ */
+function applyDueChanges(tx: Transaction, userId: string, now: Date): void {
+	tx.update(table.gamblingLimit)
+		.set({
+			amount: sql`${table.gamblingLimit.pendingAmount}`,
+			pendingAmount: null,
+			pendingAt: null,
+			updatedAt: now
+		})
+		.where(and(eq(table.gamblingLimit.userId, userId), lte(table.gamblingLimit.pendingAt, now)))
+		.run();
+}
+
+function getLimitRows(tx: Transaction, userId: string, now: Date): table.GamblingLimit[] {
+	applyDueChanges(tx, userId, now);
+	return tx.select().from(table.gamblingLimit).where(eq(table.gamblingLimit.userId, userId)).all();
+}
+
+function getUsage(tx: Transaction, userId: string, since: Date): Usage {
+	const entry = table.transaction;
+	const { stakes, payouts } = tx
+		.select({
+			stakes: sql<number>`coalesce(sum(case when ${entry.type} = 'bet_stake' then -${entry.amount} else 0 end), 0)`,
+			payouts: sql<number>`coalesce(sum(case when ${entry.type} = 'bet_payout' then ${entry.amount} else 0 end), 0)`
+		})
+		.from(entry)
+		.where(
+			and(
+				eq(entry.userId, userId),
+				eq(entry.account, 'wallet'),
+				inArray(entry.type, ['bet_stake', 'bet_payout']),
+				gte(entry.createdAt, since)
+			)
+		)
+		.get()!;
+
+	return { wagered: stakes, lost: stakes - payouts };
+}
+
+function usageFor(type: LimitType, usage: Usage): number {
+	return type === 'wager' ? usage.wagered : usage.lost;
+}
+
+/**
+ * Reject a stake that would take the user past any of their limits. Call it inside the
+ * transaction that debits the stake.
+ */
+export function assertWithinLimits(
+	tx: Transaction,
+	userId: string,
+	stake: number,
+	now: Date = new Date()
+): void {
+	const usage = new Map<LimitPeriod, Usage>();
+
+	for (const limit of getLimitRows(tx, userId, now)) {
+		if (limit.amount === null) continue;
+
+		if (!usage.has(limit.period)) {
+			usage.set(limit.period, getUsage(tx, userId, getPeriodStart(limit.period, now)));
+		}
+		const used = usageFor(limit.type, usage.get(limit.period)!);
+
+		if (used + stake > limit.amount) {
+			const left = formatMoney(Math.max(0, limit.amount - used));
+			throw new GameError(
+				`This bet would exceed your ${limit.period} ${limit.type} limit (${left} left)`,
+				LIMIT_ERROR_CODES[limit.type]
+			);
+		}
+	}
+}
+
+function listLimits(tx: Transaction, userId: string, now: Date): LimitStatus[] {
+	const rows = getLimitRows(tx, userId, now);
+
+	return LIMIT_PERIODS.flatMap((period) => {
+		const usage = getUsage(tx, userId, getPeriodStart(period, now));
+
+		return LIMIT_TYPES.map((type) => {
+			const row = rows.find((limit) => limit.type === type && limit.period === period);
+			const amount = row?.amount ?? null;
+			const used = usageFor(type, usage);
+
+			return {
+				type,
+				period,
+				amount,
+				used: Math.max(0, used),
+				remaining: amount === null ? null : Math.max(0, amount - used),
+				resetsAt: getPeriodEnd(period, now),
+				pending: row?.pendingAt ? { amount: row.pendingAmount, at: row.pendingAt } : null
+			};
+		});
+	});
+}
+
+/**
+ * Every limit the user can set, with their usage this period and any pending increase
+ */
+export function getLimits(userId: string, now: Date = new Date()): LimitStatus[] {
+	return db.transaction((tx) => listLimits(tx, userId, now));
+}
+
+/**
+ * Set one of the user's limits. A lower limit, or a first one, applies immediately and cancels
+ * any pending increase; a higher limit or a removal applies after `LIMIT_INCREASE_DELAY_MS`.
+ */
+export function setLimit(
+	userId: string,
+	{ type, period, amount }: LimitUpdate,
+	now: Date = new Date()
+): LimitStatus[] {
+	return db.transaction((tx) => {
+		const current =
+			getLimitRows(tx, userId, now).find((limit) => limit.type === type && limit.period === period)
+				?.amount ?? null;
+		const isIncrease = current !== null && (amount === null || amount > current);
+
+		const change = isIncrease
+			? { pendingAmount: amount, pendingAt: new Date(now.getTime() + LIMIT_INCREASE_DELAY_MS) }
+			: { amount, pendingAmount: null, pendingAt: null };
+
+		tx.insert(table.gamblingLimit)
+			.values({
+				id: crypto.randomUUID(),
+				userId,
+				type,
+				period,
+				amount: current,
+				...change,
+				updatedAt: now
+			})
+			.onConflictDoUpdate({
+				target: [table.gamblingLimit.userId, table.gamblingLimit.type, table.gamblingLimit.period],
+				set: { ...change, updatedAt: now }
+			})
+			.run();
+
+		return listLimits(tx, userId, now);
+	});
+}
@@ -0,0 +1,150 @@
+/**
+ * Runtime game settings: house edge, bet limits, the payout cap and whether a game can be played.
+ * Each game plays on the defaults here until an admin saves a `game_config` row for it. Bets read
+ * the settings inside their own transaction, so a change applies from the next bet placed.
+ */
+
+import { z } from 'zod';
+import { eq } from 'drizzle-orm';
+import { db, type Transaction } from '$lib/server/db';
+import * as table from '$lib/server/db/schema';
+import { GameError, NotFoundError, ValidationError } from '$lib/server/errors';
+import { getGame, listGames, type RegisteredGame } from '$lib/server/games';
+import { recordAudit, type AuditActor } from '$lib/server/audit';
+import { formatMoney } from '$lib/utils/money';
+
+export interface GameConfig {
+	houseEdge: number | null; // Percent; null for games whose paytable fixes the edge
+	minBet: number; // Minor units
+	maxBet: number; // Minor units
+	maxPayout: number; // Minor units; larger payouts are paid at this cap
+	enabled: boolean;
+}
+
+export interface GameConfigEntry {
+	type: string;
+	name: string;
+	config: GameConfig;
+}
+
+export const DEFAULT_GAME_LIMITS = {
+	minBet: 1, // 0.01
+	maxBet: 10_000_000, // 100,000.00
+	maxPayout: 100_000_000 // 1,000,000.00
+};
+
+export const gameConfigSchema = z
+	.object({
+		houseEdge: z.number().finite().min(0).max(50).nullable(),
+		minBet: z.number().int().min(1),
+		maxBet: z.number().int().min(1),
+		maxPayout: z.number().int().min(1),
+		enabled: z.boolean()
+	})
+	.refine((config) => config.maxBet >= config.minBet, {
+		message: 'Max bet must not be below min bet',
+		path: ['maxBet']
+	});
+
+function defaultConfig(game: RegisteredGame): GameConfig {
+	return { houseEdge: game.houseEdge ?? null, ...DEFAULT_GAME_LIMITS, enabled: true };
+}
+
+function requireGame(gameType: string): RegisteredGame {
+	const game = getGame(gameType);
+	if (!game) {
+		throw new NotFoundError('Game not found');
+	}
+	return game;
+}
+
+/**
+ * A game's current settings: the saved row if an admin has changed them, otherwise the defaults
+ */
+export function getGameConfig(tx: Transaction, gameType: string): GameConfig {
+	const game = requireGame(gameType);
+	const row = tx
+		.select()
+		.from(table.gameConfig)
+		.where(eq(table.gameConfig.gameType, gameType))
+		.get();
+
+	if (!row) {
+		return defaultConfig(game);
+	}
+
+	return {
+		// An edge only applies to games priced from one
+		houseEdge: game.houseEdge === undefined ? null : (row.houseEdge ?? game.houseEdge),
+		minBet: row.minBet,
+		maxBet: row.maxBet,
+		maxPayout: row.maxPayout,
+		enabled: row.enabled
+	};
+}
+
+/**
+ * Every registered game with its current settings
+ */
+export function listGameConfigs(tx: Transaction): GameConfigEntry[] {
+	return listGames().map((game) => ({
+		type: game.type,
+		name: game.metadata.name,
+		config: getGameConfig(tx, game.type)
+	}));
+}
+
+/**
+ * Save new settings for a game. The house edge must be set for games priced from one and left
+ * null for the rest.
+ */
+export function updateGameConfig(
+	gameType: string,
+	config: GameConfig,
+	actor: AuditActor
+): GameConfig {
+	const game = requireGame(gameType);
+
+	if (game.houseEdge === undefined && config.houseEdge !== null) {
+		throw new ValidationError(`${game.metadata.name} has a fixed paytable and no house edge`);
+	}
+	if (game.houseEdge !== undefined && config.houseEdge === null) {
+		throw new ValidationError(`${game.metadata.name} needs a house edge`);
+	}
+
+	const values = { ...config, updatedAt: new Date() };
+
+	return db.transaction((tx) => {
+		const before = getGameConfig(tx, gameType);
+		tx.insert(table.gameConfig)
+			.values({ gameType, ...values })
+			.onConflictDoUpdate({ target: table.gameConfig.gameType, set: values })
+			.run();
+
+		const after = getGameConfig(tx, gameType);
+		recordAudit(tx, actor, {
+			action: 'game_config_update',
+			targetType: 'game',
+			targetId: gameType,
+			before: { ...before },
+			after: { ...after }
+		});
+
+		return after;
+	});
+}
+
+/**
+ * Reject a stake the game's settings do not allow
+ */
+export function assertBetAllowed(gameType: string, config: GameConfig, amount: number): void {
+	if (!config.enabled) {
+		throw new GameError(`${requireGame(gameType).metadata.name} is currently disabled`);
+	}
+	if (amount < config.minBet) {
+		throw new GameError(`Minimum bet is ${formatMoney(config.minBet)}`);
+	}
+	if (amount > config.maxBet) {
+		throw new GameError(`Maximum bet is ${formatMoney(config.maxBet)}`);
+	}
+}
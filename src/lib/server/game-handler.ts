@@ -3,22 +3,24 @@
  */
 
 import { json } from '@sveltejs/kit';
-import { eq, sql } from 'drizzle-orm';
+import { eq } from 'drizzle-orm';
 import type { RequestEvent } from '@sveltejs/kit';
 import { db } from '$lib/server/db';
 import * as table from '$lib/server/db/schema';
 import * as auth from '$lib/server/auth';
 import { isRateLimited, RATE_LIMITS, getRateLimitHeaders } from '$lib/server/rate-limiter';
 import { handleCSRF } from '$lib/server/csrf';
-import {
-	generateServerSeed,
-	generateClientSeed,
-	type ProvablyFairData
-} from '$lib/server/provably-fair';
+import { getActiveSeedPairs, incrementNonce, toPublicSeedPair } from '$lib/server/seed-pair';
+import { AppError, GameError } from '$lib/server/errors';
+import { postTransfer } from '$lib/server/ledger';
+import { assertBetAllowed, getGameConfig } from '$lib/server/game-config';
+import { assertProfitAllowed, getPayoutLimit, recordBetSettlement } from '$lib/server/bankroll';
+import { assertWithinLimits } from '$lib/server/gambling-limits';
+import { DEFAULT_HOUSE_EDGE } from '$lib/server/provably-fair';
+import type { GameDefinition } from '$lib/server/games/registry';
 
 export interface GameBetRequest {
 	amount: number;
-	clientSeed?: string;
 	[key: string]: any; // Allow additional game-specific parameters
 }
 
@@ -26,6 +28,7 @@ export interface GameBetResult {
 	betId: string;
 	win: boolean;
 	payout: number;
+	multiplier: number;
 	newBalance: number;
 	serverSeedHash: string;
 	clientSeed: string;
@@ -35,11 +38,15 @@ export interface GameBetResult {
 
 export interface GameLogic<TRequest extends GameBetRequest, TResult extends GameBetResult> {
 	validateBet: (request: TRequest, userBalance: number) => { valid: boolean; error?: string };
+	/**
+	 * Settle the bet. `houseEdge` is the game's current edge in percent, for games priced from one.
+	 */
 	calculateResult: (
 		serverSeed: string,
 		clientSeed: string,
 		nonce: number,
-		request: TRequest
+		request: TRequest,
+		houseEdge: number
 	) => {
 		win: boolean;
 		payout: number;
@@ -48,7 +55,132 @@ export interface GameLogic<TRequest extends GameBetRequest, TResult extends Game
 		result: number;
 		[key: string]: unknown;
 	};
-	gameType: 'dice' | 'flip';
+	/**
+	 * What a win pays for games that know it before the result, so a bet that could profit more
+	 * than the bankroll allows is rejected up front rather than paid at the limit
+	 */
+	winMultiplier?: (request: TRequest, houseEdge: number) => number;
+}
+
+/**
+ * Settle one bet on an instant game for a user: check it against the game's settings, the
+ * bankroll and the user's wager and loss limits, commit the next nonce, re-check the balance,
+ * write the bet row and apply the payout in a single transaction. Throws a GameError when the bet
+ * is rejected and 'Insufficient balance' when the balance is short.
+ */
+export function placeGameBet<TRequest extends GameBetRequest, TResult extends GameBetResult>(
+	userId: string,
+	game: GameDefinition<TRequest, TResult>,
+	betRequest: TRequest
+): TResult {
+	// Use database transaction to prevent race conditions
+	return db.transaction((tx) => {
+		const config = getGameConfig(tx, game.type);
+		const houseEdge = config.houseEdge ?? DEFAULT_HOUSE_EDGE;
+		assertBetAllowed(game.type, config, betRequest.amount);
+		if (game.logic.winMultiplier) {
+			assertProfitAllowed(tx, betRequest.amount, game.logic.winMultiplier(betRequest, houseEdge));
+		}
+		assertWithinLimits(tx, userId, betRequest.amount);
+
+		// Play on the user's committed seed pair so the server seed hash is known before betting
+		const { active: seedPair } = getActiveSeedPairs(tx, userId);
+		const { serverSeed, serverSeedHash, clientSeed } = seedPair;
+		const nonce = incrementNonce(tx, seedPair);
+
+		// Re-check user balance within transaction
+		const currentUser = tx
+			.select({ balance: table.user.balance })
+			.from(table.user)
+			.where(eq(table.user.id, userId))
+			.all();
+
+		if (currentUser.length === 0 || currentUser[0].balance < betRequest.amount) {
+			throw new Error('Insufficient balance');
+		}
+
+		// Validate bet parameters
+		const validation = game.logic.validateBet(betRequest, currentUser[0].balance);
+		if (!validation.valid) {
+			throw new GameError(validation.error ?? 'Invalid bet parameters');
+		}
+
+		// Calculate game result, paying anything above the game's cap or the bankroll's limit at it
+		const gameResult = game.logic.calculateResult(
+			serverSeed,
+			clientSeed,
+			nonce,
+			betRequest,
+			houseEdge
+		);
+		const payoutLimit = getPayoutLimit(tx, config, betRequest.amount);
+		if (gameResult.payout > payoutLimit) {
+			gameResult.payout = payoutLimit;
+			gameResult.gameData = { ...gameResult.gameData, payoutCap: payoutLimit };
+		}
+
+		// Generate bet ID
+		const betId = crypto.randomUUID();
+
+		// Insert bet record
+		tx.insert(table.bet)
+			.values({
+				id: betId,
+				userId,
+				gameType: game.type,
+				amount: betRequest.amount,
+				multiplier: gameResult.multiplier,
+				win: gameResult.win,
+				payout: gameResult.payout,
+				serverSeed,
+				serverSeedHash,
+				clientSeed,
+				nonce,
+				seedPairId: seedPair.id,
+				gameData: JSON.stringify(gameResult.gameData),
+				result: gameResult.result
+			})
+			.run();
+		recordBetSettlement(tx, {
+			betId,
+			gameType: game.type,
+			stake: betRequest.amount,
+			payout: gameResult.payout
+		});
+
+		// Debit the stake and credit any payout through the ledger
+		let newBalance = postTransfer(tx, {
+			type: 'bet_stake',
+			userId,
+			amount: -betRequest.amount,
+			reference: betId
+		});
+		if (gameResult.payout > 0) {
+			newBalance = postTransfer(tx, {
+				type: 'bet_payout',
+				userId,
+				amount: gameResult.payout,
+				reference: betId
+			});
+		}
+
+		// Create the base result with common fields
+		const baseResult = {
+			betId,
+			win: gameResult.win,
+			payout: gameResult.payout,
+			multiplier: gameResult.multiplier,
+			newBalance,
+			serverSeedHash,
+			clientSeed,
+			nonce
+		};
+
+		// Create game-specific result excluding common fields
+		const { win, payout, multiplier, gameData, result, ...gameSpecificResult } = gameResult;
+
+		return { ...baseResult, ...gameSpecificResult } as TResult;
+	});
 }
 
 /**
@@ -56,7 +188,7 @@ export interface GameLogic<TRequest extends GameBetRequest, TResult extends Game
  */
 export async function handleGameBet<TRequest extends GameBetRequest, TResult extends GameBetResult>(
 	event: RequestEvent,
-	gameLogic: GameLogic<TRequest, TResult>
+	game: GameDefinition<TRequest, TResult>
 ): Promise<Response> {
 	try {
 		// CSRF Protection
@@ -88,134 +220,39 @@ export async function handleGameBet<TRequest extends GameBetRequest, TResult ext
 		}
 
 		// Parse request body
-		let betRequest: TRequest;
+		let body: unknown;
 		try {
-			betRequest = await event.request.json();
+			body = await event.request.json();
 		} catch {
 			return json({ success: false, error: 'Invalid request body' }, { status: 400, headers });
 		}
 
+		const parsed = game.requestSchema.safeParse(body);
+		if (!parsed.success) {
+			return json({ success: false, error: 'Invalid bet parameters' }, { status: 400, headers });
+		}
+		const betRequest = parsed.data;
+
 		// Validate bet parameters
-		const validation = gameLogic.validateBet(betRequest, user.balance);
+		const validation = game.logic.validateBet(betRequest, user.balance);
 		if (!validation.valid) {
 			return json({ success: false, error: validation.error }, { status: 400, headers });
 		}
 
-		// Generate provably fair data
-		const { seed: serverSeed, hash: serverSeedHash } = generateServerSeed();
-		const finalClientSeed = betRequest.clientSeed || generateClientSeed();
-
-		// Use database transaction to prevent race conditions
-		const result = db.transaction((tx) => {
-			// Get user's current nonce (with row-level locking)
-			const userSessionResult = tx
-				.select()
-				.from(table.userGameSession)
-				.where(eq(table.userGameSession.userId, user.id))
-				.all();
-
-			let currentNonce = 0;
-			if (userSessionResult.length === 0) {
-				// Create new session for user
-				tx.insert(table.userGameSession)
-					.values({
-						userId: user.id,
-						currentNonce: 0
-					})
-					.run();
-			} else {
-				currentNonce = userSessionResult[0].currentNonce;
-			}
-
-			const nonce = currentNonce + 1;
-
-			// Re-check user balance within transaction
-			const currentUser = tx
-				.select({ balance: table.user.balance })
-				.from(table.user)
-				.where(eq(table.user.id, user.id))
-				.all();
-
-			if (currentUser.length === 0 || currentUser[0].balance < betRequest.amount) {
-				throw new Error('Insufficient balance');
+		try {
+			const result = placeGameBet(user.id, game, betRequest);
+			return json({ success: true, result }, { headers });
+		} catch (error) {
+			if (error instanceof AppError) {
+				return json(
+					{ success: false, error: error.message, ...(error.code && { code: error.code }) },
+					{ status: error.statusCode, headers }
+				);
 			}
-
-			// Calculate game result
-			const gameResult = gameLogic.calculateResult(serverSeed, finalClientSeed, nonce, betRequest);
-			const balanceChange = gameResult.payout - betRequest.amount;
-
-			// Generate bet ID
-			const betId = crypto.randomUUID();
-
-			// Insert bet record
-			tx.insert(table.bet)
-				.values({
-					id: betId,
-					userId: user.id,
-					gameType: gameLogic.gameType,
-					amount: betRequest.amount,
-					multiplier: gameResult.multiplier,
-					win: gameResult.win,
-					payout: gameResult.payout,
-					serverSeed,
-					serverSeedHash,
-					clientSeed: finalClientSeed,
-					nonce,
-					gameData: JSON.stringify(gameResult.gameData),
-					result: gameResult.result
-				})
-				.run();
-
-			// Update user balance
-			tx.update(table.user)
-				.set({
-					balance: sql`${table.user.balance} + ${balanceChange}`
-				})
-				.where(eq(table.user.id, user.id))
-				.run();
-
-			// Update user nonce
-			tx.update(table.userGameSession)
-				.set({
-					currentNonce: nonce,
-					updatedAt: new Date()
-				})
-				.where(eq(table.userGameSession.userId, user.id))
-				.run();
-
-			// Get updated balance
-			const updatedUser = tx
-				.select({ balance: table.user.balance })
-				.from(table.user)
-				.where(eq(table.user.id, user.id))
-				.all();
-
-			// Create the base result with common fields
-			const baseResult = {
-				betId,
-				win: gameResult.win,
-				payout: Math.round(gameResult.payout * 100) / 100,
-				newBalance: Math.round(updatedUser[0].balance * 100) / 100,
-				serverSeedHash,
-				clientSeed: finalClientSeed,
-				nonce
-			};
-
-			// Create game-specific result excluding common fields
-			const { win, payout, multiplier, gameData, result, ...gameSpecificResult } = gameResult;
-
-			return { ...baseResult, ...gameSpecificResult } as TResult;
-		});
-
-		return json(
-			{
-				success: true,
-				result
-			},
-			{ headers }
-		);
+			throw error;
+		}
 	} catch (error) {
-		console.error(`${gameLogic.gameType} bet error:`, error);
+		console.error(`${game.type} bet error:`, error);
 
 		// Return appropriate error message
 		if (error instanceof Error) {
@@ -231,10 +268,7 @@ export async function handleGameBet<TRequest extends GameBetRequest, TResult ext
 /**
  * Generic GET handler for game data endpoints
  */
-export async function handleGameData(
-	event: RequestEvent,
-	gameType: 'dice' | 'flip'
-): Promise<Response> {
+export async function handleGameData(event: RequestEvent, game: GameDefinition): Promise<Response> {
 	try {
 		const sessionToken = auth.getSessionToken(event);
 		if (!sessionToken) {
@@ -246,27 +280,21 @@ export async function handleGameData(
 			return json({ success: false, error: 'Invalid session' }, { status: 401 });
 		}
 
-		// Get user's current nonce
-		const userSession = await db
-			.select()
-			.from(table.userGameSession)
-			.where(eq(table.userGameSession.userId, user.id));
-
-		const nonce = userSession.length > 0 ? userSession[0].currentNonce + 1 : 1;
-
-		// Generate next server seed hash for transparency
-		const { hash: nextServerSeedHash } = generateServerSeed();
+		// Expose only the hashes of the committed server seeds
+		const seedPair = db.transaction((tx) => toPublicSeedPair(getActiveSeedPairs(tx, user.id)));
 
 		return json({
 			success: true,
 			data: {
-				nextNonce: nonce,
-				nextServerSeedHash,
+				nextNonce: seedPair.nonce + 1,
+				clientSeed: seedPair.clientSeed,
+				serverSeedHash: seedPair.serverSeedHash,
+				nextServerSeedHash: seedPair.nextServerSeedHash,
 				balance: user.balance
 			}
 		});
 	} catch (error) {
-		console.error(`Get ${gameType} data error:`, error);
+		console.error(`Get ${game.type} data error:`, error);
 		return json({ success: false, error: 'Internal server error' }, { status: 500 });
 	}
 }
@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeAll } from 'bun:test';
+import { generateClientSeed, generateServerSeed } from '$lib/server/provably-fair';
+import { mockEnvironment } from '$lib/server/__tests__/test-utils';
+
+let games: typeof import('$lib/server/games');
+
+beforeAll(async () => {
+	mockEnvironment();
+	games = await import('$lib/server/games');
+});
+
+// One valid bet per instant game
+const requests: Record<string, Record<string, unknown>> = {
+	dice: { amount: 1, betType: 'under', target: 50 },
+	flip: { amount: 1, side: 'cat' },
+	limbo: { amount: 1, target: 2 },
+	plinko: { amount: 1, rows: 12, risk: 'medium' },
+	roulette: {
+		chips: [
+			{ type: 'straight', numbers: [17], amount: 1 },
+			{ type: 'red', amount: 2 }
+		]
+	},
+	keno: { amount: 1, picks: [3, 7, 12, 25, 40], risk: 'classic' },
+	wheel: { amount: 1, segments: 30, risk: 'medium' }
+};
+
+describe('Game registry', () => {
+	it('should register every game once', () => {
+		const types = games.listGames().map((game) => game.type);
+
+		expect(types).toEqual(
+			expect.arrayContaining([
+				...Object.keys(requests),
+				'mines',
+				'crash',
+				'blackjack',
+				'hilo',
+				'tower'
+			])
+		);
+		expect(new Set(types).size).toBe(types.length);
+		expect(games.isGameType('dice')).toBe(true);
+		expect(games.isGameType('unknown-game')).toBe(false);
+		expect(games.isGameType(null)).toBe(false);
+	});
+
+	// Played at a non-default house edge, which limbo's result depends on
+	it.each(Object.keys(requests))('should derive the settled %s result', (type: string) => {
+		const game = games.getGame(type);
+		if (game?.kind !== 'instant') throw new Error(`${type} is not an instant game`);
+
+		const request = game.requestSchema.parse(requests[type]);
+		const { seed } = generateServerSeed();
+		const clientSeed = generateClientSeed();
+
+		for (let nonce = 1; nonce <= 20; nonce++) {
+			const settled = game.logic.calculateResult(seed, clientSeed, nonce, request, 3);
+			const derived = game.deriveResult(seed, clientSeed, nonce, settled.gameData);
+
+			expect(derived.result).toBe(settled.result);
+		}
+	});
+
+	it('should reject requests that do not match the game schema', () => {
+		const dice = games.getGame('dice')!;
+
+		expect(
+			dice.requestSchema.safeParse({ amount: 1, betType: 'sideways', target: 50 }).success
+		).toBe(false);
+		expect(dice.requestSchema.safeParse({ amount: '1', betType: 'over', target: 50 }).success).toBe(
+			false
+		);
+	});
+});
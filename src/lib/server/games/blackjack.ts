@@ -0,0 +1,281 @@
+import { z } from 'zod';
+import { betRequestSchema, type RoundGameDefinition } from './registry';
+import type { RoundSettlement } from '$lib/server/round-handler';
+import { GameError } from '$lib/server/errors';
+import { generateBlackjackShoe, validateBlackjackBet } from '$lib/server/provably-fair';
+import { BLACKJACK_NATURAL_MULTIPLIER, getHandValue, isBlackjack } from '$lib/utils/blackjack';
+import { getCardRank } from '$lib/utils/cards';
+import { multiplyMoney } from '$lib/utils/money';
+
+const blackjackActionSchema = z.discriminatedUnion('action', [
+	z.object({ action: z.literal('hit') }),
+	z.object({ action: z.literal('stand') }),
+	z.object({ action: z.literal('double') }),
+	z.object({ action: z.literal('split') }),
+	z.object({ action: z.literal('insurance'), accept: z.boolean() })
+]);
+
+type BlackjackBetRequest = z.infer<typeof betRequestSchema>;
+type BlackjackAction = z.infer<typeof blackjackActionSchema>;
+
+interface BlackjackHand {
+	cards: number[];
+	stake: number;
+	doubled: boolean;
+	done: boolean;
+}
+
+interface BlackjackState extends Record<string, unknown> {
+	stake: number; // The opening bet; split and double stakes are kept on each hand
+	cursor: number; // Position of the next card in the shoe
+	dealer: number[]; // The second card is the hole card, hidden until the round settles
+	hands: BlackjackHand[];
+	activeHand: number;
+	insurance: number; // Insurance stake, 0 unless the player took it
+	phase: 'insurance' | 'player' | 'settled';
+	actions: BlackjackAction[]; // Every player action in order, so the hand can be replayed from the shoe
+}
+
+function drawCard(shoe: number[], state: BlackjackState): number {
+	return shoe[state.cursor++];
+}
+
+/**
+ * Deal a card to a hand; a hand that reaches 21 or busts needs no more decisions
+ */
+function dealTo(shoe: number[], state: BlackjackState, hand: BlackjackHand): void {
+	hand.cards.push(drawCard(shoe, state));
+	if (getHandValue(hand.cards).total >= 21) {
+		hand.done = true;
+	}
+}
+
+/**
+ * The dealer checks the hole card for blackjack; either side's natural ends the hand at once
+ */
+function peek(state: BlackjackState): BlackjackState {
+	if (isBlackjack(state.dealer) || isBlackjack(state.hands[0].cards)) {
+		state.hands[0].done = true;
+		state.phase = 'settled';
+	} else {
+		state.phase = 'player';
+	}
+
+	return state;
+}
+
+/**
+ * Move on to the next undecided hand, or play out the dealer once every hand is done.
+ * The dealer draws to 17 and stands on all 17s, and does not draw when every hand has bust.
+ */
+function advance(shoe: number[], state: BlackjackState): void {
+	const next = state.hands.findIndex((hand) => !hand.done);
+	if (next !== -1) {
+		state.activeHand = next;
+		return;
+	}
+
+	if (state.hands.some((hand) => getHandValue(hand.cards).total <= 21)) {
+		while (getHandValue(state.dealer).total < 17) {
+			state.dealer.push(drawCard(shoe, state));
+		}
+	}
+	state.phase = 'settled';
+}
+
+/**
+ * Deal the opening cards: player, dealer, player, dealer hole card
+ */
+function deal(shoe: number[], stake: number): BlackjackState {
+	const state: BlackjackState = {
+		stake,
+		cursor: 4,
+		dealer: [shoe[1], shoe[3]],
+		hands: [{ cards: [shoe[0], shoe[2]], stake, doubled: false, done: false }],
+		activeHand: 0,
+		insurance: 0,
+		phase: 'insurance',
+		actions: []
+	};
+
+	// Insurance is offered before the peek when the dealer shows an ace
+	return getCardRank(state.dealer[0]) === 0 ? state : peek(state);
+}
+
+/**
+ * Apply a player action to a copy of the state, returning any stake the action adds
+ */
+function applyAction(
+	shoe: number[],
+	current: BlackjackState,
+	action: BlackjackAction
+): { state: BlackjackState; additionalStake: number } {
+	const state = structuredClone(current);
+	state.actions.push(action);
+
+	if (action.action === 'insurance') {
+		if (state.phase !== 'insurance') {
+			throw new GameError('Insurance is not on offer');
+		}
+
+		state.insurance = action.accept ? Math.floor(state.stake / 2) : 0;
+		return { state: peek(state), additionalStake: state.insurance };
+	}
+
+	if (state.phase !== 'player') {
+		throw new GameError('Take or decline insurance first');
+	}
+
+	const hand = state.hands[state.activeHand];
+	let additionalStake = 0;
+
+	switch (action.action) {
+		case 'hit':
+			dealTo(shoe, state, hand);
+			break;
+		case 'stand':
+			hand.done = true;
+			break;
+		case 'double':
+			if (hand.cards.length !== 2) {
+				throw new GameError('You can only double down on your first two cards');
+			}
+
+			additionalStake = hand.stake;
+			hand.stake *= 2;
+			hand.doubled = true;
+			dealTo(shoe, state, hand);
+			hand.done = true;
+			break;
+		case 'split': {
+			const [first, second] = hand.cards;
+			if (
+				state.hands.length !== 1 ||
+				hand.cards.length !== 2 ||
+				getCardRank(first) !== getCardRank(second)
+			) {
+				throw new GameError('Only an opening pair can be split');
+			}
+
+			additionalStake = hand.stake;
+			state.hands = [first, second].map((card) => ({
+				cards: [card],
+				stake: hand.stake,
+				doubled: false,
+				done: false
+			}));
+			for (const splitHand of state.hands) {
+				dealTo(shoe, state, splitHand);
+				// Split aces take one card each
+				if (getCardRank(first) === 0) splitHand.done = true;
+			}
+			break;
+		}
+	}
+
+	advance(shoe, state);
+	return { state, additionalStake };
+}
+
+/**
+ * What a hand returns as a multiple of its stake, against the dealer's final hand.
+ * A natural pays 3:2, but 21 on two cards after a split counts as an ordinary 21.
+ */
+function getHandMultiplier(hand: BlackjackHand, dealer: number[], split: boolean): number {
+	const player = getHandValue(hand.cards).total;
+	const dealerTotal = getHandValue(dealer).total;
+	const natural = !split && isBlackjack(hand.cards);
+
+	if (player > 21) return 0;
+	if (isBlackjack(dealer)) return natural ? 1 : 0;
+	if (natural) return BLACKJACK_NATURAL_MULTIPLIER;
+	if (dealerTotal > 21 || player > dealerTotal) return 2;
+	return player === dealerTotal ? 1 : 0;
+}
+
+function getTotalStake(state: BlackjackState): number {
+	return state.hands.reduce((sum, hand) => sum + hand.stake, state.insurance);
+}
+
+function settle(state: BlackjackState): RoundSettlement {
+	const split = state.hands.length > 1;
+	// Insurance pays 2:1 when the dealer has blackjack
+	const insurancePayout = isBlackjack(state.dealer) ? state.insurance * 3 : 0;
+	const payout = state.hands.reduce(
+		(sum, hand) => sum + multiplyMoney(hand.stake, getHandMultiplier(hand, state.dealer, split)),
+		insurancePayout
+	);
+	const amount = getTotalStake(state);
+	const multiplier = payout / amount;
+
+	return {
+		// A push or an insured dealer blackjack only returns the stake
+		win: payout > amount,
+		payout,
+		multiplier,
+		result: multiplier
+	};
+}
+
+function toStep(state: BlackjackState, additionalStake = 0) {
+	return {
+		state,
+		additionalStake,
+		...(state.phase === 'settled' && { settlement: settle(state) })
+	};
+}
+
+export const blackjackGame: RoundGameDefinition<
+	BlackjackBetRequest,
+	BlackjackState,
+	BlackjackAction
+> = {
+	type: 'blackjack',
+	kind: 'round',
+	metadata: {
+		name: 'Blackjack',
+		description: 'Beat the dealer to 21 with hit, stand, double, split and insurance',
+		path: '/game/blackjack'
+	},
+	requestSchema: betRequestSchema,
+	actionSchema: blackjackActionSchema,
+	logic: {
+		validateStart: (request, userBalance) => validateBlackjackBet(request.amount, userBalance),
+		start: ({ serverSeed, clientSeed, nonce }, request) =>
+			toStep(deal(generateBlackjackShoe(serverSeed, clientSeed, nonce), request.amount)),
+		act: ({ serverSeed, clientSeed, nonce }, state, action) => {
+			const shoe = generateBlackjackShoe(serverSeed, clientSeed, nonce);
+			const next = applyAction(shoe, state, action);
+
+			return toStep(next.state, next.additionalStake);
+		},
+		toPublicState: (state, settled) => ({
+			stake: state.stake,
+			dealer: settled ? state.dealer : state.dealer.slice(0, 1),
+			hands: state.hands,
+			activeHand: state.activeHand,
+			insurance: state.insurance,
+			phase: state.phase,
+			actions: state.actions
+		})
+	},
+	deriveResult: (serverSeed, clientSeed, nonce, gameData) => {
+		const shoe = generateBlackjackShoe(serverSeed, clientSeed, nonce);
+		const actions = (gameData.actions as BlackjackAction[]) ?? [];
+
+		// Replay the recorded actions against the shoe
+		let state = deal(shoe, Number(gameData.stake));
+		for (const action of actions) {
+			state = applyAction(shoe, state, action).state;
+		}
+		const { multiplier, payout } = settle(state);
+
+		return {
+			result: multiplier,
+			payout,
+			cards: shoe.slice(0, state.cursor),
+			dealer: state.dealer,
+			hands: state.hands.map((hand) => hand.cards)
+		};
+	}
+};
@@ -0,0 +1,31 @@
+import { z } from 'zod';
+import { betRequestSchema, type SharedGameDefinition } from './registry';
+import { generateCrashPoint, hashCrashChainLink } from '$lib/server/provably-fair';
+
+const crashRequestSchema = betRequestSchema.extend({
+	// Optional cashout target, a multiplier with 2 decimal places
+	autoCashout: z
+		.number()
+		.finite()
+		.transform((target) => Math.round(target * 100) / 100)
+		.nullable()
+		.default(null)
+});
+
+type CrashBetRequest = z.infer<typeof crashRequestSchema>;
+
+export const crashGame: SharedGameDefinition<CrashBetRequest> = {
+	type: 'crash',
+	kind: 'shared',
+	metadata: {
+		name: 'Crash',
+		description: 'Join the shared round and cash out before the multiplier crashes',
+		path: '/game/crash'
+	},
+	requestSchema: crashRequestSchema,
+	// Crash bets store the round's chain hash as the server seed and the chain salt as the client seed
+	deriveResult: (serverSeed, clientSeed) => ({
+		result: generateCrashPoint(serverSeed, clientSeed),
+		previousHash: hashCrashChainLink(serverSeed)
+	})
+};
@@ -0,0 +1,65 @@
+import { z } from 'zod';
+import type { GameBetResult } from '$lib/server/game-handler';
+import { betRequestSchema, type GameDefinition } from './registry';
+import {
+	generateDiceRoll,
+	isDiceWin,
+	calculateDiceWinChance,
+	calculateMultiplier,
+	validateDiceBet,
+	DEFAULT_HOUSE_EDGE
+} from '$lib/server/provably-fair';
+import { multiplyMoney } from '$lib/utils/money';
+
+const diceRequestSchema = betRequestSchema.extend({
+	betType: z.enum(['over', 'under']),
+	target: z.number().finite()
+});
+
+type DiceBetRequest = z.infer<typeof diceRequestSchema>;
+
+interface DiceBetResult extends GameBetResult {
+	roll: number;
+}
+
+export const diceGame: GameDefinition<DiceBetRequest, DiceBetResult> = {
+	type: 'dice',
+	kind: 'instant',
+	metadata: {
+		name: 'Dice',
+		description: 'Roll over or under a target number',
+		path: '/game/dice'
+	},
+	houseEdge: DEFAULT_HOUSE_EDGE,
+	requestSchema: diceRequestSchema,
+	logic: {
+		validateBet: (request, userBalance) =>
+			validateDiceBet(request.amount, request.betType, request.target, userBalance),
+		calculateResult: (serverSeed, clientSeed, nonce, request, houseEdge) => {
+			const roll = generateDiceRoll(serverSeed, clientSeed, nonce);
+			const win = isDiceWin(roll, request.betType, request.target);
+			const winChance = calculateDiceWinChance(request.betType, request.target);
+			const multiplier = calculateMultiplier(winChance, houseEdge);
+			const payout = win ? multiplyMoney(request.amount, multiplier) : 0;
+
+			return {
+				win,
+				payout,
+				multiplier,
+				result: roll,
+				roll: Math.round(roll * 100) / 100, // Round to 2 decimal places
+				gameData: {
+					betType: request.betType,
+					target: request.target,
+					winChance,
+					houseEdge
+				}
+			};
+		},
+		winMultiplier: (request, houseEdge) =>
+			calculateMultiplier(calculateDiceWinChance(request.betType, request.target), houseEdge)
+	},
+	deriveResult: (serverSeed, clientSeed, nonce) => ({
+		result: generateDiceRoll(serverSeed, clientSeed, nonce)
+	})
+};
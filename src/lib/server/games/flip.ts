@@ -0,0 +1,63 @@
+import { z } from 'zod';
+import type { GameBetResult } from '$lib/server/game-handler';
+import { betRequestSchema, type GameDefinition } from './registry';
+import {
+	generateCoinFlip,
+	isCoinFlipWin,
+	calculateMultiplier,
+	validateCoinFlipBet,
+	DEFAULT_HOUSE_EDGE
+} from '$lib/server/provably-fair';
+import { multiplyMoney } from '$lib/utils/money';
+
+const flipRequestSchema = betRequestSchema.extend({
+	side: z.enum(['cat', 'dog'])
+});
+
+type CoinFlipBetRequest = z.infer<typeof flipRequestSchema>;
+
+interface CoinFlipBetResult extends GameBetResult {
+	flipResult: 'cat' | 'dog';
+}
+
+export const flipGame: GameDefinition<CoinFlipBetRequest, CoinFlipBetResult> = {
+	type: 'flip',
+	kind: 'instant',
+	metadata: {
+		name: 'Flip',
+		description: 'Call the coin: cat or dog',
+		path: '/game/flip'
+	},
+	houseEdge: DEFAULT_HOUSE_EDGE,
+	requestSchema: flipRequestSchema,
+	logic: {
+		validateBet: (request, userBalance) =>
+			validateCoinFlipBet(request.amount, request.side, userBalance),
+		calculateResult: (serverSeed, clientSeed, nonce, request, houseEdge) => {
+			const flipResultValue = generateCoinFlip(serverSeed, clientSeed, nonce);
+			const flipResult: 'cat' | 'dog' = flipResultValue === 0 ? 'cat' : 'dog';
+			const win = isCoinFlipWin(flipResultValue, request.side);
+			const winChance = 50; // Pays 1.98x at the default 1% house edge
+			const multiplier = calculateMultiplier(winChance, houseEdge);
+			const payout = win ? multiplyMoney(request.amount, multiplier) : 0;
+
+			return {
+				win,
+				payout,
+				multiplier,
+				result: flipResultValue,
+				flipResult,
+				gameData: {
+					side: request.side,
+					winChance,
+					houseEdge
+				}
+			};
+		},
+		winMultiplier: (_request, houseEdge) => calculateMultiplier(50, houseEdge)
+	},
+	deriveResult: (serverSeed, clientSeed, nonce) => {
+		const result = generateCoinFlip(serverSeed, clientSeed, nonce);
+		return { result, flipResult: result === 0 ? 'cat' : 'dog' };
+	}
+};
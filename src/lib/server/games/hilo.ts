@@ -0,0 +1,124 @@
+import { z } from 'zod';
+import { betRequestSchema, type RoundGameDefinition } from './registry';
+import type { RoundSettlement } from '$lib/server/round-handler';
+import { GameError } from '$lib/server/errors';
+import { generateHiloCard, validateHiloBet, DEFAULT_HOUSE_EDGE } from '$lib/server/provably-fair';
+import {
+	getHiloChance,
+	getHiloMultiplier,
+	HILO_GUESSES,
+	isHiloCorrect,
+	type HiloGuess,
+	type HiloStep
+} from '$lib/utils/hilo';
+import { multiplyMoney } from '$lib/utils/money';
+
+const hiloActionSchema = z.discriminatedUnion('action', [
+	z.object({
+		action: z.literal('guess'),
+		guess: z.enum(HILO_GUESSES as [HiloGuess, ...HiloGuess[]])
+	}),
+	z.object({ action: z.literal('skip') }),
+	z.object({ action: z.literal('cashout') })
+]);
+
+type HiloBetRequest = z.infer<typeof betRequestSchema>;
+type HiloAction = z.infer<typeof hiloActionSchema>;
+
+interface HiloState extends Record<string, unknown> {
+	cards: number[]; // The card trail; card i was drawn at cursor i
+	steps: HiloStep[]; // What the player did before each card after the first
+	houseEdge?: number; // Set when the round starts; rounds from before it was configurable use the default
+}
+
+function settle(state: HiloState, stake: number): RoundSettlement {
+	const multiplier = getHiloMultiplier(
+		state.cards,
+		state.steps,
+		state.houseEdge ?? DEFAULT_HOUSE_EDGE
+	);
+
+	return {
+		win: multiplier > 0,
+		payout: multiplyMoney(stake, multiplier),
+		multiplier,
+		result: multiplier
+	};
+}
+
+export const hiloGame: RoundGameDefinition<HiloBetRequest, HiloState, HiloAction> = {
+	type: 'hilo',
+	kind: 'round',
+	metadata: {
+		name: 'Hi-Lo',
+		description: 'Guess whether the next card is higher or lower and build a streak',
+		path: '/game/hilo'
+	},
+	houseEdge: DEFAULT_HOUSE_EDGE,
+	requestSchema: betRequestSchema,
+	actionSchema: hiloActionSchema,
+	logic: {
+		validateStart: (request, userBalance) => validateHiloBet(request.amount, userBalance),
+		start: ({ serverSeed, clientSeed, nonce, houseEdge }) => ({
+			state: { cards: [generateHiloCard(serverSeed, clientSeed, nonce, 0)], steps: [], houseEdge }
+		}),
+		act: ({ serverSeed, clientSeed, nonce, stake }, state, action) => {
+			if (action.action === 'cashout') {
+				if (!state.steps.some((step) => step !== 'skip')) {
+					throw new GameError('Make at least one guess before cashing out');
+				}
+
+				return { state, settlement: settle(state, stake) };
+			}
+
+			const card = state.cards[state.cards.length - 1];
+			if (action.action === 'guess' && getHiloChance(card, action.guess) === 0) {
+				throw new GameError('That guess cannot win on this card');
+			}
+
+			const next = generateHiloCard(serverSeed, clientSeed, nonce, state.cards.length);
+			const step: HiloStep = action.action === 'skip' ? 'skip' : action.guess;
+			const nextState: HiloState = {
+				...state,
+				cards: [...state.cards, next],
+				steps: [...state.steps, step]
+			};
+
+			// A wrong guess loses the round straight away
+			return step !== 'skip' && !isHiloCorrect(card, next, step)
+				? { state: nextState, settlement: settle(nextState, stake) }
+				: { state: nextState };
+		},
+		winMultiplier: (state, action) => {
+			if (action.action !== 'guess') return null;
+
+			// A correct guess divides the multiplier so far by its chance
+			const chance = getHiloChance(state.cards[state.cards.length - 1], action.guess);
+			const multiplier = getHiloMultiplier(
+				state.cards,
+				state.steps,
+				state.houseEdge ?? DEFAULT_HOUSE_EDGE
+			);
+			return chance > 0 ? multiplier / chance : null;
+		},
+		toPublicState: (state) => {
+			const houseEdge = state.houseEdge ?? DEFAULT_HOUSE_EDGE;
+
+			return {
+				cards: state.cards,
+				steps: state.steps,
+				houseEdge,
+				multiplier: getHiloMultiplier(state.cards, state.steps, houseEdge)
+			};
+		}
+	},
+	deriveResult: (serverSeed, clientSeed, nonce, gameData) => {
+		const steps = (gameData.steps as HiloStep[]) ?? [];
+		const cards = Array.from({ length: steps.length + 1 }, (_, cursor) =>
+			generateHiloCard(serverSeed, clientSeed, nonce, cursor)
+		);
+		const houseEdge = Number(gameData.houseEdge ?? DEFAULT_HOUSE_EDGE);
+
+		return { result: getHiloMultiplier(cards, steps, houseEdge), cards };
+	}
+};
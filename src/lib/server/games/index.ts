@@ -0,0 +1,40 @@
+/**
+ * Registers every playable game. Adding a game means adding its module and one line here.
+ */
+
+import { registerGame } from './registry';
+import { diceGame } from './dice';
+import { flipGame } from './flip';
+import { limboGame } from './limbo';
+import { plinkoGame } from './plinko';
+import { minesGame } from './mines';
+import { crashGame } from './crash';
+import { rouletteGame } from './roulette';
+import { kenoGame } from './keno';
+import { blackjackGame } from './blackjack';
+import { hiloGame } from './hilo';
+import { wheelGame } from './wheel';
+import { towerGame } from './tower';
+
+registerGame(diceGame);
+registerGame(flipGame);
+registerGame(limboGame);
+registerGame(plinkoGame);
+registerGame(minesGame);
+registerGame(crashGame);
+registerGame(rouletteGame);
+registerGame(kenoGame);
+registerGame(blackjackGame);
+registerGame(hiloGame);
+registerGame(wheelGame);
+registerGame(towerGame);
+
+export { getGame, isGameType, listGames } from './registry';
+export type {
+	GameDefinition,
+	RoundGameDefinition,
+	SharedGameDefinition,
+	RegisteredGame,
+	GameMetadata,
+	GameVerification
+} from './registry';
@@ -0,0 +1,65 @@
+import { z } from 'zod';
+import type { GameBetResult } from '$lib/server/game-handler';
+import { betRequestSchema, type GameDefinition } from './registry';
+import { generateKenoDraw, validateKenoBet } from '$lib/server/provably-fair';
+import { countKenoHits, getKenoPayouts, KENO_RISKS, type KenoRisk } from '$lib/utils/keno';
+import { multiplyMoney } from '$lib/utils/money';
+
+const kenoRequestSchema = betRequestSchema.extend({
+	picks: z.array(z.number().int()),
+	risk: z.enum(KENO_RISKS as [KenoRisk, ...KenoRisk[]])
+});
+
+type KenoBetRequest = z.infer<typeof kenoRequestSchema>;
+
+interface KenoBetResult extends GameBetResult {
+	drawn: number[];
+	hits: number;
+}
+
+export const kenoGame: GameDefinition<KenoBetRequest, KenoBetResult> = {
+	type: 'keno',
+	kind: 'instant',
+	metadata: {
+		name: 'Keno',
+		description: 'Pick up to 10 numbers and match them against the draw',
+		path: '/game/keno'
+	},
+	requestSchema: kenoRequestSchema,
+	logic: {
+		validateBet: (request, userBalance) =>
+			validateKenoBet(request.amount, request.picks, userBalance),
+		calculateResult: (serverSeed, clientSeed, nonce, request) => {
+			const drawn = generateKenoDraw(serverSeed, clientSeed, nonce);
+			const hits = countKenoHits(request.picks, drawn);
+			const multiplier = getKenoPayouts(request.picks.length, request.risk)[hits];
+			const payout = multiplyMoney(request.amount, multiplier);
+
+			return {
+				// Low-risk tables return part of the stake on some misses, which is not a win
+				win: multiplier > 1,
+				payout,
+				multiplier,
+				result: hits,
+				drawn,
+				hits,
+				gameData: {
+					picks: request.picks,
+					risk: request.risk,
+					drawn
+				}
+			};
+		}
+	},
+	deriveResult: (serverSeed, clientSeed, nonce, gameData) => {
+		const picks = gameData.picks as number[];
+		const drawn = generateKenoDraw(serverSeed, clientSeed, nonce);
+		const hits = countKenoHits(picks, drawn);
+
+		return {
+			result: hits,
+			drawn,
+			multiplier: getKenoPayouts(picks.length, gameData.risk as KenoRisk)[hits]
+		};
+	}
+};
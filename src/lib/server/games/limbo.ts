@@ -0,0 +1,73 @@
+import { z } from 'zod';
+import type { GameBetResult } from '$lib/server/game-handler';
+import { betRequestSchema, type GameDefinition } from './registry';
+import {
+	generateLimboResult,
+	isLimboWin,
+	calculateLimboWinChance,
+	validateLimboBet,
+	DEFAULT_HOUSE_EDGE
+} from '$lib/server/provably-fair';
+import { multiplyMoney } from '$lib/utils/money';
+
+const limboRequestSchema = betRequestSchema.extend({
+	// Targets are multipliers with 2 decimal places
+	target: z
+		.number()
+		.finite()
+		.transform((target) => Math.round(target * 100) / 100)
+});
+
+type LimboBetRequest = z.infer<typeof limboRequestSchema>;
+
+interface LimboBetResult extends GameBetResult {
+	limboResult: number;
+	target: number;
+}
+
+export const limboGame: GameDefinition<LimboBetRequest, LimboBetResult> = {
+	type: 'limbo',
+	kind: 'instant',
+	metadata: {
+		name: 'Limbo',
+		description: 'Pick a target multiplier and hope the result reaches it',
+		path: '/game/limbo'
+	},
+	houseEdge: DEFAULT_HOUSE_EDGE,
+	requestSchema: limboRequestSchema,
+	logic: {
+		validateBet: (request, userBalance) =>
+			validateLimboBet(request.amount, request.target, userBalance),
+		calculateResult: (serverSeed, clientSeed, nonce, request, houseEdge) => {
+			const limboResult = generateLimboResult(serverSeed, clientSeed, nonce, houseEdge);
+			const win = isLimboWin(limboResult, request.target);
+			const winChance = calculateLimboWinChance(request.target, houseEdge);
+			const multiplier = request.target;
+			const payout = win ? multiplyMoney(request.amount, multiplier) : 0;
+
+			return {
+				win,
+				payout,
+				multiplier,
+				result: limboResult,
+				limboResult,
+				target: request.target,
+				gameData: {
+					target: request.target,
+					winChance,
+					houseEdge
+				}
+			};
+		},
+		winMultiplier: (request) => request.target
+	},
+	// Bets from before the edge was configurable were played at the default
+	deriveResult: (serverSeed, clientSeed, nonce, gameData) => ({
+		result: generateLimboResult(
+			serverSeed,
+			clientSeed,
+			nonce,
+			Number(gameData.houseEdge ?? DEFAULT_HOUSE_EDGE)
+		)
+	})
+};
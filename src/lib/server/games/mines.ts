@@ -0,0 +1,150 @@
+import { z } from 'zod';
+import { betRequestSchema, type RoundGameDefinition } from './registry';
+import type { RoundSettlement } from '$lib/server/round-handler';
+import { GameError } from '$lib/server/errors';
+import {
+	generateMinePositions,
+	calculateMinesMultiplier,
+	validateMinesBet,
+	MINES_GRID_SIZE,
+	DEFAULT_HOUSE_EDGE
+} from '$lib/server/provably-fair';
+import { multiplyMoney } from '$lib/utils/money';
+
+const minesRequestSchema = betRequestSchema.extend({
+	mines: z.number().int()
+});
+
+const minesActionSchema = z.discriminatedUnion('action', [
+	z.object({
+		action: z.literal('reveal'),
+		tile: z
+			.number()
+			.int()
+			.min(0)
+			.max(MINES_GRID_SIZE - 1)
+	}),
+	z.object({ action: z.literal('cashout') })
+]);
+
+type MinesBetRequest = z.infer<typeof minesRequestSchema>;
+type MinesAction = z.infer<typeof minesActionSchema>;
+
+interface MinesState extends Record<string, unknown> {
+	mineCount: number;
+	mines: number[];
+	revealed: number[]; // Tiles in the order the player revealed them
+	houseEdge?: number; // Set when the round starts; rounds from before it was configurable use the default
+}
+
+/**
+ * The multiplier a round ends on: 0 if a mine was revealed, otherwise the cash-out multiplier
+ */
+function settleMultiplier(
+	mineCount: number,
+	mines: number[],
+	revealed: number[],
+	houseEdge: number
+): number {
+	return revealed.some((tile) => mines.includes(tile))
+		? 0
+		: calculateMinesMultiplier(mineCount, revealed.length, houseEdge);
+}
+
+function settle(state: MinesState, stake: number): RoundSettlement {
+	const multiplier = settleMultiplier(
+		state.mineCount,
+		state.mines,
+		state.revealed,
+		state.houseEdge ?? DEFAULT_HOUSE_EDGE
+	);
+
+	return {
+		win: multiplier > 0,
+		payout: multiplyMoney(stake, multiplier),
+		multiplier,
+		result: multiplier
+	};
+}
+
+export const minesGame: RoundGameDefinition<MinesBetRequest, MinesState, MinesAction> = {
+	type: 'mines',
+	kind: 'round',
+	metadata: {
+		name: 'Mines',
+		description: 'Reveal gems on a 5x5 grid and cash out before you hit a mine',
+		path: '/game/mines'
+	},
+	houseEdge: DEFAULT_HOUSE_EDGE,
+	requestSchema: minesRequestSchema,
+	actionSchema: minesActionSchema,
+	logic: {
+		validateStart: (request, userBalance) =>
+			validateMinesBet(request.amount, request.mines, userBalance),
+		start: ({ serverSeed, clientSeed, nonce, houseEdge }, request) => ({
+			state: {
+				mineCount: request.mines,
+				mines: generateMinePositions(serverSeed, clientSeed, nonce, request.mines),
+				revealed: [],
+				houseEdge
+			}
+		}),
+		act: ({ stake }, state, action) => {
+			if (action.action === 'cashout') {
+				if (state.revealed.length === 0) {
+					throw new GameError('Reveal at least one tile before cashing out');
+				}
+
+				return { state, settlement: settle(state, stake) };
+			}
+
+			if (state.revealed.includes(action.tile)) {
+				throw new GameError('Tile already revealed');
+			}
+
+			const next: MinesState = { ...state, revealed: [...state.revealed, action.tile] };
+			const hitMine = state.mines.includes(action.tile);
+			const clearedBoard = next.revealed.length === MINES_GRID_SIZE - state.mineCount;
+
+			// Hitting a mine loses the round; revealing every safe tile cashes out automatically
+			return hitMine || clearedBoard
+				? { state: next, settlement: settle(next, stake) }
+				: { state: next };
+		},
+		winMultiplier: (state, action) =>
+			action.action === 'reveal'
+				? calculateMinesMultiplier(
+						state.mineCount,
+						state.revealed.length + 1,
+						state.houseEdge ?? DEFAULT_HOUSE_EDGE
+					)
+				: null,
+		toPublicState: (state, settled) => {
+			const safe = !state.revealed.some((tile) => state.mines.includes(tile));
+			const tilesLeft = MINES_GRID_SIZE - state.mineCount - state.revealed.length;
+			const houseEdge = state.houseEdge ?? DEFAULT_HOUSE_EDGE;
+
+			return {
+				mineCount: state.mineCount,
+				revealed: state.revealed,
+				houseEdge,
+				multiplier: safe
+					? calculateMinesMultiplier(state.mineCount, state.revealed.length, houseEdge)
+					: 0,
+				nextMultiplier:
+					tilesLeft > 0
+						? calculateMinesMultiplier(state.mineCount, state.revealed.length + 1, houseEdge)
+						: null,
+				...(settled && { mines: state.mines })
+			};
+		}
+	},
+	deriveResult: (serverSeed, clientSeed, nonce, gameData) => {
+		const mineCount = Number(gameData.mineCount);
+		const revealed = (gameData.revealed as number[]) ?? [];
+		const mines = generateMinePositions(serverSeed, clientSeed, nonce, mineCount);
+		const houseEdge = Number(gameData.houseEdge ?? DEFAULT_HOUSE_EDGE);
+
+		return { result: settleMultiplier(mineCount, mines, revealed, houseEdge), mines };
+	}
+};
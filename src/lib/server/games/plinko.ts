@@ -0,0 +1,63 @@
+import { z } from 'zod';
+import type { GameBetResult } from '$lib/server/game-handler';
+import { betRequestSchema, type GameDefinition } from './registry';
+import { generatePlinkoPath, validatePlinkoBet } from '$lib/server/provably-fair';
+import { getPlinkoPayouts, PLINKO_RISKS, type PlinkoRisk } from '$lib/utils/plinko';
+import { multiplyMoney } from '$lib/utils/money';
+
+const plinkoRequestSchema = betRequestSchema.extend({
+	rows: z.number().int(),
+	risk: z.enum(PLINKO_RISKS as [PlinkoRisk, ...PlinkoRisk[]])
+});
+
+type PlinkoBetRequest = z.infer<typeof plinkoRequestSchema>;
+
+interface PlinkoBetResult extends GameBetResult {
+	path: (0 | 1)[];
+	bucket: number;
+}
+
+export const plinkoGame: GameDefinition<PlinkoBetRequest, PlinkoBetResult> = {
+	type: 'plinko',
+	kind: 'instant',
+	metadata: {
+		name: 'Plinko',
+		description: 'Drop a ball through the pegs and land on a multiplier',
+		path: '/game/plinko'
+	},
+	requestSchema: plinkoRequestSchema,
+	logic: {
+		validateBet: (request, userBalance) =>
+			validatePlinkoBet(request.amount, request.rows, userBalance),
+		calculateResult: (serverSeed, clientSeed, nonce, request) => {
+			const { path, bucket } = generatePlinkoPath(serverSeed, clientSeed, nonce, request.rows);
+			const multiplier = getPlinkoPayouts(request.rows, request.risk)[bucket];
+			const payout = multiplyMoney(request.amount, multiplier);
+
+			return {
+				// A bucket below 1x loses part of the stake, so only profitable drops count as wins
+				win: multiplier > 1,
+				payout,
+				multiplier,
+				result: bucket,
+				path,
+				bucket,
+				gameData: {
+					rows: request.rows,
+					risk: request.risk,
+					path
+				}
+			};
+		}
+	},
+	deriveResult: (serverSeed, clientSeed, nonce, gameData) => {
+		const rows = Number(gameData.rows);
+		const { path, bucket } = generatePlinkoPath(serverSeed, clientSeed, nonce, rows);
+
+		return {
+			result: bucket,
+			path,
+			multiplier: getPlinkoPayouts(rows, gameData.risk as PlinkoRisk)[bucket]
+		};
+	}
+};
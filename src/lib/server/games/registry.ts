@@ -0,0 +1,127 @@
+/**
+ * Server-side game registry.
+ * Each game registers its bet logic, request schema, verification and display metadata here,
+ * so the bet, data, history and verify endpoints can dispatch on the game type.
+ * Instant games settle in one request; round games stay open across several actions;
+ * shared games (crash) run on a server-side schedule with their own endpoints.
+ */
+
+import { z } from 'zod';
+import type { GameBetRequest, GameBetResult, GameLogic } from '$lib/server/game-handler';
+import type { RoundGameLogic } from '$lib/server/round-handler';
+
+/**
+ * Fields shared by every bet request; games extend this with their own parameters.
+ * Amounts are whole minor units (cents).
+ */
+export const betRequestSchema = z.object({
+	amount: z.number().int()
+});
+
+export interface GameMetadata {
+	name: string;
+	description: string;
+	path: string;
+}
+
+export interface GameVerification {
+	result: number;
+	payout?: number; // Set by games whose payout depends on more than the result, checked against the bet's payout
+	[key: string]: unknown; // Additional derived values shown alongside the result
+}
+
+interface BaseGameDefinition {
+	type: string;
+	metadata: GameMetadata;
+	/**
+	 * Default house edge in percent, for games that price their multipliers from it. Admins can
+	 * change it at runtime; games whose paytable fixes the edge leave it out.
+	 */
+	houseEdge?: number;
+	/**
+	 * Recompute a settled bet's result from its revealed seeds and stored game data
+	 */
+	deriveResult: (
+		serverSeed: string,
+		clientSeed: string,
+		nonce: number,
+		gameData: Record<string, unknown>
+	) => GameVerification;
+}
+
+export interface GameDefinition<
+	TRequest extends GameBetRequest = GameBetRequest,
+	TResult extends GameBetResult = GameBetResult
+> extends BaseGameDefinition {
+	kind: 'instant';
+	requestSchema: z.ZodType<TRequest, z.ZodTypeDef, unknown>;
+	logic: GameLogic<TRequest, TResult>;
+}
+
+export interface RoundGameDefinition<
+	TRequest extends GameBetRequest = GameBetRequest,
+	TState extends Record<string, unknown> = Record<string, unknown>,
+	TAction = unknown
+> extends BaseGameDefinition {
+	kind: 'round';
+	requestSchema: z.ZodType<TRequest, z.ZodTypeDef, unknown>;
+	actionSchema: z.ZodType<TAction, z.ZodTypeDef, unknown>;
+	logic: RoundGameLogic<TRequest, TState, TAction>;
+}
+
+export interface SharedGameDefinition<TRequest extends GameBetRequest = GameBetRequest>
+	extends BaseGameDefinition {
+	kind: 'shared';
+	requestSchema: z.ZodType<TRequest, z.ZodTypeDef, unknown>;
+}
+
+export type RegisteredGame = GameDefinition | RoundGameDefinition | SharedGameDefinition;
+
+const games = new Map<
+	string,
+	// eslint-disable-next-line @typescript-eslint/no-explicit-any
+	GameDefinition<any, any> | RoundGameDefinition<any, any, any> | SharedGameDefinition<any>
+>();
+
+/**
+ * Register a game so it can be played and verified through the shared endpoints
+ */
+export function registerGame<TRequest extends GameBetRequest, TResult extends GameBetResult>(
+	game: GameDefinition<TRequest, TResult>
+): void;
+export function registerGame<
+	TRequest extends GameBetRequest,
+	TState extends Record<string, unknown>,
+	TAction
+>(game: RoundGameDefinition<TRequest, TState, TAction>): void;
+export function registerGame<TRequest extends GameBetRequest>(
+	game: SharedGameDefinition<TRequest>
+): void;
+export function registerGame(game: RegisteredGame): void {
+	if (games.has(game.type)) {
+		throw new Error(`Game "${game.type}" is already registered`);
+	}
+
+	games.set(game.type, game);
+}
+
+/**
+ * Look up a registered game by its type
+ */
+export function getGame(type: string): RegisteredGame | undefined {
+	return games.get(type);
+}
+
+/**
+ * Check whether a string names a registered game
+ */
+export function isGameType(type: string | null | undefined): type is string {
+	return typeof type === 'string' && games.has(type);
+}
+
+/**
+ * List all registered games
+ */
+export function listGames(): RegisteredGame[] {
+	return [...games.values()];
+}
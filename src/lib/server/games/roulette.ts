@@ -0,0 +1,102 @@
+import { z } from 'zod';
+import type { GameBetResult } from '$lib/server/game-handler';
+import type { GameDefinition } from './registry';
+import { generateRoulettePocket, validateRouletteBet } from '$lib/server/provably-fair';
+import {
+	EVEN_MONEY_BET_TYPES,
+	INSIDE_BET_TYPES,
+	RANGE_BET_TYPES,
+	getPlacementPayout,
+	type RoulettePlacement
+} from '$lib/utils/roulette';
+
+const chipAmount = z.number().int().positive(); // Minor units
+
+const placementSchema = z.union([
+	z.object({
+		type: z.enum(INSIDE_BET_TYPES),
+		numbers: z.array(z.number().int()).min(1).max(4),
+		amount: chipAmount
+	}),
+	z.object({
+		type: z.enum(RANGE_BET_TYPES),
+		value: z.union([z.literal(1), z.literal(2), z.literal(3)]),
+		amount: chipAmount
+	}),
+	z.object({
+		type: z.enum(EVEN_MONEY_BET_TYPES),
+		amount: chipAmount
+	})
+]);
+
+// The stake is the sum of the chips rather than a separate amount
+const rouletteRequestSchema = z
+	.object({
+		chips: z.array(placementSchema)
+	})
+	.transform(({ chips }) => ({
+		chips,
+		amount: chips.reduce((sum, chip) => sum + chip.amount, 0)
+	}));
+
+type RouletteBetRequest = z.infer<typeof rouletteRequestSchema>;
+
+type SettledPlacement = RoulettePlacement & { payout: number };
+
+interface RouletteBetResult extends GameBetResult {
+	pocket: number;
+	placements: SettledPlacement[];
+}
+
+function settlePlacements(chips: RoulettePlacement[], pocket: number): SettledPlacement[] {
+	return chips.map((chip) => ({ ...chip, payout: getPlacementPayout(chip, pocket) }));
+}
+
+function totalPayout(placements: SettledPlacement[]): number {
+	return placements.reduce((sum, placement) => sum + placement.payout, 0);
+}
+
+export const rouletteGame: GameDefinition<RouletteBetRequest, RouletteBetResult> = {
+	type: 'roulette',
+	kind: 'instant',
+	metadata: {
+		name: 'Roulette',
+		description: 'Spread chips across a European roulette table and spin',
+		path: '/game/roulette'
+	},
+	requestSchema: rouletteRequestSchema,
+	logic: {
+		validateBet: (request, userBalance) =>
+			validateRouletteBet(request.amount, request.chips, userBalance),
+		calculateResult: (serverSeed, clientSeed, nonce, request) => {
+			const pocket = generateRoulettePocket(serverSeed, clientSeed, nonce);
+			const placements = settlePlacements(request.chips, pocket);
+			const payout = totalPayout(placements);
+
+			return {
+				// Covering a pocket with several chips can return less than the total stake
+				win: payout > request.amount,
+				payout,
+				multiplier: payout / request.amount,
+				result: pocket,
+				pocket,
+				placements,
+				gameData: {
+					placements,
+					totalPayout: payout
+				}
+			};
+		}
+	},
+	deriveResult: (serverSeed, clientSeed, nonce, gameData) => {
+		const pocket = generateRoulettePocket(serverSeed, clientSeed, nonce);
+		// Settling overwrites the stored payouts with recomputed ones
+		const placements = settlePlacements(gameData.placements as SettledPlacement[], pocket);
+
+		return {
+			result: pocket,
+			payout: totalPayout(placements),
+			payouts: placements.map((placement) => placement.payout)
+		};
+	}
+};
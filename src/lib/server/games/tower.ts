@@ -0,0 +1,141 @@
+import { z } from 'zod';
+import { betRequestSchema, type RoundGameDefinition } from './registry';
+import type { RoundSettlement } from '$lib/server/round-handler';
+import { GameError } from '$lib/server/errors';
+import { generateTowerRows, validateTowerBet, DEFAULT_HOUSE_EDGE } from '$lib/server/provably-fair';
+import {
+	getTowerMultiplier,
+	TOWER_DIFFICULTIES,
+	TOWER_LAYOUTS,
+	TOWER_ROWS,
+	type TowerDifficulty
+} from '$lib/utils/tower';
+import { multiplyMoney } from '$lib/utils/money';
+
+const towerRequestSchema = betRequestSchema.extend({
+	difficulty: z.enum(TOWER_DIFFICULTIES as [TowerDifficulty, ...TowerDifficulty[]])
+});
+
+const towerActionSchema = z.discriminatedUnion('action', [
+	z.object({ action: z.literal('pick'), tile: z.number().int().min(0) }),
+	z.object({ action: z.literal('cashout') })
+]);
+
+type TowerBetRequest = z.infer<typeof towerRequestSchema>;
+type TowerAction = z.infer<typeof towerActionSchema>;
+
+interface TowerState extends Record<string, unknown> {
+	difficulty: TowerDifficulty;
+	rows: number[][]; // Safe tiles of every row, bottom row first, committed when the round starts
+	picks: number[]; // The tile picked on each row climbed so far
+	houseEdge?: number; // Set when the round starts; rounds from before it was configurable use the default
+}
+
+/**
+ * The multiplier a round ends on: 0 if a pick was not safe, otherwise the multiplier for the
+ * rows climbed
+ */
+function settleMultiplier(
+	difficulty: TowerDifficulty,
+	rows: number[][],
+	picks: number[],
+	houseEdge: number
+): number {
+	return picks.some((tile, row) => !rows[row].includes(tile))
+		? 0
+		: getTowerMultiplier(difficulty, picks.length, houseEdge);
+}
+
+function settle(state: TowerState, stake: number): RoundSettlement {
+	const multiplier = settleMultiplier(
+		state.difficulty,
+		state.rows,
+		state.picks,
+		state.houseEdge ?? DEFAULT_HOUSE_EDGE
+	);
+
+	return {
+		win: multiplier > 0,
+		payout: multiplyMoney(stake, multiplier),
+		multiplier,
+		result: multiplier
+	};
+}
+
+export const towerGame: RoundGameDefinition<TowerBetRequest, TowerState, TowerAction> = {
+	type: 'tower',
+	kind: 'round',
+	metadata: {
+		name: 'Dragon Tower',
+		description: 'Climb the tower one safe tile at a time and cash out before you hit an egg',
+		path: '/game/tower'
+	},
+	houseEdge: DEFAULT_HOUSE_EDGE,
+	requestSchema: towerRequestSchema,
+	actionSchema: towerActionSchema,
+	logic: {
+		validateStart: (request, userBalance) => validateTowerBet(request.amount, userBalance),
+		start: ({ serverSeed, clientSeed, nonce, houseEdge }, request) => ({
+			state: {
+				difficulty: request.difficulty,
+				rows: generateTowerRows(serverSeed, clientSeed, nonce, request.difficulty),
+				picks: [],
+				houseEdge
+			}
+		}),
+		act: ({ stake }, state, action) => {
+			if (action.action === 'cashout') {
+				if (state.picks.length === 0) {
+					throw new GameError('Climb at least one row before cashing out');
+				}
+
+				return { state, settlement: settle(state, stake) };
+			}
+
+			if (action.tile >= TOWER_LAYOUTS[state.difficulty].tiles) {
+				throw new GameError('Tile is not on the tower');
+			}
+
+			const row = state.picks.length;
+			const next: TowerState = { ...state, picks: [...state.picks, action.tile] };
+			const safe = state.rows[row].includes(action.tile);
+
+			// A bad pick loses the round; reaching the top cashes out automatically
+			return !safe || next.picks.length === TOWER_ROWS
+				? { state: next, settlement: settle(next, stake) }
+				: { state: next };
+		},
+		winMultiplier: (state, action) =>
+			action.action === 'pick'
+				? getTowerMultiplier(
+						state.difficulty,
+						state.picks.length + 1,
+						state.houseEdge ?? DEFAULT_HOUSE_EDGE
+					)
+				: null,
+		toPublicState: (state, settled) => {
+			const houseEdge = state.houseEdge ?? DEFAULT_HOUSE_EDGE;
+			const multiplier = settleMultiplier(state.difficulty, state.rows, state.picks, houseEdge);
+
+			return {
+				difficulty: state.difficulty,
+				picks: state.picks,
+				houseEdge,
+				multiplier,
+				nextMultiplier:
+					multiplier > 0 && state.picks.length < TOWER_ROWS
+						? getTowerMultiplier(state.difficulty, state.picks.length + 1, houseEdge)
+						: null,
+				...(settled && { rows: state.rows })
+			};
+		}
+	},
+	deriveResult: (serverSeed, clientSeed, nonce, gameData) => {
+		const difficulty = gameData.difficulty as TowerDifficulty;
+		const picks = (gameData.picks as number[]) ?? [];
+		const rows = generateTowerRows(serverSeed, clientSeed, nonce, difficulty);
+		const houseEdge = Number(gameData.houseEdge ?? DEFAULT_HOUSE_EDGE);
+
+		return { result: settleMultiplier(difficulty, rows, picks, houseEdge), rows };
+	}
+};
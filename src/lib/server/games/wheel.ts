@@ -0,0 +1,59 @@
+import { z } from 'zod';
+import type { GameBetResult } from '$lib/server/game-handler';
+import { betRequestSchema, type GameDefinition } from './registry';
+import { generateWheelSegment, validateWheelBet } from '$lib/server/provably-fair';
+import { getWheelLayout, WHEEL_RISKS, type WheelRisk } from '$lib/utils/wheel';
+import { multiplyMoney } from '$lib/utils/money';
+
+const wheelRequestSchema = betRequestSchema.extend({
+	segments: z.number().int(),
+	risk: z.enum(WHEEL_RISKS as [WheelRisk, ...WheelRisk[]])
+});
+
+type WheelBetRequest = z.infer<typeof wheelRequestSchema>;
+
+interface WheelBetResult extends GameBetResult {
+	segment: number;
+}
+
+export const wheelGame: GameDefinition<WheelBetRequest, WheelBetResult> = {
+	type: 'wheel',
+	kind: 'instant',
+	metadata: {
+		name: 'Wheel',
+		description: 'Spin a wheel of 10 to 50 segments and win the multiplier under the pointer',
+		path: '/game/wheel'
+	},
+	requestSchema: wheelRequestSchema,
+	logic: {
+		validateBet: (request, userBalance) =>
+			validateWheelBet(request.amount, request.segments, userBalance),
+		calculateResult: (serverSeed, clientSeed, nonce, request) => {
+			const segment = generateWheelSegment(serverSeed, clientSeed, nonce, request.segments);
+			const multiplier = getWheelLayout(request.segments, request.risk)[segment];
+			const payout = multiplyMoney(request.amount, multiplier);
+
+			return {
+				// Low-risk segments below 1x hand back part of the stake, which is not a win
+				win: multiplier > 1,
+				payout,
+				multiplier,
+				result: segment,
+				segment,
+				gameData: {
+					segments: request.segments,
+					risk: request.risk
+				}
+			};
+		}
+	},
+	deriveResult: (serverSeed, clientSeed, nonce, gameData) => {
+		const segments = Number(gameData.segments);
+		const segment = generateWheelSegment(serverSeed, clientSeed, nonce, segments);
+
+		return {
+			result: segment,
+			multiplier: getWheelLayout(segments, gameData.risk as WheelRisk)[segment]
+		};
+	}
+};
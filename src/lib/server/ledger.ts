@@ -0,0 +1,245 @@
+/**
+ * Double-entry wallet ledger.
+ * Balances only change through transfers posted here, inside the caller's transaction: the wallet
+ * is updated and two entries summing to zero are written, one on the wallet and one on the other
+ * side. `reconcileLedger` checks that every balance still equals the sum of its wallet entries, and
+ * each scheduled run is stored for the admin console.
+ */
+
+import { and, eq, sql } from 'drizzle-orm';
+import { db, type Transaction } from '$lib/server/db';
+import { newestFirst } from '$lib/server/db/order';
+import * as table from '$lib/server/db/schema';
+
+export type LedgerEntryType = table.WalletTransaction['type'];
+type SystemAccount = Exclude<table.WalletTransaction['account'], 'wallet'>;
+
+// The system account on the other side of each kind of transfer
+const COUNTER_ACCOUNTS: Record<LedgerEntryType, SystemAccount> = {
+	bet_stake: 'house',
+	bet_payout: 'house',
+	bonus: 'promotions',
+	admin_adjustment: 'adjustments',
+	opening_balance: 'adjustments'
+};
+
+const RECONCILE_INTERVAL_MS = 60 * 60 * 1000;
+
+export interface LedgerTransfer {
+	type: LedgerEntryType;
+	userId: string;
+	amount: number; // Credited to the wallet; negative to debit it
+	reference?: string;
+	description?: string;
+}
+
+export interface PublicTransaction {
+	id: string;
+	type: LedgerEntryType;
+	amount: number;
+	balanceAfter: number;
+	reference: string | null;
+	description: string | null;
+	createdAt: Date;
+}
+
+export interface LedgerDiscrepancy {
+	userId: string;
+	balance: number;
+	ledgerBalance: number;
+}
+
+export interface LedgerReconciliation {
+	discrepancies: LedgerDiscrepancy[];
+	unbalancedTransfers: string[]; // Transfers whose entries do not sum to zero
+}
+
+export type LedgerReconciliationRun = table.LedgerReconciliation;
+
+function applyToWallet(tx: Transaction, userId: string, amount: number): number {
+	const updated = tx
+		.update(table.user)
+		.set({ balance: sql`${table.user.balance} + ${amount}` })
+		.where(eq(table.user.id, userId))
+		.returning({ balance: table.user.balance })
+		.get();
+
+	if (!updated) {
+		throw new Error(`User ${userId} not found`);
+	}
+	return updated.balance;
+}
+
+/**
+ * Move `amount` between a user's wallet and the system account for the transfer type.
+ * Returns the wallet's new balance.
+ */
+export function postTransfer(tx: Transaction, transfer: LedgerTransfer): number {
+	const transferId = crypto.randomUUID();
+	const createdAt = new Date();
+	const balanceAfter = applyToWallet(tx, transfer.userId, transfer.amount);
+	const shared = {
+		transferId,
+		type: transfer.type,
+		reference: transfer.reference,
+		description: transfer.description,
+		createdAt
+	};
+
+	tx.insert(table.transaction)
+		.values([
+			{
+				...shared,
+				id: crypto.randomUUID(),
+				account: 'wallet',
+				userId: transfer.userId,
+				amount: transfer.amount,
+				balanceAfter
+			},
+			{
+				...shared,
+				id: crypto.randomUUID(),
+				account: COUNTER_ACCOUNTS[transfer.type],
+				amount: -transfer.amount
+			}
+		])
+		.run();
+
+	return balanceAfter;
+}
+
+/**
+ * A page of a user's wallet entries, newest first
+ */
+export function listTransactions(
+	userId: string,
+	{ page, limit, type }: { page: number; limit: number; type?: LedgerEntryType }
+): { transactions: PublicTransaction[]; total: number } {
+	const conditions = [
+		eq(table.transaction.userId, userId),
+		eq(table.transaction.account, 'wallet')
+	];
+	if (type) {
+		conditions.push(eq(table.transaction.type, type));
+	}
+
+	const transactions = db
+		.select({
+			id: table.transaction.id,
+			type: table.transaction.type,
+			amount: table.transaction.amount,
+			balanceAfter: table.transaction.balanceAfter,
+			reference: table.transaction.reference,
+			description: table.transaction.description,
+			createdAt: table.transaction.createdAt
+		})
+		.from(table.transaction)
+		.where(and(...conditions))
+		.orderBy(...newestFirst(table.transaction.createdAt))
+		.limit(limit)
+		.offset((page - 1) * limit)
+		.all();
+
+	const total = db
+		.select({ count: sql<number>`count(*)` })
+		.from(table.transaction)
+		.where(and(...conditions))
+		.get();
+
+	return {
+		transactions: transactions.map((entry) => ({
+			...entry,
+			balanceAfter: entry.balanceAfter ?? 0
+		})),
+		total: Number(total?.count ?? 0)
+	};
+}
+
+/**
+ * Compare every user's balance with the sum of their wallet entries, and check that every
+ * transfer balances
+ */
+export function reconcileLedger(): LedgerReconciliation {
+	const ledgerBalance = sql<number>`coalesce(sum(${table.transaction.amount}), 0)`;
+
+	const discrepancies = db
+		.select({
+			userId: table.user.id,
+			balance: table.user.balance,
+			ledgerBalance
+		})
+		.from(table.user)
+		.leftJoin(
+			table.transaction,
+			and(eq(table.transaction.userId, table.user.id), eq(table.transaction.account, 'wallet'))
+		)
+		.groupBy(table.user.id)
+		.having(sql`${table.user.balance} != ${ledgerBalance}`)
+		.all();
+
+	const unbalancedTransfers = db
+		.select({ transferId: table.transaction.transferId })
+		.from(table.transaction)
+		.groupBy(table.transaction.transferId)
+		.having(sql`sum(${table.transaction.amount}) != 0`)
+		.all()
+		.map(({ transferId }) => transferId);
+
+	return { discrepancies, unbalancedTransfers };
+}
+
+/**
+ * Reconcile the ledger and store the result
+ */
+export function recordReconciliation(): LedgerReconciliationRun {
+	return db
+		.insert(table.ledgerReconciliation)
+		.values({ id: crypto.randomUUID(), ...reconcileLedger(), createdAt: new Date() })
+		.returning()
+		.get();
+}
+
+/**
+ * The most recent stored reconciliation, or null before the first has run
+ */
+export function getLatestReconciliation(): LedgerReconciliationRun | null {
+	return (
+		db
+			.select()
+			.from(table.ledgerReconciliation)
+			.orderBy(...newestFirst(table.ledgerReconciliation.createdAt))
+			.limit(1)
+			.get() ?? null
+	);
+}
+
+let reconciliationStarted = false;
+
+function runReconciliation(): void {
+	try {
+		const { discrepancies, unbalancedTransfers } = recordReconciliation();
+
+		for (const { userId, balance, ledgerBalance } of discrepancies) {
+			console.error(
+				`Ledger mismatch for user ${userId}: balance ${balance}, ledger ${ledgerBalance}`
+			);
+		}
+		if (unbalancedTransfers.length > 0) {
+			console.error(`Unbalanced ledger transfers: ${unbalancedTransfers.join(', ')}`);
+		}
+	} catch (error) {
+		console.error('Ledger reconciliation error:', error);
+	}
+}
+
+/**
+ * Reconcile the ledger now and then every hour, storing each result and logging any balance that
+ * has drifted from it
+ */
+export function startLedgerReconciliation(): void {
+	if (reconciliationStarted) return;
+	reconciliationStarted = true;
+
+	runReconciliation();
+	setInterval(runReconciliation, RECONCILE_INTERVAL_MS);
+}
@@ -1,4 +1,30 @@
 import { createHash, createHmac, randomBytes } from 'crypto';
+import { PLINKO_MIN_ROWS, PLINKO_MAX_ROWS } from '$lib/utils/plinko';
+import { CRASH_MIN_AUTO_CASHOUT, CRASH_MAX_AUTO_CASHOUT } from '$lib/utils/crash';
+import {
+	ROULETTE_POCKETS,
+	ROULETTE_MAX_CHIPS,
+	isValidPlacement,
+	type RoulettePlacement
+} from '$lib/utils/roulette';
+import { BLACKJACK_SHOE_SIZE } from '$lib/utils/blackjack';
+import { KENO_NUMBERS, KENO_DRAWS, KENO_MAX_PICKS, isValidKenoPicks } from '$lib/utils/keno';
+import { WHEEL_SEGMENTS, getWheelSegment } from '$lib/utils/wheel';
+import { TOWER_LAYOUTS, TOWER_ROWS, type TowerDifficulty } from '$lib/utils/tower';
+import {
+	calculateDiceWinChance,
+	calculateLimboWinChance,
+	calculateMultiplier
+} from '$lib/utils/game';
+
+// Priced in one place so the game pages preview exactly what the server pays
+export { calculateDiceWinChance, calculateLimboWinChance, calculateMultiplier };
+
+export const LIMBO_MIN_TARGET = 1.01;
+export const LIMBO_MAX_TARGET = 1_000_000;
+export const MINES_GRID_SIZE = 25;
+export const CRASH_MAX_POINT = 1_000_000;
+export const DEFAULT_HOUSE_EDGE = 1; // Percent, for games priced from a win chance
 
 export interface ProvablyFairData {
 	serverSeed: string;
@@ -57,6 +83,65 @@ export function generateGameResult(serverSeed: string, clientSeed: string, nonce
 	return (decimalValue % 10000) / 100;
 }
 
+/**
+ * Generates a stream of provably fair bytes for games that need more randomness than one result.
+ * The first block is the same HMAC that `generateGameResult` reads; later blocks append a round counter.
+ */
+export function generateGameBytes(
+	serverSeed: string,
+	clientSeed: string,
+	nonce: number,
+	count: number
+): number[] {
+	const bytes: number[] = [];
+
+	for (let round = 0; bytes.length < count; round++) {
+		const hmac = createHmac('sha256', serverSeed);
+		hmac.update(round === 0 ? `${clientSeed}-${nonce}` : `${clientSeed}-${nonce}-${round}`);
+		bytes.push(...hmac.digest());
+	}
+
+	return bytes.slice(0, count);
+}
+
+/**
+ * Generates floats in [0, 1) from the provably fair byte stream, four bytes per float
+ */
+export function generateGameFloats(
+	serverSeed: string,
+	clientSeed: string,
+	nonce: number,
+	count: number
+): number[] {
+	const bytes = generateGameBytes(serverSeed, clientSeed, nonce, count * 4);
+	const floats: number[] = [];
+
+	for (let i = 0; i < count; i++) {
+		const chunk = bytes.slice(i * 4, i * 4 + 4);
+		floats.push(chunk.reduce((value, byte, index) => value + byte / 256 ** (index + 1), 0));
+	}
+
+	return floats;
+}
+
+/**
+ * Draws `count` distinct values from 0..size-1 in order, Fisher–Yates style: each float from the
+ * stream picks one of the values that are still left
+ */
+export function generateShuffle(
+	serverSeed: string,
+	clientSeed: string,
+	nonce: number,
+	size: number,
+	count: number = size
+): number[] {
+	const remaining = Array.from({ length: size }, (_, index) => index);
+
+	return generateGameFloats(serverSeed, clientSeed, nonce, count).map(
+		(float) => remaining.splice(Math.floor(float * remaining.length), 1)[0]
+	);
+}
+
 /**
  * Verifies a game result using the provably fair algorithm
  */
@@ -86,6 +171,155 @@ export function generateCoinFlip(serverSeed: string, clientSeed: string, nonce:
 	return result < 50 ? 0 : 1;
 }
 
+/**
+ * Generates limbo result: a multiplier of at least 1.00 with P(result >= x) = (100 - houseEdge) / 100x
+ */
+export function generateLimboResult(
+	serverSeed: string,
+	clientSeed: string,
+	nonce: number,
+	houseEdge: number = 1
+): number {
+	const [float] = generateGameFloats(serverSeed, clientSeed, nonce, 1);
+	const result = (100 - houseEdge) / (100 * (1 - float));
+
+	// Floor to 2 decimal places so a displayed result never rounds up past the target
+	return Math.max(1, Math.min(LIMBO_MAX_TARGET, Math.floor(result * 100) / 100));
+}
+
+/**
+ * Generates a plinko path: one byte per row, bouncing right (1) on the upper half and left (0) otherwise.
+ * The ball lands in the bucket equal to the number of right bounces.
+ */
+export function generatePlinkoPath(
+	serverSeed: string,
+	clientSeed: string,
+	nonce: number,
+	rows: number
+): { path: (0 | 1)[]; bucket: number } {
+	const path = generateGameBytes(serverSeed, clientSeed, nonce, rows).map((byte) =>
+		byte >= 128 ? 1 : 0
+	);
+	const bucket = path.reduce<number>((sum, direction) => sum + direction, 0);
+
+	return { path, bucket };
+}
+
+/**
+ * Generates the mine layout for a mines round: `mineCount` distinct tiles of the grid
+ */
+export function generateMinePositions(
+	serverSeed: string,
+	clientSeed: string,
+	nonce: number,
+	mineCount: number
+): number[] {
+	return generateShuffle(serverSeed, clientSeed, nonce, MINES_GRID_SIZE, mineCount);
+}
+
+/**
+ * Generates the pocket a roulette ball lands in, 0-36
+ */
+export function generateRoulettePocket(
+	serverSeed: string,
+	clientSeed: string,
+	nonce: number
+): number {
+	const [float] = generateGameFloats(serverSeed, clientSeed, nonce, 1);
+	return Math.floor(float * ROULETTE_POCKETS);
+}
+
+/**
+ * Draws the keno numbers, 1-40, in the order they come out of the shuffle
+ */
+export function generateKenoDraw(serverSeed: string, clientSeed: string, nonce: number): number[] {
+	return generateShuffle(serverSeed, clientSeed, nonce, KENO_NUMBERS, KENO_DRAWS).map(
+		(index) => index + 1
+	);
+}
+
+/**
+ * Shuffles a blackjack shoe of BLACKJACK_DECKS decks; cards are dealt from the front, 0-51 each
+ */
+export function generateBlackjackShoe(
+	serverSeed: string,
+	clientSeed: string,
+	nonce: number
+): number[] {
+	return generateShuffle(serverSeed, clientSeed, nonce, BLACKJACK_SHOE_SIZE).map(
+		(index) => index % 52
+	);
+}
+
+/**
+ * Generates the Hi-Lo card at a position in the round, 0-51, drawn with replacement from the float
+ * stream; the first card of the round is at cursor 0
+ */
+export function generateHiloCard(
+	serverSeed: string,
+	clientSeed: string,
+	nonce: number,
+	cursor: number
+): number {
+	const floats = generateGameFloats(serverSeed, clientSeed, nonce, cursor + 1);
+	return Math.floor(floats[cursor] * 52);
+}
+
+/**
+ * Generates the wheel segment under the pointer, 0 to segments - 1, from the dice result (0-99.99)
+ */
+export function generateWheelSegment(
+	serverSeed: string,
+	clientSeed: string,
+	nonce: number,
+	segments: number
+): number {
+	return getWheelSegment(generateGameResult(serverSeed, clientSeed, nonce), segments);
+}
+
+/**
+ * Generates the safe tiles of every Dragon Tower row, bottom row first. Each row takes the next
+ * `safe` floats from the stream and draws its safe tiles Fisher–Yates style, like `generateShuffle`.
+ */
+export function generateTowerRows(
+	serverSeed: string,
+	clientSeed: string,
+	nonce: number,
+	difficulty: TowerDifficulty
+): number[][] {
+	const { tiles, safe } = TOWER_LAYOUTS[difficulty];
+	const floats = generateGameFloats(serverSeed, clientSeed, nonce, TOWER_ROWS * safe);
+
+	return Array.from({ length: TOWER_ROWS }, (_, row) => {
+		const remaining = Array.from({ length: tiles }, (_, index) => index);
+		return floats
+			.slice(row * safe, (row + 1) * safe)
+			.map((float) => remaining.splice(Math.floor(float * remaining.length), 1)[0]);
+	});
+}
+
+/**
+ * Hashes one link of a crash hash chain. Rounds are played from the end of the chain backwards,
+ * so each round's hash hashes to the previous round's hash.
+ */
+export function hashCrashChainLink(hash: string): string {
+	return createHash('sha256').update(hash).digest('hex');
+}
+
+/**
+ * Generates a crash point from a round's chain hash and the chain's public salt,
+ * with the same distribution as limbo: P(crashPoint >= x) = (100 - houseEdge) / 100x
+ */
+export function generateCrashPoint(hash: string, salt: string, houseEdge: number = 1): number {
+	const hmac = createHmac('sha256', hash).update(salt).digest('hex');
+
+	// 52 bits fit exactly in a double
+	const float = parseInt(hmac.slice(0, 13), 16) / 2 ** 52;
+	const result = (100 - houseEdge) / (100 * (1 - float));
+
+	return Math.max(1, Math.min(CRASH_MAX_POINT, Math.floor(result * 100) / 100));
+}
+
 /**
  * Determines if a dice bet is a win
  */
@@ -102,22 +336,27 @@ export function isCoinFlipWin(result: 0 | 1, betSide: 'cat' | 'dog'): boolean {
 }
 
 /**
- * Calculates win chance for dice game
+ * Determines if a limbo bet is a win
  */
-export function calculateDiceWinChance(betType: 'over' | 'under', target: number): number {
-	if (betType === 'over') {
-		return Math.max(0, Math.min(100, 100 - target));
-	} else {
-		return Math.max(0, Math.min(100, target));
-	}
+export function isLimboWin(result: number, target: number): boolean {
+	return result >= target;
 }
 
 /**
- * Calculates multiplier based on win chance (with house edge)
+ * Calculates the mines multiplier after revealing `revealed` safe tiles (with house edge):
+ * the inverse of the chance of picking that many safe tiles in a row
  */
-export function calculateMultiplier(winChance: number, houseEdge: number = 1): number {
-	if (winChance <= 0) return 1;
-	return (100 - houseEdge) / winChance;
+export function calculateMinesMultiplier(
+	mineCount: number,
+	revealed: number,
+	houseEdge: number = 1
+): number {
+	let chance = 1;
+	for (let i = 0; i < revealed; i++) {
+		chance *= (MINES_GRID_SIZE - mineCount - i) / (MINES_GRID_SIZE - i);
+	}
+
+	return (100 - houseEdge) / 100 / chance;
 }
 
 /**
@@ -171,3 +410,237 @@ export function validateCoinFlipBet(
 
 	return { valid: true };
 }
+
+/**
+ * Validates bet parameters for limbo game
+ */
+export function validateLimboBet(
+	amount: number,
+	target: number,
+	balance: number
+): { valid: boolean; error?: string } {
+	if (amount <= 0) {
+		return { valid: false, error: 'Bet amount must be positive' };
+	}
+
+	if (amount > balance) {
+		return { valid: false, error: 'Insufficient balance' };
+	}
+
+	if (target < LIMBO_MIN_TARGET || target > LIMBO_MAX_TARGET) {
+		return {
+			valid: false,
+			error: `Target multiplier must be between ${LIMBO_MIN_TARGET} and ${LIMBO_MAX_TARGET}`
+		};
+	}
+
+	return { valid: true };
+}
+
+/**
+ * Validates bet parameters for plinko game
+ */
+export function validatePlinkoBet(
+	amount: number,
+	rows: number,
+	balance: number
+): { valid: boolean; error?: string } {
+	if (amount <= 0) {
+		return { valid: false, error: 'Bet amount must be positive' };
+	}
+
+	if (amount > balance) {
+		return { valid: false, error: 'Insufficient balance' };
+	}
+
+	if (!Number.isInteger(rows) || rows < PLINKO_MIN_ROWS || rows > PLINKO_MAX_ROWS) {
+		return {
+			valid: false,
+			error: `Rows must be between ${PLINKO_MIN_ROWS} and ${PLINKO_MAX_ROWS}`
+		};
+	}
+
+	return { valid: true };
+}
+
+/**
+ * Validates bet parameters for mines game
+ */
+export function validateMinesBet(
+	amount: number,
+	mineCount: number,
+	balance: number
+): { valid: boolean; error?: string } {
+	if (amount <= 0) {
+		return { valid: false, error: 'Bet amount must be positive' };
+	}
+
+	if (amount > balance) {
+		return { valid: false, error: 'Insufficient balance' };
+	}
+
+	if (!Number.isInteger(mineCount) || mineCount < 1 || mineCount > MINES_GRID_SIZE - 1) {
+		return { valid: false, error: `Mines must be between 1 and ${MINES_GRID_SIZE - 1}` };
+	}
+
+	return { valid: true };
+}
+
+/**
+ * Validates bet parameters for crash game
+ */
+export function validateCrashBet(
+	amount: number,
+	autoCashout: number | null,
+	balance: number
+): { valid: boolean; error?: string } {
+	if (amount <= 0) {
+		return { valid: false, error: 'Bet amount must be positive' };
+	}
+
+	if (amount > balance) {
+		return { valid: false, error: 'Insufficient balance' };
+	}
+
+	if (
+		autoCashout !== null &&
+		(autoCashout < CRASH_MIN_AUTO_CASHOUT || autoCashout > CRASH_MAX_AUTO_CASHOUT)
+	) {
+		return {
+			valid: false,
+			error: `Auto cashout must be between ${CRASH_MIN_AUTO_CASHOUT} and ${CRASH_MAX_AUTO_CASHOUT}`
+		};
+	}
+
+	return { valid: true };
+}
+
+/**
+ * Validates bet parameters for roulette game: the total stake and every chip placement
+ */
+export function validateRouletteBet(
+	amount: number,
+	chips: RoulettePlacement[],
+	balance: number
+): { valid: boolean; error?: string } {
+	if (amount <= 0) {
+		return { valid: false, error: 'Bet amount must be positive' };
+	}
+
+	if (amount > balance) {
+		return { valid: false, error: 'Insufficient balance' };
+	}
+
+	if (chips.length === 0 || chips.length > ROULETTE_MAX_CHIPS) {
+		return { valid: false, error: `Place between 1 and ${ROULETTE_MAX_CHIPS} chips` };
+	}
+
+	if (!chips.every(isValidPlacement)) {
+		return { valid: false, error: 'Invalid chip placement' };
+	}
+
+	return { valid: true };
+}
+
+/**
+ * Validates bet parameters for keno game
+ */
+export function validateKenoBet(
+	amount: number,
+	picks: number[],
+	balance: number
+): { valid: boolean; error?: string } {
+	if (amount <= 0) {
+		return { valid: false, error: 'Bet amount must be positive' };
+	}
+
+	if (amount > balance) {
+		return { valid: false, error: 'Insufficient balance' };
+	}
+
+	if (!isValidKenoPicks(picks)) {
+		return {
+			valid: false,
+			error: `Pick between 1 and ${KENO_MAX_PICKS} different numbers from 1 to ${KENO_NUMBERS}`
+		};
+	}
+
+	return { valid: true };
+}
+
+/**
+ * Validates bet parameters for blackjack game
+ */
+export function validateBlackjackBet(
+	amount: number,
+	balance: number
+): { valid: boolean; error?: string } {
+	if (amount <= 0) {
+		return { valid: false, error: 'Bet amount must be positive' };
+	}
+
+	if (amount > balance) {
+		return { valid: false, error: 'Insufficient balance' };
+	}
+
+	return { valid: true };
+}
+
+/**
+ * Validates bet parameters for hi-lo game
+ */
+export function validateHiloBet(
+	amount: number,
+	balance: number
+): { valid: boolean; error?: string } {
+	if (amount <= 0) {
+		return { valid: false, error: 'Bet amount must be positive' };
+	}
+
+	if (amount > balance) {
+		return { valid: false, error: 'Insufficient balance' };
+	}
+
+	return { valid: true };
+}
+
+/**
+ * Validates bet parameters for wheel game
+ */
+export function validateWheelBet(
+	amount: number,
+	segments: number,
+	balance: number
+): { valid: boolean; error?: string } {
+	if (amount <= 0) {
+		return { valid: false, error: 'Bet amount must be positive' };
+	}
+
+	if (amount > balance) {
+		return { valid: false, error: 'Insufficient balance' };
+	}
+
+	if (!(WHEEL_SEGMENTS as readonly number[]).includes(segments)) {
+		return { valid: false, error: `Segments must be one of ${WHEEL_SEGMENTS.join(', ')}` };
+	}
+
+	return { valid: true };
+}
+
+/**
+ * Validates bet parameters for dragon tower game
+ */
+export function validateTowerBet(
+	amount: number,
+	balance: number
+): { valid: boolean; error?: string } {
+	if (amount <= 0) {
+		return { valid: false, error: 'Bet amount must be positive' };
+	}
+
+	if (amount > balance) {
+		return { valid: false, error: 'Insufficient balance' };
+	}
+
+	return { valid: true };
+}
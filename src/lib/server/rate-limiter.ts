@@ -30,7 +30,7 @@ export function isRateLimited(
 	config: RateLimitConfig
 ): { limited: boolean; resetTime?: number; remaining?: number } {
 	const now = Date.now();
-	const key = `${identifier}:${config.windowMs}:${config.maxRequests}`;
+	const key = getStoreKey(identifier, config);
 
 	// Clean up expired entries periodically
 	cleanupExpiredEntries();
@@ -71,6 +71,10 @@ export function isRateLimited(
 	};
 }
 
+function getStoreKey(identifier: string, config: RateLimitConfig): string {
+	return `${identifier}:${config.windowMs}:${config.maxRequests}`;
+}
+
 /**
  * Create a rate limiter middleware function
  */
@@ -99,16 +103,24 @@ function cleanupExpiredEntries() {
 
 /**
  * Get rate limit headers for HTTP responses
+ * Reads the current window without counting another request against it
  */
 export function getRateLimitHeaders(
 	identifier: string,
 	config: RateLimitConfig
 ): Record<string, string> {
-	const result = isRateLimited(identifier, config);
+	const now = Date.now();
+	const entry = store.get(getStoreKey(identifier, config));
+	const windowActive = entry !== undefined && now <= entry.resetTime;
+
+	const remaining = windowActive
+		? Math.max(0, config.maxRequests - entry.count)
+		: config.maxRequests;
+	const resetTime = windowActive ? entry.resetTime : now + config.windowMs;
 
 	return {
 		'X-RateLimit-Limit': config.maxRequests.toString(),
-		'X-RateLimit-Remaining': (result.remaining || 0).toString(),
-		'X-RateLimit-Reset': Math.ceil((result.resetTime || Date.now()) / 1000).toString()
+		'X-RateLimit-Remaining': remaining.toString(),
+		'X-RateLimit-Reset': Math.ceil(resetTime / 1000).toString()
 	};
 }
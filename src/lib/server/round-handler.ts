@@ -0,0 +1,468 @@
+/**
+ * Shared handlers for multi-step games (mines, ...) that stay open across several requests.
+ * A round debits its stake and commits its outcome from the active seed pair when it starts,
+ * keeps its private state server-side while the player acts on it, and writes a bet row when it settles.
+ */
+
+import { json } from '@sveltejs/kit';
+import { and, eq } from 'drizzle-orm';
+import type { RequestEvent } from '@sveltejs/kit';
+import { db, type Transaction } from '$lib/server/db';
+import * as table from '$lib/server/db/schema';
+import * as auth from '$lib/server/auth';
+import { isRateLimited, RATE_LIMITS, getRateLimitHeaders } from '$lib/server/rate-limiter';
+import { handleCSRF } from '$lib/server/csrf';
+import { AppError, GameError } from '$lib/server/errors';
+import { getActiveSeedPairs, incrementNonce, toPublicSeedPair } from '$lib/server/seed-pair';
+import { postTransfer } from '$lib/server/ledger';
+import { assertBetAllowed, getGameConfig, type GameConfig } from '$lib/server/game-config';
+import { assertProfitAllowed, getPayoutLimit, recordBetSettlement } from '$lib/server/bankroll';
+import { assertWithinLimits } from '$lib/server/gambling-limits';
+import { DEFAULT_HOUSE_EDGE } from '$lib/server/provably-fair';
+import type { GameBetRequest } from '$lib/server/game-handler';
+import type { RoundGameDefinition } from '$lib/server/games/registry';
+
+export interface RoundSettlement {
+	win: boolean;
+	payout: number;
+	multiplier: number;
+	result: number;
+}
+
+export interface RoundStep<TState> {
+	state: TState;
+	additionalStake?: number; // Extra stake debited by this step, e.g. a double down
+	settlement?: RoundSettlement;
+}
+
+export interface RoundContext {
+	serverSeed: string;
+	clientSeed: string;
+	nonce: number;
+	stake: number;
+}
+
+export interface RoundStartContext extends RoundContext {
+	houseEdge: number; // Percent; games priced from it keep it in their state for the whole round
+}
+
+export interface RoundGameLogic<TRequest extends GameBetRequest, TState, TAction> {
+	validateStart: (request: TRequest, userBalance: number) => { valid: boolean; error?: string };
+	start: (context: RoundStartContext, request: TRequest) => RoundStep<TState>;
+	/**
+	 * Apply a player action to the round. Throw a GameError for moves that are not allowed.
+	 */
+	act: (context: RoundContext, state: TState, action: TAction) => RoundStep<TState>;
+	/**
+	 * The multiplier the round reaches if the action wins, for actions priced before they are
+	 * played. An action that could profit more than the bankroll allows is rejected up front
+	 * rather than paid at the limit; the player can still cash out.
+	 */
+	winMultiplier?: (state: TState, action: TAction) => number | null;
+	/**
+	 * The part of the state the player may see; private values (e.g. mine positions) only once settled
+	 */
+	toPublicState: (state: TState, settled: boolean) => Record<string, unknown>;
+}
+
+export interface PublicRound {
+	id: string;
+	gameType: string;
+	amount: number;
+	status: 'active' | 'settled';
+	state: Record<string, unknown>;
+	serverSeedHash: string;
+	clientSeed: string;
+	nonce: number;
+	createdAt: Date;
+}
+
+export interface RoundResult {
+	round: PublicRound;
+	newBalance: number;
+	settlement?: RoundSettlement & { betId: string; payoutCap?: number };
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type AnyRoundGame = RoundGameDefinition<any, any, any>;
+
+/**
+ * Get the user's active round for a game, if any
+ */
+export function findActiveRound(
+	tx: Transaction,
+	userId: string,
+	gameType: string
+): table.GameRound | undefined {
+	return tx
+		.select()
+		.from(table.gameRound)
+		.where(
+			and(
+				eq(table.gameRound.userId, userId),
+				eq(table.gameRound.gameType, gameType),
+				eq(table.gameRound.status, 'active')
+			)
+		)
+		.get();
+}
+
+function getSeedPair(tx: Transaction, seedPairId: string): table.SeedPair {
+	return tx.select().from(table.seedPair).where(eq(table.seedPair.id, seedPairId)).get()!;
+}
+
+function getBalance(tx: Transaction, userId: string): number {
+	return tx
+		.select({ balance: table.user.balance })
+		.from(table.user)
+		.where(eq(table.user.id, userId))
+		.get()!.balance;
+}
+
+/**
+ * Debit stake for a round, failing the whole step if the user cannot cover it or it would take
+ * them past one of their limits. The round's bet is written with the round's id when it settles,
+ * so the stake already references it.
+ */
+function debitStake(tx: Transaction, userId: string, amount: number, roundId: string): void {
+	assertWithinLimits(tx, userId, amount);
+	if (getBalance(tx, userId) < amount) {
+		throw new GameError('Insufficient balance');
+	}
+
+	postTransfer(tx, { type: 'bet_stake', userId, amount: -amount, reference: roundId });
+}
+
+function toPublicRound(
+	game: AnyRoundGame,
+	round: table.GameRound,
+	seedPair: table.SeedPair
+): PublicRound {
+	const settled = round.status === 'settled';
+
+	return {
+		id: round.id,
+		gameType: round.gameType,
+		amount: round.amount,
+		status: round.status,
+		state: game.logic.toPublicState(round.state, settled),
+		serverSeedHash: seedPair.serverSeedHash,
+		clientSeed: seedPair.clientSeed,
+		nonce: round.nonce,
+		createdAt: round.createdAt
+	};
+}
+
+/**
+ * Save a step's state and, if the step ended the round, write the bet row, pay out and move the
+ * bankroll. Payouts above the game's cap or the bankroll's limit are paid at it, and the
+ * settlement carries the limit as `payoutCap`.
+ */
+function applyStep(
+	tx: Transaction,
+	game: AnyRoundGame,
+	round: table.GameRound,
+	seedPair: table.SeedPair,
+	step: RoundStep<Record<string, unknown>>,
+	config: GameConfig
+): RoundResult {
+	const amount = round.amount + (step.additionalStake ?? 0);
+	let betId: string | null = null;
+	let payoutCap: number | undefined;
+
+	if (step.settlement) {
+		betId = round.id;
+
+		let gameData = game.logic.toPublicState(step.state, true);
+		const payoutLimit = getPayoutLimit(tx, config, amount);
+		if (step.settlement.payout > payoutLimit) {
+			payoutCap = payoutLimit;
+			step.settlement = { ...step.settlement, payout: payoutLimit };
+			gameData = { ...gameData, payoutCap };
+		}
+
+		tx.insert(table.bet)
+			.values({
+				id: betId,
+				userId: round.userId,
+				gameType: round.gameType,
+				amount,
+				multiplier: step.settlement.multiplier,
+				win: step.settlement.win,
+				payout: step.settlement.payout,
+				serverSeed: seedPair.serverSeed,
+				serverSeedHash: seedPair.serverSeedHash,
+				clientSeed: seedPair.clientSeed,
+				nonce: round.nonce,
+				seedPairId: seedPair.id,
+				gameData: JSON.stringify(gameData),
+				result: step.settlement.result,
+				createdAt: new Date()
+			})
+			.run();
+		recordBetSettlement(tx, {
+			betId,
+			gameType: round.gameType,
+			stake: amount,
+			payout: step.settlement.payout
+		});
+
+		if (step.settlement.payout > 0) {
+			postTransfer(tx, {
+				type: 'bet_payout',
+				userId: round.userId,
+				amount: step.settlement.payout,
+				reference: betId
+			});
+		}
+	}
+
+	const updated = tx
+		.update(table.gameRound)
+		.set({
+			amount,
+			state: step.state,
+			status: step.settlement ? 'settled' : 'active',
+			betId,
+			updatedAt: new Date()
+		})
+		.where(eq(table.gameRound.id, round.id))
+		.returning()
+		.get();
+
+	const result: RoundResult = {
+		round: toPublicRound(game, updated, seedPair),
+		newBalance: getBalance(tx, round.userId)
+	};
+
+	if (step.settlement && betId) {
+		result.settlement = {
+			...step.settlement,
+			payout: step.settlement.payout,
+			betId,
+			...(payoutCap !== undefined && { payoutCap })
+		};
+	}
+
+	return result;
+}
+
+async function authenticate(event: RequestEvent) {
+	const sessionToken = auth.getSessionToken(event);
+	if (!sessionToken) return null;
+
+	const { session, user } = await auth.validateSessionToken(sessionToken);
+	return session && user ? user : null;
+}
+
+function errorResponse(error: unknown, context: string): Response {
+	if (error instanceof AppError) {
+		return json(
+			{ success: false, error: error.message, ...(error.code && { code: error.code }) },
+			{ status: error.statusCode }
+		);
+	}
+
+	console.error(`${context} error:`, error);
+	return json({ success: false, error: 'Internal server error' }, { status: 500 });
+}
+
+/**
+ * Start a round: debit the stake, reserve a nonce on the active seed pair and commit the round state
+ */
+export async function handleRoundStart(event: RequestEvent, game: AnyRoundGame): Promise<Response> {
+	try {
+		// CSRF Protection
+		if (!handleCSRF(event)) {
+			return json({ success: false, error: 'CSRF token validation failed' }, { status: 403 });
+		}
+
+		const user = await authenticate(event);
+		if (!user) {
+			return json({ success: false, error: 'Authentication required' }, { status: 401 });
+		}
+
+		// Starting a round counts as a bet
+		const userIdentifier = `${user.id}:betting`;
+		const rateLimitResult = isRateLimited(userIdentifier, RATE_LIMITS.betting);
+		const headers = getRateLimitHeaders(userIdentifier, RATE_LIMITS.betting);
+
+		if (rateLimitResult.limited) {
+			return json(
+				{ success: false, error: 'Too many bets. Please slow down.' },
+				{ status: 429, headers }
+			);
+		}
+
+		let body: unknown;
+		try {
+			body = await event.request.json();
+		} catch {
+			return json({ success: false, error: 'Invalid request body' }, { status: 400, headers });
+		}
+
+		const parsed = game.requestSchema.safeParse(body);
+		if (!parsed.success) {
+			return json({ success: false, error: 'Invalid bet parameters' }, { status: 400, headers });
+		}
+		const request = parsed.data;
+
+		const validation = game.logic.validateStart(request, user.balance);
+		if (!validation.valid) {
+			return json({ success: false, error: validation.error }, { status: 400, headers });
+		}
+
+		const result = db.transaction((tx) => {
+			const config = getGameConfig(tx, game.type);
+			assertBetAllowed(game.type, config, request.amount);
+
+			if (findActiveRound(tx, user.id, game.type)) {
+				throw new GameError('You already have a round in progress');
+			}
+
+			const { active: seedPair } = getActiveSeedPairs(tx, user.id);
+			const nonce = incrementNonce(tx, seedPair);
+
+			const roundId = crypto.randomUUID();
+			debitStake(tx, user.id, request.amount, roundId);
+
+			const context: RoundStartContext = {
+				serverSeed: seedPair.serverSeed,
+				clientSeed: seedPair.clientSeed,
+				nonce,
+				stake: request.amount,
+				houseEdge: config.houseEdge ?? DEFAULT_HOUSE_EDGE
+			};
+			const step = game.logic.start(context, request);
+
+			const round = tx
+				.insert(table.gameRound)
+				.values({
+					id: roundId,
+					userId: user.id,
+					gameType: game.type,
+					seedPairId: seedPair.id,
+					nonce,
+					amount: request.amount,
+					state: step.state,
+					status: 'active',
+					createdAt: new Date(),
+					updatedAt: new Date()
+				})
+				.returning()
+				.get();
+
+			// Some games can settle on the opening deal, so the first step goes through applyStep too
+			if (step.additionalStake) {
+				debitStake(tx, user.id, step.additionalStake, round.id);
+			}
+			return applyStep(tx, game, round, seedPair, step, config);
+		});
+
+		return json({ success: true, result }, { headers });
+	} catch (error) {
+		return errorResponse(error, `${game.type} round start`);
+	}
+}
+
+/**
+ * Apply a player action (reveal, cash out, hit, ...) to the user's active round
+ */
+export async function handleRoundAction(
+	event: RequestEvent,
+	game: AnyRoundGame
+): Promise<Response> {
+	try {
+		// CSRF Protection
+		if (!handleCSRF(event)) {
+			return json({ success: false, error: 'CSRF token validation failed' }, { status: 403 });
+		}
+
+		const user = await authenticate(event);
+		if (!user) {
+			return json({ success: false, error: 'Authentication required' }, { status: 401 });
+		}
+
+		const userIdentifier = `${user.id}:round-action`;
+		const rateLimitResult = isRateLimited(userIdentifier, RATE_LIMITS.api);
+		const headers = getRateLimitHeaders(userIdentifier, RATE_LIMITS.api);
+
+		if (rateLimitResult.limited) {
+			return json(
+				{ success: false, error: 'Too many requests. Please slow down.' },
+				{ status: 429, headers }
+			);
+		}
+
+		let body: unknown;
+		try {
+			body = await event.request.json();
+		} catch {
+			return json({ success: false, error: 'Invalid request body' }, { status: 400, headers });
+		}
+
+		const parsed = game.actionSchema.safeParse(body);
+		if (!parsed.success) {
+			return json({ success: false, error: 'Invalid action' }, { status: 400, headers });
+		}
+
+		const result = db.transaction((tx) => {
+			const round = findActiveRound(tx, user.id, game.type);
+			if (!round) {
+				throw new GameError('No round in progress');
+			}
+
+			const seedPair = getSeedPair(tx, round.seedPairId);
+			const context: RoundContext = {
+				serverSeed: seedPair.serverSeed,
+				clientSeed: seedPair.clientSeed,
+				nonce: round.nonce,
+				stake: round.amount
+			};
+			const winMultiplier = game.logic.winMultiplier?.(round.state, parsed.data);
+			if (winMultiplier) {
+				assertProfitAllowed(tx, round.amount, winMultiplier);
+			}
+			const step = game.logic.act(context, round.state, parsed.data);
+
+			if (step.additionalStake) {
+				debitStake(tx, user.id, step.additionalStake, round.id);
+			}
+			return applyStep(tx, game, round, seedPair, step, getGameConfig(tx, game.type));
+		});
+
+		return json({ success: true, result }, { headers });
+	} catch (error) {
+		return errorResponse(error, `${game.type} round action`);
+	}
+}
+
+/**
+ * GET handler for round games: the seed commitment plus the active round, so a reload resumes it
+ */
+export async function handleRoundData(event: RequestEvent, game: AnyRoundGame): Promise<Response> {
+	try {
+		const user = await authenticate(event);
+		if (!user) {
+			return json({ success: false, error: 'Authentication required' }, { status: 401 });
+		}
+
+		const data = db.transaction((tx) => {
+			const seedPair = toPublicSeedPair(getActiveSeedPairs(tx, user.id));
+			const round = findActiveRound(tx, user.id, game.type);
+
+			return {
+				nextNonce: seedPair.nonce + 1,
+				clientSeed: seedPair.clientSeed,
+				serverSeedHash: seedPair.serverSeedHash,
+				nextServerSeedHash: seedPair.nextServerSeedHash,
+				balance: user.balance,
+				activeRound: round ? toPublicRound(game, round, getSeedPair(tx, round.seedPairId)) : null
+			};
+		});
+
+		return json({ success: true, data });
+	} catch (error) {
+		return errorResponse(error, `Get ${game.type} data`);
+	}
+}
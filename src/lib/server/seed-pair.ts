@@ -0,0 +1,210 @@
+/**
+ * Server seed commitments for provably fair games.
+ * Every user has an active seed pair that bets are played on and a pre-committed next pair.
+ * Only the hashes are shown while a pair is in use; the server seed is revealed on rotation.
+ */
+
+import { and, desc, eq } from 'drizzle-orm';
+import type { Transaction } from '$lib/server/db';
+import * as table from '$lib/server/db/schema';
+import { generateClientSeed, generateServerSeed } from '$lib/server/provably-fair';
+import { GameError } from '$lib/server/errors';
+
+const CLIENT_SEED_MAX_LENGTH = 64;
+
+export interface ActiveSeedPairs {
+	active: table.SeedPair;
+	next: table.SeedPair;
+}
+
+export interface PublicSeedPair {
+	clientSeed: string;
+	serverSeedHash: string;
+	nonce: number;
+	nextServerSeedHash: string;
+}
+
+export interface RevealedSeedPair {
+	serverSeed: string;
+	serverSeedHash: string;
+	clientSeed: string;
+	nonce: number;
+	revealedAt: Date | null;
+}
+
+export interface SeedState {
+	current: PublicSeedPair;
+	previous: RevealedSeedPair | null;
+}
+
+function insertSeedPair(
+	tx: Transaction,
+	userId: string,
+	status: 'next' | 'active'
+): table.SeedPair {
+	const { seed, hash } = generateServerSeed();
+
+	return tx
+		.insert(table.seedPair)
+		.values({
+			id: crypto.randomUUID(),
+			userId,
+			serverSeed: seed,
+			serverSeedHash: hash,
+			// Replaced by the user's client seed when a next pair is promoted
+			clientSeed: generateClientSeed(),
+			nonce: 0,
+			status,
+			createdAt: new Date()
+		})
+		.returning()
+		.get();
+}
+
+function findSeedPair(
+	tx: Transaction,
+	userId: string,
+	status: 'next' | 'active'
+): table.SeedPair | undefined {
+	return tx
+		.select()
+		.from(table.seedPair)
+		.where(and(eq(table.seedPair.userId, userId), eq(table.seedPair.status, status)))
+		.get();
+}
+
+function hasActiveRound(tx: Transaction, userId: string): boolean {
+	return !!tx
+		.select({ id: table.gameRound.id })
+		.from(table.gameRound)
+		.where(and(eq(table.gameRound.userId, userId), eq(table.gameRound.status, 'active')))
+		.get();
+}
+
+/**
+ * Validates a user-provided client seed
+ */
+export function validateClientSeed(clientSeed: unknown): { valid: boolean; error?: string } {
+	if (typeof clientSeed !== 'string' || clientSeed.trim().length === 0) {
+		return { valid: false, error: 'Client seed is required' };
+	}
+
+	if (clientSeed.length > CLIENT_SEED_MAX_LENGTH) {
+		return {
+			valid: false,
+			error: `Client seed must be at most ${CLIENT_SEED_MAX_LENGTH} characters`
+		};
+	}
+
+	if (!/^[\x21-\x7e]+$/.test(clientSeed)) {
+		return { valid: false, error: 'Client seed may only contain printable characters' };
+	}
+
+	return { valid: true };
+}
+
+/**
+ * Get the user's active and next seed pairs, committing new ones if they don't exist yet
+ */
+export function getActiveSeedPairs(tx: Transaction, userId: string): ActiveSeedPairs {
+	const active = findSeedPair(tx, userId, 'active') ?? insertSeedPair(tx, userId, 'active');
+	const next = findSeedPair(tx, userId, 'next') ?? insertSeedPair(tx, userId, 'next');
+
+	return { active, next };
+}
+
+/**
+ * Reserve the next nonce on a seed pair for a bet
+ */
+export function incrementNonce(tx: Transaction, seedPair: table.SeedPair): number {
+	const nonce = seedPair.nonce + 1;
+
+	tx.update(table.seedPair).set({ nonce }).where(eq(table.seedPair.id, seedPair.id)).run();
+
+	return nonce;
+}
+
+/**
+ * Reveal the active seed pair, promote the committed next pair and commit a new next pair.
+ * The current client seed is kept unless a new one is provided.
+ * Refused while a round is in progress, since revealing the seed would reveal its outcome.
+ */
+export function rotateSeedPair(
+	tx: Transaction,
+	userId: string,
+	clientSeed?: string
+): ActiveSeedPairs & { revealed: table.SeedPair } {
+	if (hasActiveRound(tx, userId)) {
+		throw new GameError('Finish your active round before rotating the seed pair');
+	}
+
+	const current = getActiveSeedPairs(tx, userId);
+
+	const revealed = tx
+		.update(table.seedPair)
+		.set({ status: 'revealed', revealedAt: new Date() })
+		.where(eq(table.seedPair.id, current.active.id))
+		.returning()
+		.get();
+
+	const active = tx
+		.update(table.seedPair)
+		.set({ status: 'active', clientSeed: clientSeed ?? current.active.clientSeed })
+		.where(eq(table.seedPair.id, current.next.id))
+		.returning()
+		.get();
+
+	const next = insertSeedPair(tx, userId, 'next');
+
+	return { revealed, active, next };
+}
+
+/**
+ * Get the most recently revealed seed pair for a user
+ */
+export function getPreviousSeedPair(tx: Transaction, userId: string): table.SeedPair | undefined {
+	return tx
+		.select()
+		.from(table.seedPair)
+		.where(and(eq(table.seedPair.userId, userId), eq(table.seedPair.status, 'revealed')))
+		.orderBy(desc(table.seedPair.revealedAt))
+		.limit(1)
+		.get();
+}
+
+/**
+ * Get everything the fairness view shows: the current commitment and the last revealed pair
+ */
+export function getSeedState(tx: Transaction, userId: string): SeedState {
+	const previous = getPreviousSeedPair(tx, userId);
+
+	return {
+		current: toPublicSeedPair(getActiveSeedPairs(tx, userId)),
+		previous: previous ? toRevealedSeedPair(previous) : null
+	};
+}
+
+/**
+ * Strip the secret server seed from the user's current pairs
+ */
+export function toPublicSeedPair({ active, next }: ActiveSeedPairs): PublicSeedPair {
+	return {
+		clientSeed: active.clientSeed,
+		serverSeedHash: active.serverSeedHash,
+		nonce: active.nonce,
+		nextServerSeedHash: next.serverSeedHash
+	};
+}
+
+/**
+ * Format a rotated seed pair for the client
+ */
+export function toRevealedSeedPair(seedPair: table.SeedPair): RevealedSeedPair {
+	return {
+		serverSeed: seedPair.serverSeed,
+		serverSeedHash: seedPair.serverSeedHash,
+		clientSeed: seedPair.clientSeed,
+		nonce: seedPair.nonce,
+		revealedAt: seedPair.revealedAt
+	};
+}
@@ -0,0 +1,202 @@
+/**
+ * Return-to-player simulator for the instant games.
+ * Plays a bet many times through the game's own `calculateResult` and reports how much of the
+ * stake came back, so each payout table can be checked against the advertised house edge.
+ * Round games are left out: what they return depends on the player's moves.
+ */
+
+import type { GameBetRequest } from '$lib/server/game-handler';
+import type { GameDefinition } from '$lib/server/games/registry';
+import {
+	DEFAULT_HOUSE_EDGE,
+	generateClientSeed,
+	generateServerSeed
+} from '$lib/server/provably-fair';
+// Imported one by one rather than through the registry, whose round games need the server env
+import { diceGame } from '$lib/server/games/dice';
+import { flipGame } from '$lib/server/games/flip';
+import { limboGame } from '$lib/server/games/limbo';
+import { plinkoGame } from '$lib/server/games/plinko';
+import { rouletteGame } from '$lib/server/games/roulette';
+import { kenoGame } from '$lib/server/games/keno';
+import { wheelGame } from '$lib/server/games/wheel';
+import { KENO_RISKS } from '$lib/utils/keno';
+import { PLINKO_RISKS } from '$lib/utils/plinko';
+import { WHEEL_RISKS, WHEEL_SEGMENTS } from '$lib/utils/wheel';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const SIMULATED_GAMES: Record<string, GameDefinition<any, any>> = {
+	dice: diceGame,
+	flip: flipGame,
+	limbo: limboGame,
+	plinko: plinkoGame,
+	roulette: rouletteGame,
+	keno: kenoGame,
+	wheel: wheelGame
+};
+
+// Rounds played on one seed pair before moving to a new one
+const ROUNDS_PER_SEED_PAIR = 100_000;
+
+export interface SimulationConfig {
+	game: string;
+	label: string;
+	request: Record<string, unknown>; // A bet body, as sent to POST /api/game/[game]
+}
+
+export interface SimulationReport {
+	game: string;
+	label: string;
+	rounds: number;
+	rtp: number; // Total returned over total staked
+	variance: number; // Of the return per unit staked
+	standardError: number; // Of the RTP
+	maxMultiplier: number;
+	hitRate: number; // Share of rounds that paid anything back
+}
+
+export interface SimulationOptions {
+	rounds: number;
+	seed?: string; // Derive the seed pairs from this instead of random ones, to repeat a run
+}
+
+// Minor units staked on each simulated bet: 100.00, so payouts rounding down to a whole cent
+// barely move the measured RTP
+const STAKE = 10_000;
+
+/**
+ * The configurations the simulator covers by default: the common bets on every instant game
+ */
+export const SIMULATION_CONFIGS: SimulationConfig[] = [
+	...[
+		['under', 50],
+		['over', 50],
+		['under', 10],
+		['over', 90],
+		['under', 98]
+	].map(([betType, target]) => ({
+		game: 'dice',
+		label: `${betType} ${target}`,
+		request: { amount: STAKE, betType, target }
+	})),
+	...['cat', 'dog'].map((side) => ({
+		game: 'flip',
+		label: side,
+		request: { amount: STAKE, side }
+	})),
+	...[1.01, 2, 10, 100].map((target) => ({
+		game: 'limbo',
+		label: `${target}x`,
+		request: { amount: STAKE, target }
+	})),
+	...[8, 12, 16].flatMap((rows) =>
+		PLINKO_RISKS.map((risk) => ({
+			game: 'plinko',
+			label: `${rows} rows ${risk}`,
+			request: { amount: STAKE, rows, risk }
+		}))
+	),
+	{ game: 'roulette', label: 'red', request: { chips: [{ type: 'red', amount: STAKE }] } },
+	{
+		game: 'roulette',
+		label: 'dozen',
+		request: { chips: [{ type: 'dozen', value: 2, amount: STAKE }] }
+	},
+	{
+		game: 'roulette',
+		label: 'straight',
+		request: { chips: [{ type: 'straight', numbers: [17], amount: STAKE }] }
+	},
+	...[1, 5, 10].flatMap((count) =>
+		KENO_RISKS.map((risk) => ({
+			game: 'keno',
+			label: `${count} picks ${risk}`,
+			request: { amount: STAKE, picks: Array.from({ length: count }, (_, i) => i + 1), risk }
+		}))
+	),
+	...WHEEL_SEGMENTS.flatMap((segments) =>
+		WHEEL_RISKS.map((risk) => ({
+			game: 'wheel',
+			label: `${segments} segments ${risk}`,
+			request: { amount: STAKE, segments, risk }
+		}))
+	)
+];
+
+/**
+ * List the games the simulator can play
+ */
+export function listSimulatedGames(): string[] {
+	return Object.keys(SIMULATED_GAMES);
+}
+
+function getSeedPair(index: number, seed?: string): { serverSeed: string; clientSeed: string } {
+	if (seed !== undefined) {
+		return { serverSeed: `${seed}:server:${index}`, clientSeed: `${seed}:client:${index}` };
+	}
+	return { serverSeed: generateServerSeed().seed, clientSeed: generateClientSeed() };
+}
+
+/**
+ * Play one configuration for the given number of rounds and report its return.
+ * Throws when the game is not simulated or the bet would be rejected.
+ */
+export function simulate(config: SimulationConfig, options: SimulationOptions): SimulationReport {
+	const game = SIMULATED_GAMES[config.game];
+	if (!game) {
+		throw new Error(`Game "${config.game}" cannot be simulated`);
+	}
+
+	const parsed = game.requestSchema.safeParse(config.request);
+	if (!parsed.success) {
+		throw new Error(`${config.game} ${config.label}: invalid bet parameters`);
+	}
+	const request: GameBetRequest = parsed.data;
+	const validation = game.logic.validateBet(request, Infinity);
+	if (!validation.valid) {
+		throw new Error(`${config.game} ${config.label}: ${validation.error}`);
+	}
+
+	// Running mean and sum of squared deviations of the return per unit staked (Welford)
+	let mean = 0;
+	let squares = 0;
+	let maxMultiplier = 0;
+	let hits = 0;
+	let seedPair = getSeedPair(0, options.seed);
+
+	for (let round = 0; round < options.rounds; round++) {
+		if (round > 0 && round % ROUNDS_PER_SEED_PAIR === 0) {
+			seedPair = getSeedPair(round / ROUNDS_PER_SEED_PAIR, options.seed);
+		}
+
+		const nonce = (round % ROUNDS_PER_SEED_PAIR) + 1;
+		const { payout } = game.logic.calculateResult(
+			seedPair.serverSeed,
+			seedPair.clientSeed,
+			nonce,
+			request,
+			game.houseEdge ?? DEFAULT_HOUSE_EDGE
+		);
+		const multiplier = payout / request.amount;
+
+		const delta = multiplier - mean;
+		mean += delta / (round + 1);
+		squares += delta * (multiplier - mean);
+		maxMultiplier = Math.max(maxMultiplier, multiplier);
+		if (payout > 0) hits++;
+	}
+
+	const rounds = options.rounds;
+	const variance = rounds > 1 ? squares / (rounds - 1) : 0;
+
+	return {
+		game: config.game,
+		label: config.label,
+		rounds,
+		rtp: mean,
+		variance,
+		standardError: rounds > 0 ? Math.sqrt(variance / rounds) : 0,
+		maxMultiplier,
+		hitRate: rounds > 0 ? hits / rounds : 0
+	};
+}
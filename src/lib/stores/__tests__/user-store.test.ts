@@ -23,7 +23,8 @@ describe('User Store', () => {
 			id: 'test-id',
 			username: 'testuser',
 			balance: 1000,
-			isAdmin: false
+			isAdmin: false,
+			isBanned: false
 		};
 
 		userStore.setUser(testUser);
@@ -42,7 +43,8 @@ describe('User Store', () => {
 			id: 'test-id',
 			username: 'testuser',
 			balance: 1000,
-			isAdmin: false
+			isAdmin: false,
+			isBanned: false
 		};
 
 		userStore.setUser(testUser);
@@ -87,7 +89,8 @@ describe('User Store', () => {
 			id: 'test-id',
 			username: 'testuser',
 			balance: 1000,
-			isAdmin: false
+			isAdmin: false,
+			isBanned: false
 		};
 
 		userStore.setUser(testUser);
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'bun:test';
+import {
+	DEFAULT_AUTO_BET_SETTINGS,
+	createAutoBetTally,
+	getAutoBetStopReason,
+	getNextAutoBetAmount,
+	recordAutoBet,
+	type AutoBetSettings
+} from '../auto-bet';
+
+function settings(overrides: Partial<AutoBetSettings> = {}): AutoBetSettings {
+	return { ...DEFAULT_AUTO_BET_SETTINGS, ...overrides };
+}
+
+describe('Auto-bet sizing', () => {
+	it('should reset or raise the stake by a percentage', () => {
+		const martingale = settings({ onLoss: { mode: 'increase', percent: 100 } });
+
+		expect(getNextAutoBetAmount(martingale, 100, 400, false)).toBe(800);
+		expect(getNextAutoBetAmount(martingale, 100, 400, true)).toBe(100);
+		expect(
+			getNextAutoBetAmount(settings({ onWin: { mode: 'increase', percent: 50 } }), 100, 100, true)
+		).toBe(150);
+		// Stakes stay whole minor units
+		expect(
+			getNextAutoBetAmount(settings({ onLoss: { mode: 'increase', percent: 33 } }), 1, 1, false)
+		).toBe(1);
+	});
+
+	it('should stop on the bet count, profit or loss limit', () => {
+		const tally = { ...createAutoBetTally(), bets: 3, profit: -5 };
+
+		expect(getAutoBetStopReason(settings({ bets: 3 }), tally)).toBe('completed');
+		expect(getAutoBetStopReason(settings({ bets: 0 }), tally)).toBeNull();
+		expect(getAutoBetStopReason(settings({ bets: 0, stopOnLoss: 5 }), tally)).toBe('loss');
+		expect(
+			getAutoBetStopReason(settings({ bets: 0, stopOnProfit: 2 }), { ...tally, profit: 2 })
+		).toBe('profit');
+	});
+
+	it('should keep a running tally of wins, losses and profit', () => {
+		let tally = createAutoBetTally();
+		tally = recordAutoBet(tally, 1, { win: false, payout: 0, newBalance: 99 });
+		tally = recordAutoBet(tally, 2, { win: true, payout: 4, newBalance: 101 });
+
+		expect(tally).toEqual({ bets: 2, wins: 1, losses: 1, wagered: 3, profit: 1 });
+	});
+});
@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'bun:test';
+import { getHandValue, isBlackjack } from '../blackjack';
+
+// Cards by rank in spades: 0 = ace, 9 = ten, 12 = king
+const ace = 0;
+const five = 4;
+const six = 5;
+const ten = 9;
+const king = 12;
+
+describe('Blackjack hand values', () => {
+	it('should count an ace as 11 only while that does not bust', () => {
+		expect(getHandValue([ace, six])).toEqual({ total: 17, soft: true });
+		expect(getHandValue([ace, six, ten])).toEqual({ total: 17, soft: false });
+		expect(getHandValue([ace, ace, ten])).toEqual({ total: 12, soft: false });
+		expect(getHandValue([king, five, ten])).toEqual({ total: 25, soft: false });
+	});
+
+	it('should only treat a two-card 21 as blackjack', () => {
+		expect(isBlackjack([ace, king])).toBe(true);
+		expect(isBlackjack([five, six, ten])).toBe(false);
+	});
+});
@@ -0,0 +1,14 @@
+import { describe, it, expect } from 'bun:test';
+import { getCardLabel, getCardRank } from '../cards';
+
+describe('Playing cards', () => {
+	it('should number ranks from the ace within each suit', () => {
+		expect(getCardRank(0)).toBe(0);
+		expect(getCardRank(13 + 12)).toBe(12);
+	});
+
+	it('should label ranks and suits', () => {
+		expect(getCardLabel(9)).toEqual({ rank: '10', suit: '♠', red: false });
+		expect(getCardLabel(13 + 12)).toEqual({ rank: 'K', suit: '♥', red: true });
+	});
+});
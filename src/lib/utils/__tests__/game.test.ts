@@ -0,0 +1,13 @@
+import { describe, it, expect } from 'bun:test';
+import { multiplyMoney } from '../money';
+import { calculateMultiplier, calculateProfit } from '../game';
+import * as provablyFair from '$lib/server/provably-fair';
+
+describe('Multiplier pricing', () => {
+	it('should preview the payout the server settles', () => {
+		const multiplier = calculateMultiplier(7);
+
+		expect(calculateProfit(10_000, multiplier) + 10_000).toBe(141_428);
+		expect(multiplyMoney(10_000, provablyFair.calculateMultiplier(7))).toBe(141_428);
+	});
+});
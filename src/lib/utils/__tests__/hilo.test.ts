@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'bun:test';
+import { getHiloChance, getHiloMultiplier, HILO_GUESSES } from '../hilo';
+
+// Cards by rank in spades: 0 = ace, 12 = king
+const ace = 0;
+const seven = 6;
+const king = 12;
+
+describe('Hi-Lo multipliers', () => {
+	it('should give every guess a 99% RTP on every rank', () => {
+		for (let card = ace; card <= king; card++) {
+			for (const guess of HILO_GUESSES) {
+				const chance = getHiloChance(card, guess);
+				if (chance === 0) continue;
+
+				// Over the 13 equally likely next ranks, only the right ones pay
+				const rtp = Array.from({ length: 13 }, (_, next) =>
+					getHiloMultiplier([card, next], [guess])
+				).reduce((sum, multiplier) => sum + multiplier / 13, 0);
+				expect(rtp).toBeCloseTo(0.99, 10);
+			}
+		}
+	});
+
+	it('should not pay the impossible guesses on an ace or a king', () => {
+		expect(getHiloChance(ace, 'lower')).toBe(0);
+		expect(getHiloChance(king, 'higher')).toBe(0);
+	});
+
+	it('should ignore skips and lose on any wrong guess', () => {
+		expect(getHiloMultiplier([seven, king, ace], ['skip', 'lower'])).toBeCloseTo(
+			0.99 / (12 / 13),
+			10
+		);
+		expect(getHiloMultiplier([seven, king, ace], ['lower', 'lower'])).toBe(0);
+	});
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'bun:test';
+import {
+	countKenoHits,
+	getKenoPayouts,
+	isValidKenoPicks,
+	KENO_DRAWS,
+	KENO_MAX_PICKS,
+	KENO_NUMBERS,
+	KENO_RISKS
+} from '../keno';
+
+function binomial(n: number, k: number): number {
+	let result = 1;
+	for (let i = 1; i <= k; i++) {
+		result = (result * (n - k + i)) / i;
+	}
+	return result;
+}
+
+describe('Keno payout tables', () => {
+	for (let picks = 1; picks <= KENO_MAX_PICKS; picks++) {
+		for (const risk of KENO_RISKS) {
+			it(`should have ~99% RTP for ${picks} picks at ${risk} risk`, () => {
+				const payouts = getKenoPayouts(picks, risk);
+
+				expect(payouts).toHaveLength(picks + 1);
+
+				// Hitting k of the picks is hypergeometric: k from the drawn numbers, the rest from the others
+				const rtp = payouts.reduce(
+					(sum, multiplier, hits) =>
+						sum +
+						multiplier *
+							binomial(KENO_DRAWS, hits) *
+							binomial(KENO_NUMBERS - KENO_DRAWS, picks - hits),
+					0
+				);
+				expect(rtp / binomial(KENO_NUMBERS, picks)).toBeGreaterThan(0.985);
+				expect(rtp / binomial(KENO_NUMBERS, picks)).toBeLessThan(0.995);
+			});
+		}
+	}
+
+	it('should reject unsupported pick counts', () => {
+		expect(() => getKenoPayouts(0, 'classic')).toThrow();
+		expect(() => getKenoPayouts(11, 'classic')).toThrow();
+	});
+});
+
+describe('Keno picks', () => {
+	it('should only accept 1-10 distinct numbers on the board', () => {
+		expect(isValidKenoPicks([1, 40])).toBe(true);
+		expect(isValidKenoPicks([])).toBe(false);
+		expect(isValidKenoPicks([0])).toBe(false);
+		expect(isValidKenoPicks([41])).toBe(false);
+		expect(isValidKenoPicks([5, 5])).toBe(false);
+		expect(isValidKenoPicks([1.5])).toBe(false);
+		expect(isValidKenoPicks(Array.from({ length: 11 }, (_, index) => index + 1))).toBe(false);
+	});
+
+	it('should count the picks that were drawn', () => {
+		expect(countKenoHits([1, 2, 3], [3, 9, 1])).toBe(2);
+	});
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'bun:test';
+import { formatMoney, fromMinor, isMinorAmount, multiplyMoney, toMinor } from '../money';
+
+describe('Money in minor units', () => {
+	it('should convert between major and minor units without drift', () => {
+		expect(toMinor(0.1 + 0.2)).toBe(30);
+		expect(toMinor(1234.565)).toBe(123457);
+		expect(fromMinor(123456)).toBe(1234.56);
+
+		// Ten thousand 0.01 bets add up exactly in minor units
+		let balance = toMinor(1000);
+		for (let i = 0; i < 10_000; i++) balance -= 1;
+		expect(balance).toBe(toMinor(900));
+	});
+
+	it('should only accept whole minor units', () => {
+		expect(isMinorAmount(100)).toBe(true);
+		expect(isMinorAmount(-5)).toBe(true);
+		expect(isMinorAmount(1.5)).toBe(false);
+		expect(isMinorAmount(Number.MAX_SAFE_INTEGER + 2)).toBe(false);
+		expect(isMinorAmount('100')).toBe(false);
+	});
+
+	it('should round payouts down to a whole minor unit', () => {
+		expect(multiplyMoney(1000, 1.13)).toBe(1130);
+		expect(multiplyMoney(100, 1.98)).toBe(198);
+		expect(multiplyMoney(7, 1.15)).toBe(8);
+		expect(multiplyMoney(333, 99 / 49.5)).toBe(666);
+		expect(multiplyMoney(100, 0)).toBe(0);
+	});
+
+	it('should format minor units with two decimals', () => {
+		expect(formatMoney(123456)).toBe('1234.56');
+		expect(formatMoney(5)).toBe('0.05');
+		expect(formatMoney(-150)).toBe('-1.50');
+	});
+});
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'bun:test';
+import { getPlinkoPayouts, PLINKO_MIN_ROWS, PLINKO_MAX_ROWS, PLINKO_RISKS } from '../plinko';
+
+function binomial(n: number, k: number): number {
+	let result = 1;
+	for (let i = 1; i <= k; i++) {
+		result = (result * (n - k + i)) / i;
+	}
+	return result;
+}
+
+describe('Plinko payout tables', () => {
+	for (let rows = PLINKO_MIN_ROWS; rows <= PLINKO_MAX_ROWS; rows++) {
+		for (const risk of PLINKO_RISKS) {
+			it(`should be symmetric with ~99% RTP for ${rows} rows at ${risk} risk`, () => {
+				const payouts = getPlinkoPayouts(rows, risk);
+
+				expect(payouts).toHaveLength(rows + 1);
+				expect(payouts).toEqual([...payouts].reverse());
+
+				// Each bucket k is reached by C(rows, k) of the 2^rows equally likely paths
+				const rtp = payouts.reduce(
+					(sum, multiplier, bucket) => sum + multiplier * binomial(rows, bucket),
+					0
+				);
+				expect(rtp / 2 ** rows).toBeGreaterThan(0.985);
+				expect(rtp / 2 ** rows).toBeLessThan(0.995);
+			});
+		}
+	}
+
+	it('should reject unsupported row counts', () => {
+		expect(() => getPlinkoPayouts(7, 'low')).toThrow();
+	});
+});
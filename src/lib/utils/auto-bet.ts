@@ -0,0 +1,107 @@
+/**
+ * Auto-betting for the instant games: bet sizing after wins and losses, stop conditions and the
+ * running tally. Sessions run on the server (`$lib/server/auto-bet`), which streams every result
+ * to the page as an `AutoBetEvent`.
+ */
+
+export interface AutoBetAdjustment {
+	mode: 'reset' | 'increase';
+	percent: number; // How much to raise the bet by, when increasing
+}
+
+export interface AutoBetSettings {
+	bets: number; // 0 keeps betting until stopped
+	onWin: AutoBetAdjustment;
+	onLoss: AutoBetAdjustment;
+	stopOnProfit: number; // Minor units; 0 disables the limit
+	stopOnLoss: number; // Minor units; 0 disables the limit
+}
+
+export interface AutoBetTally {
+	bets: number;
+	wins: number;
+	losses: number;
+	wagered: number;
+	profit: number;
+}
+
+export interface AutoBetOutcome {
+	win: boolean;
+	payout: number;
+	newBalance: number;
+}
+
+export type AutoBetStopReason = 'completed' | 'profit' | 'loss' | 'balance' | 'stopped' | 'error';
+
+export interface AutoBetSession {
+	id: string;
+	game: string;
+	request: Record<string, unknown>; // Bet parameters other than the amount
+	settings: AutoBetSettings;
+	baseAmount: number;
+	nextAmount: number;
+	status: 'running' | 'stopped';
+	stopReason: AutoBetStopReason | null;
+	error: string | null;
+	tally: AutoBetTally;
+}
+
+// A session update, and with it the bet that caused it, if any
+export type AutoBetEvent<TResult extends AutoBetOutcome = AutoBetOutcome> =
+	| { type: 'session'; session: AutoBetSession }
+	| { type: 'bet'; session: AutoBetSession; result: TResult };
+
+export const DEFAULT_AUTO_BET_SETTINGS: AutoBetSettings = {
+	bets: 10,
+	onWin: { mode: 'reset', percent: 0 },
+	onLoss: { mode: 'reset', percent: 0 },
+	stopOnProfit: 0,
+	stopOnLoss: 0
+};
+
+export function createAutoBetTally(): AutoBetTally {
+	return { bets: 0, wins: 0, losses: 0, wagered: 0, profit: 0 };
+}
+
+/**
+ * The stake for the next bet: back to the base amount, or raised by a percentage of the last one,
+ * rounded to a whole minor unit
+ */
+export function getNextAutoBetAmount(
+	settings: AutoBetSettings,
+	baseAmount: number,
+	lastAmount: number,
+	win: boolean
+): number {
+	const adjustment = win ? settings.onWin : settings.onLoss;
+	if (adjustment.mode === 'reset') return baseAmount;
+
+	return Math.round(lastAmount * (1 + adjustment.percent / 100));
+}
+
+export function recordAutoBet(
+	tally: AutoBetTally,
+	amount: number,
+	outcome: AutoBetOutcome
+): AutoBetTally {
+	return {
+		bets: tally.bets + 1,
+		wins: tally.wins + (outcome.win ? 1 : 0),
+		losses: tally.losses + (outcome.win ? 0 : 1),
+		wagered: tally.wagered + amount,
+		profit: tally.profit + outcome.payout - amount
+	};
+}
+
+/**
+ * Why the run should stop after the bets in the tally, or null to keep going
+ */
+export function getAutoBetStopReason(
+	settings: AutoBetSettings,
+	tally: AutoBetTally
+): AutoBetStopReason | null {
+	if (settings.stopOnProfit > 0 && tally.profit >= settings.stopOnProfit) return 'profit';
+	if (settings.stopOnLoss > 0 && -tally.profit >= settings.stopOnLoss) return 'loss';
+	if (settings.bets > 0 && tally.bets >= settings.bets) return 'completed';
+	return null;
+}
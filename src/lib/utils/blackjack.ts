@@ -0,0 +1,29 @@
+/**
+ * Blackjack shoe size and hand values, shared by the server game and the table UI.
+ */
+
+import { getCardRank } from './cards';
+
+export const BLACKJACK_DECKS = 6;
+export const BLACKJACK_SHOE_SIZE = 52 * BLACKJACK_DECKS;
+export const BLACKJACK_NATURAL_MULTIPLIER = 2.5; // A natural pays 3:2
+
+/**
+ * Hand total counting one ace as 11 where that does not bust; `soft` is set when it does
+ */
+export function getHandValue(cards: number[]): { total: number; soft: boolean } {
+	let total = 0;
+	let hasAce = false;
+
+	for (const card of cards) {
+		const rank = getCardRank(card);
+		total += Math.min(rank + 1, 10);
+		hasAce ||= rank === 0;
+	}
+
+	return hasAce && total + 10 <= 21 ? { total: total + 10, soft: true } : { total, soft: false };
+}
+
+export function isBlackjack(cards: number[]): boolean {
+	return cards.length === 2 && getHandValue(cards).total === 21;
+}
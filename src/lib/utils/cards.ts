@@ -0,0 +1,24 @@
+/**
+ * Playing cards shared by the card games and their UI.
+ * Cards are numbered 0-51: the suit is card / 13 and the rank is card % 13, with 0 the ace
+ * and 10-12 the jack, queen and king.
+ */
+
+const RANK_LABELS = ['A', '2', '3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K'];
+const SUIT_LABELS = ['♠', '♥', '♦', '♣'];
+
+export function getCardRank(card: number): number {
+	return card % 13;
+}
+
+/**
+ * The rank and suit of a card, e.g. "10♥"
+ */
+export function getCardLabel(card: number): { rank: string; suit: string; red: boolean } {
+	const suit = Math.floor(card / 13);
+	return {
+		rank: RANK_LABELS[getCardRank(card)],
+		suit: SUIT_LABELS[suit],
+		red: suit === 1 || suit === 2
+	};
+}
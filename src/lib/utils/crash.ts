@@ -0,0 +1,53 @@
+/**
+ * Crash round timing and the events pushed to players, shared by the server scheduler and the page.
+ * The multiplier grows exponentially from 1.00x once a round starts, so both sides can derive it
+ * from the time elapsed since the round's start.
+ */
+
+export const CRASH_BETTING_MS = 7000; // Countdown in which bets are accepted
+export const CRASH_COOLDOWN_MS = 3000; // Pause between a crash and the next countdown
+export const CRASH_TICK_MS = 100; // How often the running multiplier is pushed
+export const CRASH_GROWTH_RATE = 0.00006; // Per millisecond: 2x after about 11.5 seconds
+
+export const CRASH_MIN_AUTO_CASHOUT = 1.01;
+export const CRASH_MAX_AUTO_CASHOUT = 1_000_000;
+
+export type CrashRoundStatus = 'betting' | 'running' | 'crashed';
+
+export interface PublicCrashBet {
+	username: string;
+	amount: number;
+	cashoutMultiplier: number | null;
+	payout: number;
+}
+
+export interface PublicCrashRound {
+	id: string;
+	chainIndex: number; // Position of the round on its hash chain
+	status: CrashRoundStatus;
+	startsAt: number; // Epoch ms the multiplier starts rising
+	previousHash: string; // The hash this round's hash must chain to; public from the start
+	hash: string | null; // Revealed once the round has crashed
+	crashPoint: number | null; // Revealed once the round has crashed
+	bets: PublicCrashBet[];
+}
+
+export type CrashEvent =
+	| { type: 'round'; round: PublicCrashRound; now: number }
+	| { type: 'tick'; multiplier: number; elapsed: number }
+	| { type: 'bet'; bet: PublicCrashBet }
+	| { type: 'cashout'; bet: PublicCrashBet };
+
+/**
+ * The multiplier shown `elapsed` ms after a round started, floored to 2 decimal places
+ */
+export function getCrashMultiplier(elapsed: number): number {
+	return Math.floor(Math.exp(CRASH_GROWTH_RATE * Math.max(0, elapsed)) * 100) / 100;
+}
+
+/**
+ * How long after its start a round with this crash point runs before it crashes
+ */
+export function getCrashDuration(crashPoint: number): number {
+	return Math.ceil(Math.log(crashPoint) / CRASH_GROWTH_RATE);
+}
@@ -9,6 +9,8 @@ export interface ApiError {
 	error: string;
 	timestamp?: string;
 	stack?: string;
+	retryAt?: number; // Set on rate-limited responses: when the limit resets, in ms since the epoch
+	code?: string; // Set on rejections a client can act on, e.g. 'WAGER_LIMIT_EXCEEDED'
 }
 
 export interface ApiSuccess<T> {
@@ -106,7 +108,8 @@ export async function apiCall<T>(
 
 			return {
 				success: false,
-				error: retryMessage
+				error: retryMessage,
+				retryAt: retryAfter ? parseInt(retryAfter) * 1000 : Date.now()
 			};
 		}
 
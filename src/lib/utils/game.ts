@@ -1,24 +1,40 @@
 import type { GameHistory } from '$lib/types/game';
 import type { BetHistoryItem } from '$lib/api';
+import { multiplyMoney } from './money';
 
 export function validateInput(value: number, min: number, max: number): number {
 	return Math.max(min, Math.min(max, value));
 }
 
-export function calculateDiceWinChance(betType: 'over' | 'under', rollTarget: number): number {
+/**
+ * Win chance of a dice bet in percent. The server settles dice with this and the functions below,
+ * so they stay unrounded; round only for display.
+ */
+export function calculateDiceWinChance(betType: 'over' | 'under', target: number): number {
 	if (betType === 'over') {
-		return Math.round((100 - rollTarget) * 100) / 100;
+		return Math.max(0, Math.min(100, 100 - target));
 	} else {
-		return Math.round(rollTarget * 100) / 100;
+		return Math.max(0, Math.min(100, target));
 	}
 }
 
-export function calculateMultiplier(winChance: number): number {
-	return winChance > 0 ? Math.round((99 / winChance) * 10000) / 10000 : 1;
+/**
+ * Multiplier for a win chance, priced with the game's house edge (percent)
+ */
+export function calculateMultiplier(winChance: number, houseEdge: number = 1): number {
+	if (winChance <= 0) return 1;
+	return (100 - houseEdge) / winChance;
 }
 
+export function calculateLimboWinChance(target: number, houseEdge: number = 1): number {
+	return target > 0 ? (100 - houseEdge) / target : 0;
+}
+
+/**
+ * Profit on a win in minor units, with the payout rounded down as the server pays it
+ */
 export function calculateProfit(betAmount: number, multiplier: number): number {
-	return betAmount * (multiplier - 1);
+	return multiplyMoney(betAmount, multiplier) - betAmount;
 }
 
 export function generateGameId(): string {
@@ -0,0 +1,63 @@
+/**
+ * Hi-Lo guesses and multipliers, shared by the server game and the card trail UI.
+ * Cards are drawn with replacement, so every rank is equally likely on each draw; aces are low.
+ */
+
+import { getCardRank } from './cards';
+
+export type HiloGuess = 'higher' | 'lower' | 'same';
+export type HiloStep = HiloGuess | 'skip';
+
+export const HILO_GUESSES: HiloGuess[] = ['higher', 'lower', 'same'];
+
+/**
+ * Chance that the next card makes a guess right: strictly higher, strictly lower or the same rank
+ */
+export function getHiloChance(card: number, guess: HiloGuess): number {
+	const rank = getCardRank(card);
+
+	switch (guess) {
+		case 'higher':
+			return (12 - rank) / 13;
+		case 'lower':
+			return rank / 13;
+		case 'same':
+			return 1 / 13;
+	}
+}
+
+export function isHiloCorrect(card: number, next: number, guess: HiloGuess): boolean {
+	const rank = getCardRank(card);
+	const nextRank = getCardRank(next);
+
+	switch (guess) {
+		case 'higher':
+			return nextRank > rank;
+		case 'lower':
+			return nextRank < rank;
+		case 'same':
+			return nextRank === rank;
+	}
+}
+
+/**
+ * The cash-out multiplier for a trail of cards and the step taken before each card after the first:
+ * the house edge is applied once over the combined chance of every guess, and a wrong guess is 0
+ */
+export function getHiloMultiplier(
+	cards: number[],
+	steps: HiloStep[],
+	houseEdge: number = 1
+): number {
+	let chance = 1;
+
+	for (let i = 0; i < steps.length; i++) {
+		const step = steps[i];
+		if (step === 'skip') continue;
+		if (!isHiloCorrect(cards[i], cards[i + 1], step)) return 0;
+
+		chance *= getHiloChance(cards[i], step);
+	}
+
+	return (100 - houseEdge) / 100 / chance;
+}
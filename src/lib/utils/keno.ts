@@ -0,0 +1,94 @@
+/**
+ * Keno payout tables, shared by the server game and the board UI.
+ * Each table has one multiplier per hit count (picks + 1) and an RTP of about 99%.
+ */
+
+export type KenoRisk = 'low' | 'classic' | 'medium' | 'high';
+
+export const KENO_NUMBERS = 40;
+export const KENO_DRAWS = 10;
+export const KENO_MAX_PICKS = 10;
+export const KENO_RISKS: KenoRisk[] = ['low', 'classic', 'medium', 'high'];
+
+// Indexed by pick count - 1, then by number of hits
+const TABLES: Record<KenoRisk, number[][]> = {
+	low: [
+		[0.7, 1.85],
+		[0, 2, 3.8],
+		[0, 1.1, 1.38, 26],
+		[0, 0, 2.2, 7.9, 90],
+		[0, 0, 1.5, 4.2, 13, 300],
+		[0, 0, 1.1, 2, 6.2, 100, 700],
+		[0, 0, 1.1, 1.6, 3.5, 15, 225, 700],
+		[0, 0, 1.1, 1.5, 2, 5.5, 39, 100, 800],
+		[0, 0, 1.1, 1.3, 1.7, 2.5, 7.5, 50, 250, 1000],
+		[0, 0, 1.1, 1.2, 1.3, 1.8, 3.5, 13, 50, 250, 1000]
+	],
+	classic: [
+		[0, 3.96],
+		[0, 1.9, 4.5],
+		[0, 1, 3.1, 10.4],
+		[0, 0.8, 1.8, 5, 22.5],
+		[0, 0.25, 1.4, 4.1, 16.5, 36],
+		[0, 0, 1, 3.68, 7, 16.5, 40],
+		[0, 0, 0.47, 3, 4.5, 14, 31, 60],
+		[0, 0, 0, 2.2, 4, 13, 22, 55, 70],
+		[0, 0, 0, 1.55, 3, 8, 15, 44, 60, 85],
+		[0, 0, 0, 1.4, 2.25, 4.5, 8, 17, 50, 80, 100]
+	],
+	medium: [
+		[0.4, 2.75],
+		[0, 1.8, 5.1],
+		[0, 0, 2.8, 50],
+		[0, 0, 1.7, 10, 100],
+		[0, 0, 1.4, 4, 14, 390],
+		[0, 0, 0, 3, 9, 180, 710],
+		[0, 0, 0, 2, 7, 30, 400, 800],
+		[0, 0, 0, 2, 4, 11, 67, 400, 900],
+		[0, 0, 0, 2, 2.5, 5, 15, 100, 500, 1000],
+		[0, 0, 0, 1.6, 2, 4, 7, 26, 100, 500, 1000]
+	],
+	high: [
+		[0, 3.96],
+		[0, 0, 17.1],
+		[0, 0, 0, 81.5],
+		[0, 0, 0, 10, 259],
+		[0, 0, 0, 4.5, 48, 450],
+		[0, 0, 0, 0, 11, 350, 710],
+		[0, 0, 0, 0, 7, 90, 400, 800],
+		[0, 0, 0, 0, 5, 20, 270, 600, 900],
+		[0, 0, 0, 0, 4, 11, 56, 500, 800, 1000],
+		[0, 0, 0, 0, 3.5, 8, 13, 63, 500, 800, 1000]
+	]
+};
+
+/**
+ * Get the multiplier for each hit count, from zero hits up to every pick hit
+ */
+export function getKenoPayouts(picks: number, risk: KenoRisk): number[] {
+	const table = TABLES[risk]?.[picks - 1];
+	if (!table) {
+		throw new Error(`No keno payout table for ${picks} picks at ${risk} risk`);
+	}
+
+	return table;
+}
+
+/**
+ * Check a pick list: 1 to KENO_MAX_PICKS distinct numbers from 1 to KENO_NUMBERS
+ */
+export function isValidKenoPicks(picks: number[]): boolean {
+	return (
+		picks.length >= 1 &&
+		picks.length <= KENO_MAX_PICKS &&
+		new Set(picks).size === picks.length &&
+		picks.every((pick) => Number.isInteger(pick) && pick >= 1 && pick <= KENO_NUMBERS)
+	);
+}
+
+/**
+ * Count how many picks were drawn
+ */
+export function countKenoHits(picks: number[], drawn: number[]): number {
+	return picks.filter((pick) => drawn.includes(pick)).length;
+}
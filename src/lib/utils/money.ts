@@ -0,0 +1,42 @@
+/**
+ * Money is held as an integer number of minor units (cents) everywhere: in the database, in bet
+ * requests and in API responses. Amounts are only converted to major units to be shown or typed.
+ */
+
+export const MINOR_UNITS = 100; // Minor units per major unit
+
+/**
+ * Major units (e.g. 12.34) to minor units (1234), rounded to the nearest minor unit
+ */
+export function toMinor(major: number): number {
+	return Math.round(major * MINOR_UNITS);
+}
+
+/**
+ * Minor units to major units, for display and input fields
+ */
+export function fromMinor(minor: number): number {
+	return minor / MINOR_UNITS;
+}
+
+/**
+ * Whether a value is a whole number of minor units
+ */
+export function isMinorAmount(value: unknown): value is number {
+	return Number.isSafeInteger(value);
+}
+
+/**
+ * An amount times a multiplier, rounded down to a whole minor unit.
+ * The product is first rounded to remove floating-point noise, so 1000 x 1.13 pays 1130, not 1129.
+ */
+export function multiplyMoney(amount: number, multiplier: number): number {
+	return Math.floor(Math.round(amount * multiplier * 1e6) / 1e6);
+}
+
+/**
+ * Format minor units as a major-unit amount with two decimals, e.g. 123456 -> "1234.56"
+ */
+export function formatMoney(minor: number): string {
+	return fromMinor(minor).toFixed(2);
+}
@@ -0,0 +1,73 @@
+/**
+ * Plinko payout tables, shared by the server game and the board UI.
+ * Each table is symmetric with one multiplier per bucket (rows + 1) and an RTP of about 99%.
+ */
+
+export type PlinkoRisk = 'low' | 'medium' | 'high';
+
+export const PLINKO_MIN_ROWS = 8;
+export const PLINKO_MAX_ROWS = 16;
+export const PLINKO_RISKS: PlinkoRisk[] = ['low', 'medium', 'high'];
+
+// Left half of each table including the centre bucket; the right half mirrors it
+const HALF_TABLES: Record<number, Record<PlinkoRisk, number[]>> = {
+	8: {
+		low: [5.6, 2.1, 1.1, 1, 0.5],
+		medium: [13, 3, 1.3, 0.7, 0.4],
+		high: [29, 4, 1.5, 0.3, 0.2]
+	},
+	9: {
+		low: [5.6, 2, 1.6, 1, 0.7],
+		medium: [18, 4, 1.7, 0.9, 0.5],
+		high: [43, 7, 2, 0.6, 0.2]
+	},
+	10: {
+		low: [8.9, 3, 1.4, 1.1, 1, 0.5],
+		medium: [22, 5, 2, 1.4, 0.6, 0.4],
+		high: [76, 10, 3, 0.9, 0.3, 0.2]
+	},
+	11: {
+		low: [8.4, 3, 1.9, 1.3, 1, 0.7],
+		medium: [24, 6, 3, 1.8, 0.7, 0.5],
+		high: [120, 14, 5.2, 1.4, 0.4, 0.2]
+	},
+	12: {
+		low: [10, 3, 1.6, 1.4, 1.1, 1, 0.5],
+		medium: [33, 11, 4, 2, 1.1, 0.6, 0.3],
+		high: [170, 24, 8.1, 2, 0.7, 0.2, 0.2]
+	},
+	13: {
+		low: [8.1, 4, 3, 1.9, 1.2, 0.9, 0.7],
+		medium: [43, 13, 6, 3, 1.3, 0.7, 0.4],
+		high: [260, 37, 11, 4, 1, 0.2, 0.2]
+	},
+	14: {
+		low: [7.1, 4, 1.9, 1.4, 1.3, 1.1, 1, 0.5],
+		medium: [58, 15, 7, 4, 1.9, 1, 0.5, 0.2],
+		high: [420, 56, 18, 5, 1.9, 0.3, 0.2, 0.2]
+	},
+	15: {
+		low: [15, 8, 3, 2, 1.5, 1.1, 1, 0.7],
+		medium: [88, 18, 11, 5, 3, 1.3, 0.5, 0.3],
+		high: [620, 83, 27, 8, 3, 0.5, 0.2, 0.2]
+	},
+	16: {
+		low: [16, 9, 2, 1.4, 1.4, 1.2, 1.1, 1, 0.5],
+		medium: [110, 41, 10, 5, 3, 1.5, 1, 0.5, 0.3],
+		high: [1000, 130, 26, 9, 4, 2, 0.2, 0.2, 0.2]
+	}
+};
+
+/**
+ * Get the bucket multipliers for a board, left to right
+ */
+export function getPlinkoPayouts(rows: number, risk: PlinkoRisk): number[] {
+	const half = HALF_TABLES[rows]?.[risk];
+	if (!half) {
+		throw new Error(`No plinko payout table for ${rows} rows at ${risk} risk`);
+	}
+
+	// Even row counts have a single centre bucket that must not be mirrored twice
+	const mirrored = [...half].reverse().slice(rows % 2 === 0 ? 1 : 0);
+	return [...half, ...mirrored];
+}
@@ -0,0 +1,147 @@
+/**
+ * European roulette table layout and chip placements, shared by the server game and the betting board.
+ * Odds are quoted "to 1": a winning chip returns its stake plus the stake times the odds.
+ */
+
+export const ROULETTE_POCKETS = 37; // Single zero: 0-36
+export const ROULETTE_MAX_CHIPS = 100;
+
+export const RED_NUMBERS = [1, 3, 5, 7, 9, 12, 14, 16, 18, 19, 21, 23, 25, 27, 30, 32, 34, 36];
+
+// Pockets in the order they sit on the wheel, clockwise from zero
+export const WHEEL_ORDER = [
+	0, 32, 15, 19, 4, 21, 2, 25, 17, 34, 6, 27, 13, 36, 11, 30, 8, 23, 10, 5, 24, 16, 33, 1, 20, 14,
+	31, 9, 22, 18, 29, 7, 28, 12, 35, 3, 26
+];
+
+export const INSIDE_BET_TYPES = ['straight', 'split', 'street', 'corner'] as const;
+export const RANGE_BET_TYPES = ['dozen', 'column'] as const;
+export const EVEN_MONEY_BET_TYPES = ['red', 'black', 'odd', 'even'] as const;
+
+export type InsideBetType = (typeof INSIDE_BET_TYPES)[number];
+export type RangeBetType = (typeof RANGE_BET_TYPES)[number];
+export type EvenMoneyBetType = (typeof EVEN_MONEY_BET_TYPES)[number];
+export type RouletteBetType = InsideBetType | RangeBetType | EvenMoneyBetType;
+
+// A spot on the table; a placement is a spot with a stake on it
+export type RouletteSpot =
+	| { type: InsideBetType; numbers: number[] }
+	| { type: RangeBetType; value: 1 | 2 | 3 }
+	| { type: EvenMoneyBetType };
+
+export type RoulettePlacement = RouletteSpot & { amount: number };
+
+export const ROULETTE_ODDS: Record<RouletteBetType, number> = {
+	straight: 35,
+	split: 17,
+	street: 11, // Includes the 0-1-2 and 0-2-3 trios
+	corner: 8, // Includes the 0-1-2-3 first four
+	dozen: 2,
+	column: 2,
+	red: 1,
+	black: 1,
+	odd: 1,
+	even: 1
+};
+
+function toKey(numbers: number[]): string {
+	return [...numbers].sort((a, b) => a - b).join('-');
+}
+
+/**
+ * Every valid inside bet, keyed by its sorted numbers. On the table number n sits in
+ * column ((n - 1) % 3) + 1 of row ceil(n / 3), so n + 1 is beside it and n + 3 is the next row.
+ */
+const INSIDE_BETS: Record<InsideBetType, Set<string>> = (() => {
+	const straight = Array.from({ length: ROULETTE_POCKETS }, (_, n) => [n]);
+	const split = [
+		[0, 1],
+		[0, 2],
+		[0, 3]
+	];
+	const street = [
+		[0, 1, 2],
+		[0, 2, 3]
+	];
+	const corner = [[0, 1, 2, 3]];
+
+	for (let n = 1; n <= 36; n++) {
+		const hasNextInRow = n % 3 !== 0;
+		const hasNextRow = n <= 33;
+
+		if (hasNextInRow) split.push([n, n + 1]);
+		if (hasNextRow) split.push([n, n + 3]);
+		if (n % 3 === 1) street.push([n, n + 1, n + 2]);
+		if (hasNextInRow && hasNextRow) corner.push([n, n + 1, n + 3, n + 4]);
+	}
+
+	return {
+		straight: new Set(straight.map(toKey)),
+		split: new Set(split.map(toKey)),
+		street: new Set(street.map(toKey)),
+		corner: new Set(corner.map(toKey))
+	};
+})();
+
+export function isInsideBet<T extends RouletteSpot>(
+	spot: T
+): spot is Extract<T, { type: InsideBetType }> {
+	return (INSIDE_BET_TYPES as readonly string[]).includes(spot.type);
+}
+
+/**
+ * Check that a placement's numbers form a bet that exists on the table
+ */
+export function isValidPlacement(spot: RouletteSpot): boolean {
+	if (!isInsideBet(spot)) return true;
+
+	const { type, numbers } = spot;
+	return new Set(numbers).size === numbers.length && INSIDE_BETS[type].has(toKey(numbers));
+}
+
+/**
+ * The pockets a placement wins on. Zero only wins inside bets that include it.
+ */
+export function getCoveredNumbers(spot: RouletteSpot): number[] {
+	if (isInsideBet(spot)) return spot.numbers;
+
+	const numbers = Array.from({ length: 36 }, (_, i) => i + 1);
+
+	switch (spot.type) {
+		case 'dozen':
+			return numbers.filter((n) => Math.ceil(n / 12) === spot.value);
+		case 'column':
+			return numbers.filter((n) => ((n - 1) % 3) + 1 === spot.value);
+		case 'red':
+			return RED_NUMBERS;
+		case 'black':
+			return numbers.filter((n) => !RED_NUMBERS.includes(n));
+		case 'odd':
+			return numbers.filter((n) => n % 2 === 1);
+		case 'even':
+			return numbers.filter((n) => n % 2 === 0);
+	}
+}
+
+/**
+ * What a placement returns when the ball lands in `pocket`: stake plus winnings, or 0
+ */
+export function getPlacementPayout(placement: RoulettePlacement, pocket: number): number {
+	return getCoveredNumbers(placement).includes(pocket)
+		? placement.amount * (ROULETTE_ODDS[placement.type] + 1)
+		: 0;
+}
+
+/**
+ * A stable key for a spot on the table
+ */
+export function getSpotKey(spot: RouletteSpot): string {
+	if (isInsideBet(spot)) return `${spot.type}:${toKey(spot.numbers)}`;
+	if ('value' in spot) return `${spot.type}:${spot.value}`;
+	return spot.type;
+}
+
+export function getPocketColor(pocket: number): 'green' | 'red' | 'black' {
+	if (pocket === 0) return 'green';
+	return RED_NUMBERS.includes(pocket) ? 'red' : 'black';
+}
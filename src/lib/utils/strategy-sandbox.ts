@@ -0,0 +1,359 @@
+/**
+ * Runs a strategy script in a Web Worker hosted by a sandboxed iframe. The frame has no
+ * `allow-same-origin`, so the script runs in an opaque origin with no access to the page, its
+ * cookies or its storage, and the frame's Content Security Policy, which the worker inherits,
+ * blocks every network request and any code built at runtime. A call that runs past the timeout
+ * removes the frame, which ends the worker with it. Scripts that use `import` are refused before
+ * they load, and the worker also removes the network and code-loading globals it knows of.
+ */
+
+import {
+	StrategyTimeoutError,
+	type StrategyBetResult,
+	type StrategySandbox,
+	type StrategyState
+} from './strategy';
+
+// Extra time the first call gets while the frame and worker load
+const STARTUP_MS = 1000;
+
+// No requests of any kind; inline script for the frame's relay and a blob: URL for the worker
+const FRAME_CSP = "default-src 'none'; script-src 'unsafe-inline'; worker-src blob:";
+
+// Globals the script could reach the network or other contexts through, or run code it builds at
+// runtime with, which would get past the import check
+const BLOCKED_GLOBALS = [
+	'fetch',
+	'XMLHttpRequest',
+	'WebSocket',
+	'WebSocketStream',
+	'WebTransport',
+	'EventSource',
+	'importScripts',
+	'indexedDB',
+	'caches',
+	'BroadcastChannel',
+	'Worker',
+	'SharedWorker',
+	'eval',
+	'Function',
+	'setTimeout',
+	'setInterval'
+];
+
+// Words after which a `/` starts a regular expression rather than dividing
+const KEYWORDS_BEFORE_EXPRESSION = new Set([
+	'return',
+	'typeof',
+	'instanceof',
+	'in',
+	'new',
+	'delete',
+	'void',
+	'throw',
+	'case',
+	'do',
+	'else'
+]);
+
+const IDENTIFIER_START = /[\p{ID_Start}$_#\\]/u;
+const IDENTIFIER_PART = /[\p{ID_Continue}$\\]/u;
+
+/**
+ * Whether the script uses `import` as a keyword, for a static import or an `import()` call.
+ * Comments, strings, template text and regular expressions are skipped, and so are property
+ * names like `a.import` or `{ import: 1 }`. Where the scan cannot tell division from a regular
+ * expression it reads on as code, so a doubtful script is refused rather than let through.
+ */
+function usesImportKeyword(source: string): boolean {
+	// Open `{` and `${`, to know whether a `}` closes a block or resumes a template
+	const braces: ('block' | 'template')[] = [];
+	// Whether a `/` here would divide, which it does after a value
+	let afterValue = false;
+	let previous = '';
+	let i = 0;
+
+	// Skip a template's text from `i` to its closing backtick or to a `${`
+	const skipTemplate = () => {
+		while (i < source.length) {
+			const char = source[i];
+			if (char === '\\') {
+				i += 2;
+			} else if (char === '`') {
+				i++;
+				afterValue = true;
+				return;
+			} else if (char === '$' && source[i + 1] === '{') {
+				i += 2;
+				braces.push('template');
+				afterValue = false;
+				return;
+			} else {
+				i++;
+			}
+		}
+	};
+
+	while (i < source.length) {
+		const char = source[i];
+		const next = source[i + 1];
+
+		if (/\s/.test(char)) {
+			i++;
+		} else if (char === '/' && next === '/') {
+			const end = source.indexOf('\n', i);
+			i = end === -1 ? source.length : end;
+		} else if (char === '/' && next === '*') {
+			const end = source.indexOf('*/', i + 2);
+			i = end === -1 ? source.length : end + 2;
+		} else if (char === '"' || char === "'") {
+			i++;
+			while (i < source.length && source[i] !== char && source[i] !== '\n') {
+				i += source[i] === '\\' ? 2 : 1;
+			}
+			i++;
+			afterValue = true;
+			previous = '';
+		} else if (char === '`') {
+			i++;
+			skipTemplate();
+			previous = '';
+		} else if (char === '/' && !afterValue) {
+			let inClass = false;
+			i++;
+			while (i < source.length && source[i] !== '\n' && (inClass || source[i] !== '/')) {
+				if (source[i] === '\\') i++;
+				else if (source[i] === '[') inClass = true;
+				else if (source[i] === ']') inClass = false;
+				i++;
+			}
+			i++;
+			while (i < source.length && IDENTIFIER_PART.test(source[i])) i++;
+			afterValue = true;
+			previous = '';
+		} else if (IDENTIFIER_START.test(char)) {
+			const start = i;
+			i++;
+			while (i < source.length && IDENTIFIER_PART.test(source[i])) i++;
+			const word = source.slice(start, i);
+
+			if (word === 'import' && previous !== '.') {
+				const rest = source.slice(i).trimStart();
+				if (!rest.startsWith(':')) return true;
+			}
+
+			afterValue = !KEYWORDS_BEFORE_EXPRESSION.has(word);
+			previous = word;
+		} else if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(next ?? ''))) {
+			i++;
+			while (i < source.length && /[\w.]/.test(source[i])) i++;
+			afterValue = true;
+			previous = '';
+		} else {
+			if (char === '{') {
+				braces.push('block');
+			} else if (char === '}' && braces.pop() === 'template') {
+				i++;
+				skipTemplate();
+				previous = '';
+				continue;
+			}
+
+			i++;
+			// `?.` reads as `.`, so `a?.import` is a property too
+			if (char === '?' && next === '.' && !/[0-9]/.test(source[i + 1] ?? '')) {
+				i++;
+				previous = '.';
+			} else {
+				previous = char;
+			}
+			// `++` and `--` may follow a value, so a `/` after them is read as division
+			const step = (char === '+' || char === '-') && next === char;
+			if (step) i++;
+			afterValue = step || char === ')' || char === ']' || char === '}';
+		}
+	}
+
+	return false;
+}
+
+/**
+ * The worker's code: lock down the globals, define the script, then answer each nextBet request
+ */
+function buildWorkerSource(source: string): string {
+	return `'use strict';
+(() => {
+	for (const name of ${JSON.stringify(BLOCKED_GLOBALS)}) {
+		try {
+			Object.defineProperty(self, name, { value: undefined, configurable: false });
+		} catch {
+			// Not defined in this browser
+		}
+	}
+	// Every kind of function still reaches its constructor through the prototype
+	for (const fn of [function () {}, async function () {}, function* () {}, async function* () {}]) {
+		Object.defineProperty(Object.getPrototypeOf(fn), 'constructor', { value: undefined });
+	}
+})();
+
+${source}
+
+self.onmessage = ((post) => (event) => {
+	try {
+		if (typeof nextBet !== 'function') throw new Error('The script must define nextBet(lastResult, state)');
+		const { lastResult, state } = event.data;
+		const amount = nextBet(lastResult, state);
+		post({ ok: true, amount, state });
+	} catch (error) {
+		post({ ok: false, error: error instanceof Error ? error.message : String(error) });
+	}
+})(self.postMessage.bind(self));
+`;
+}
+
+/**
+ * The frame's document: it takes the worker's code and a port from the page, starts the worker
+ * and passes messages between the two
+ */
+function buildFrameDocument(): string {
+	return `<!doctype html>
+<meta http-equiv="Content-Security-Policy" content="${FRAME_CSP}">
+<script>
+addEventListener('message', function start(event) {
+	if (event.source !== parent || !event.ports[0]) return;
+	removeEventListener('message', start);
+	const port = event.ports[0];
+	const url = URL.createObjectURL(new Blob([event.data], { type: 'text/javascript' }));
+	const worker = new Worker(url);
+	worker.onmessage = (reply) => port.postMessage(reply.data);
+	worker.onerror = (error) => {
+		error.preventDefault();
+		port.postMessage({ ok: false, fatal: true, error: error.message || 'The script could not be loaded' });
+	};
+	port.onmessage = (request) => worker.postMessage(request.data);
+});
+</script>`;
+}
+
+type WorkerReply =
+	| { ok: true; amount: unknown; state: StrategyState }
+	| { ok: false; error: string; fatal?: boolean };
+
+/**
+ * Where the worker runs: `post` sends it a request, `onReply` gets its answers and load errors
+ * (as fatal replies), and `dispose` ends it
+ */
+export interface StrategyHost {
+	post(message: { lastResult: StrategyBetResult | null; state: StrategyState }): void;
+	onReply(handler: (reply: WorkerReply) => void): void;
+	dispose(): void;
+}
+
+/**
+ * Start the worker in a sandboxed iframe, which is how the page runs scripts
+ */
+export function startFrameHost(workerSource: string): StrategyHost {
+	const frame = document.createElement('iframe');
+	const channel = new MessageChannel();
+	frame.sandbox.add('allow-scripts');
+	frame.srcdoc = buildFrameDocument();
+	frame.hidden = true;
+	frame.addEventListener(
+		'load',
+		() => frame.contentWindow?.postMessage(workerSource, '*', [channel.port2]),
+		{ once: true }
+	);
+	document.body.append(frame);
+
+	return {
+		post: (message) => channel.port1.postMessage(message),
+		onReply: (handler) => {
+			channel.port1.onmessage = (event: MessageEvent<WorkerReply>) => handler(event.data);
+		},
+		dispose: () => {
+			channel.port1.close();
+			frame.remove();
+		}
+	};
+}
+
+/**
+ * Start the worker directly, without the frame's isolation, where there is no document to hold a
+ * frame, as under `bun test`
+ */
+export function startWorkerHost(workerSource: string): StrategyHost {
+	const url = URL.createObjectURL(new Blob([workerSource], { type: 'text/javascript' }));
+	const worker = new Worker(url);
+
+	return {
+		post: (message) => worker.postMessage(message),
+		onReply: (handler) => {
+			worker.onmessage = (event: MessageEvent<WorkerReply>) => handler(event.data);
+			worker.onerror = (event) => {
+				event.preventDefault();
+				handler({
+					ok: false,
+					fatal: true,
+					error: event.message || 'The script could not be loaded'
+				});
+			};
+		},
+		dispose: () => {
+			worker.terminate();
+			URL.revokeObjectURL(url);
+		}
+	};
+}
+
+/**
+ * Start a sandbox for a script. Each call gets `timeoutMs` to return; after a timeout or a
+ * syntax error the sandbox is disposed and every later call fails.
+ */
+export function createStrategySandbox(
+	source: string,
+	timeoutMs: number,
+	startHost: (workerSource: string) => StrategyHost = startFrameHost
+): StrategySandbox {
+	if (usesImportKeyword(source)) {
+		const error = new Error('Scripts cannot import modules');
+		return { nextBet: () => Promise.reject(error), dispose: () => {} };
+	}
+
+	const host = startHost(buildWorkerSource(source));
+	let failure: Error | null = null;
+	let started = false;
+
+	return {
+		nextBet(lastResult: StrategyBetResult | null, state: StrategyState) {
+			if (failure) return Promise.reject(failure);
+
+			return new Promise((resolve, reject) => {
+				const fail = (error: Error) => {
+					failure = error;
+					host.dispose();
+					reject(error);
+				};
+				const timer = setTimeout(
+					() => fail(new StrategyTimeoutError(timeoutMs)),
+					started ? timeoutMs : timeoutMs + STARTUP_MS
+				);
+				started = true;
+
+				host.onReply((reply) => {
+					clearTimeout(timer);
+					if (reply.ok) resolve({ amount: reply.amount, state: reply.state });
+					else if (reply.fatal) fail(new Error(reply.error));
+					else reject(new Error(reply.error));
+				});
+
+				try {
+					host.post({ lastResult, state });
+				} catch {
+					clearTimeout(timer);
+					reject(new Error('The strategy state must only hold plain data'));
+				}
+			});
+		},
+		dispose: () => host.dispose()
+	};
+}
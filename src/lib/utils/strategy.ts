@@ -0,0 +1,336 @@
+/**
+ * Betting strategy scripts for the instant games.
+ * A script defines `nextBet(lastResult, state)`, which is called before every bet and returns the
+ * next stake, or null (or 0) to end the run. `lastResult` is null before the first bet; `state`
+ * carries the run's figures and anything the script stores on it between calls. Amounts, including
+ * the returned stake, are minor units (cents); fractional stakes are rounded to the nearest one.
+ * Scripts run in a sandbox (see `strategy-sandbox.ts`) and can only place real bets within the
+ * run's limits, once a dry run on locally generated seeds has passed.
+ */
+
+import { createAutoBetTally, recordAutoBet, type AutoBetTally } from './auto-bet';
+import type { ApiResponse } from './error-handling';
+import { multiplyMoney } from './money';
+
+export interface StrategyBetResult {
+	win: boolean;
+	amount: number;
+	payout: number;
+	multiplier: number;
+}
+
+export interface StrategyState {
+	baseAmount: number;
+	balance: number;
+	bets: number;
+	wins: number;
+	losses: number;
+	wagered: number;
+	profit: number;
+	[key: string]: unknown; // Anything the script keeps between calls
+}
+
+export interface StrategyLimits {
+	maxBets: number;
+	maxStake: number;
+	timeoutMs: number; // How long each nextBet call may run
+}
+
+export interface StrategyOutcome {
+	win: boolean;
+	payout: number;
+	multiplier: number;
+	newBalance: number;
+}
+
+export type StrategyStopReason =
+	| 'finished' // nextBet returned no stake
+	| 'maxBets'
+	| 'maxStake'
+	| 'balance'
+	| 'timeout'
+	| 'error'
+	| 'stopped';
+
+export interface StrategyRun {
+	reason: StrategyStopReason;
+	tally: AutoBetTally;
+	error?: string;
+}
+
+/**
+ * Where a script runs; `nextBet` resolves with the stake it returned and the state it left behind
+ */
+export interface StrategySandbox {
+	nextBet(
+		lastResult: StrategyBetResult | null,
+		state: StrategyState
+	): Promise<{ amount: unknown; state: StrategyState }>;
+	dispose(): void;
+}
+
+export class StrategyTimeoutError extends Error {
+	constructor(timeoutMs: number) {
+		super(`nextBet did not return within ${timeoutMs}ms`);
+		this.name = 'StrategyTimeoutError';
+	}
+}
+
+export const DEFAULT_STRATEGY_LIMITS: StrategyLimits = {
+	maxBets: 100,
+	maxStake: 1000,
+	timeoutMs: 50
+};
+export const STRATEGY_MAX_BETS = 10_000;
+export const STRATEGY_MAX_TIMEOUT_MS = 1000;
+
+// Consecutive rate-limited attempts at one bet before giving up
+const MAX_RETRIES = 5;
+
+export type StrategyTemplate = 'martingale' | 'fibonacci' | 'dalembert' | 'labouchere';
+
+export const STRATEGY_TEMPLATES: Record<StrategyTemplate, string> = {
+	martingale: `// Martingale: double the stake after a loss, back to the base stake after a win
+function nextBet(lastResult, state) {
+	if (!lastResult || lastResult.win) return state.baseAmount;
+	return lastResult.amount * 2;
+}
+`,
+	fibonacci: `// Fibonacci: one step up the sequence after a loss, two steps back after a win
+function nextBet(lastResult, state) {
+	state.step = state.step ?? 0;
+	if (lastResult) state.step = lastResult.win ? Math.max(0, state.step - 2) : state.step + 1;
+
+	let [a, b] = [1, 1];
+	for (let i = 0; i < state.step; i++) [a, b] = [b, a + b];
+	return state.baseAmount * a;
+}
+`,
+	dalembert: `// D'Alembert: one unit more after a loss, one unit less after a win
+function nextBet(lastResult, state) {
+	state.units = state.units ?? 1;
+	if (lastResult) state.units = Math.max(1, state.units + (lastResult.win ? -1 : 1));
+	return state.baseAmount * state.units;
+}
+`,
+	labouchere: `// Labouchère: stake the first and last numbers of the line, in base stakes.
+// A win crosses both off, a loss adds the stake to the end; the run ends when the line is empty.
+function nextBet(lastResult, state) {
+	state.line = state.line ?? [1, 2, 3, 4];
+	if (lastResult) {
+		state.line = lastResult.win ? state.line.slice(1, -1) : [...state.line, state.units];
+	}
+	if (state.line.length === 0) return null;
+
+	const line = state.line;
+	state.units = line.length === 1 ? line[0] : line[0] + line[line.length - 1];
+	return state.baseAmount * state.units;
+}
+`
+};
+
+/**
+ * Check a run's limits, returning an error message when they are not usable
+ */
+export function validateStrategyLimits(limits: StrategyLimits): string | null {
+	if (
+		!Number.isInteger(limits.maxBets) ||
+		limits.maxBets < 1 ||
+		limits.maxBets > STRATEGY_MAX_BETS
+	) {
+		return `Max bets must be between 1 and ${STRATEGY_MAX_BETS}`;
+	}
+	if (!(limits.maxStake > 0)) {
+		return 'Max stake must be greater than 0';
+	}
+	if (!(limits.timeoutMs > 0) || limits.timeoutMs > STRATEGY_MAX_TIMEOUT_MS) {
+		return `Timeout must be between 1 and ${STRATEGY_MAX_TIMEOUT_MS}ms`;
+	}
+	return null;
+}
+
+function wait(ms: number, signal: AbortSignal): Promise<void> {
+	return new Promise((resolve) => {
+		const timer = setTimeout(resolve, ms);
+		signal.addEventListener(
+			'abort',
+			() => {
+				clearTimeout(timer);
+				resolve();
+			},
+			{ once: true }
+		);
+	});
+}
+
+/**
+ * Ask the script for each stake and place it, until the script ends the run, a limit is hit or
+ * the signal is aborted. Rate-limited bets are retried once the limit resets.
+ */
+export async function runStrategy<T extends StrategyOutcome>(options: {
+	sandbox: StrategySandbox;
+	limits: StrategyLimits;
+	baseAmount: number;
+	balance: number;
+	signal: AbortSignal;
+	placeBet: (amount: number) => Promise<ApiResponse<T>>;
+	onResult?: (result: T, tally: AutoBetTally) => void | Promise<void>;
+	sleep?: (ms: number, signal: AbortSignal) => Promise<void>;
+	now?: () => number;
+}): Promise<StrategyRun> {
+	const {
+		sandbox,
+		limits,
+		baseAmount,
+		signal,
+		placeBet,
+		onResult,
+		sleep = wait,
+		now = Date.now
+	} = options;
+
+	let tally = createAutoBetTally();
+	let balance = options.balance;
+	let lastResult: StrategyBetResult | null = null;
+	let state: StrategyState = { baseAmount, balance, ...tally };
+
+	while (!signal.aborted) {
+		if (tally.bets >= limits.maxBets) {
+			return { reason: 'maxBets', tally };
+		}
+
+		let amount: unknown;
+		try {
+			({ amount, state } = await sandbox.nextBet(lastResult, {
+				...state,
+				baseAmount,
+				balance,
+				...tally
+			}));
+		} catch (error) {
+			const reason = error instanceof StrategyTimeoutError ? 'timeout' : 'error';
+			return { reason, tally, error: error instanceof Error ? error.message : String(error) };
+		}
+
+		if (signal.aborted) break;
+		if (amount === null || amount === undefined || amount === 0) {
+			return { reason: 'finished', tally };
+		}
+		if (typeof amount !== 'number' || !Number.isFinite(amount) || amount < 0) {
+			return { reason: 'error', tally, error: 'nextBet must return a stake or null' };
+		}
+
+		const stake = Math.round(amount);
+		if (stake > limits.maxStake) {
+			return { reason: 'maxStake', tally };
+		}
+		if (stake <= 0 || stake > balance) {
+			return { reason: 'balance', tally };
+		}
+
+		let response = await placeBet(stake);
+		for (
+			let retries = 0;
+			!response.success && response.retryAt !== undefined && retries < MAX_RETRIES;
+			retries++
+		) {
+			await sleep(Math.max(1000, response.retryAt - now()), signal);
+			if (signal.aborted) return { reason: 'stopped', tally };
+			response = await placeBet(stake);
+		}
+
+		if (!response.success) {
+			return { reason: 'error', tally, error: response.error };
+		}
+
+		const result = (response.result ?? response.data)!;
+		tally = recordAutoBet(tally, stake, result);
+		balance = result.newBalance;
+		lastResult = {
+			win: result.win,
+			amount: stake,
+			payout: result.payout,
+			multiplier: result.multiplier
+		};
+		await onResult?.(result, tally);
+	}
+
+	return { reason: 'stopped', tally };
+}
+
+/**
+ * The dice and flip result (0.00-99.99) for a seed pair and nonce, derived the same way as
+ * `generateGameResult` on the server but with Web Crypto, so it runs in the browser
+ */
+export async function generateLocalGameResult(
+	serverSeed: string,
+	clientSeed: string,
+	nonce: number
+): Promise<number> {
+	const encoder = new TextEncoder();
+	const key = await crypto.subtle.importKey(
+		'raw',
+		encoder.encode(serverSeed),
+		{ name: 'HMAC', hash: 'SHA-256' },
+		false,
+		['sign']
+	);
+	const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${clientSeed}-${nonce}`));
+
+	return (new DataView(signature).getUint32(0) % 10000) / 100;
+}
+
+function randomHex(bytes: number): string {
+	return Array.from(crypto.getRandomValues(new Uint8Array(bytes)), (byte) =>
+		byte.toString(16).padStart(2, '0')
+	).join('');
+}
+
+export interface StrategyDryRun extends StrategyRun {
+	serverSeed: string;
+	clientSeed: string;
+	largestStake: number;
+	lowestBalance: number;
+}
+
+/**
+ * Play a script against a fresh local seed pair without touching the real balance.
+ * `play` turns each game result into the outcome the real game would give.
+ */
+export async function dryRunStrategy(options: {
+	sandbox: StrategySandbox;
+	limits: StrategyLimits;
+	baseAmount: number;
+	balance: number;
+	play: (result: number) => { win: boolean; multiplier: number };
+	signal?: AbortSignal;
+}): Promise<StrategyDryRun> {
+	const serverSeed = randomHex(32);
+	const clientSeed = randomHex(8);
+	let balance = options.balance;
+	let nonce = 0;
+	let largestStake = 0;
+	let lowestBalance = balance;
+
+	const run = await runStrategy({
+		...options,
+		signal: options.signal ?? new AbortController().signal,
+		placeBet: async (amount) => {
+			const { win, multiplier } = options.play(
+				await generateLocalGameResult(serverSeed, clientSeed, ++nonce)
+			);
+			const payout = win ? multiplyMoney(amount, multiplier) : 0;
+
+			largestStake = Math.max(largestStake, amount);
+			lowestBalance = Math.min(lowestBalance, balance - amount);
+			balance += payout - amount;
+
+			return {
+				success: true,
+				result: { win, payout, multiplier: win ? multiplier : 0, newBalance: balance }
+			};
+		}
+	});
+
+	return { ...run, serverSeed, clientSeed, largestStake, lowestBalance };
+}
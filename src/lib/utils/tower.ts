@@ -0,0 +1,31 @@
+/**
+ * Dragon Tower difficulties and multipliers, shared by the server game and the tower UI.
+ * Every row has the same number of tiles, some of them safe; the player picks one tile per row
+ * from the bottom up.
+ */
+
+export type TowerDifficulty = 'easy' | 'medium' | 'hard' | 'expert' | 'master';
+
+export const TOWER_ROWS = 9;
+export const TOWER_DIFFICULTIES: TowerDifficulty[] = ['easy', 'medium', 'hard', 'expert', 'master'];
+
+export const TOWER_LAYOUTS: Record<TowerDifficulty, { tiles: number; safe: number }> = {
+	easy: { tiles: 4, safe: 3 },
+	medium: { tiles: 3, safe: 2 },
+	hard: { tiles: 2, safe: 1 },
+	expert: { tiles: 3, safe: 1 },
+	master: { tiles: 4, safe: 1 }
+};
+
+/**
+ * Multiplier after clearing `rows` rows (with house edge): the inverse of the chance of picking a
+ * safe tile on each of them
+ */
+export function getTowerMultiplier(
+	difficulty: TowerDifficulty,
+	rows: number,
+	houseEdge: number = 1
+): number {
+	const { tiles, safe } = TOWER_LAYOUTS[difficulty];
+	return (100 - houseEdge) / 100 / (safe / tiles) ** rows;
+}
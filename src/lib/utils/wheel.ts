@@ -0,0 +1,169 @@
+/**
+ * Wheel payout layouts, shared by the server game and the wheel UI.
+ * Each layout has one multiplier per segment, clockwise from the pointer, and returns 99% of the
+ * stake on average, the same 1% house edge `calculateMultiplier` uses for the other games.
+ */
+
+export type WheelRisk = 'low' | 'medium' | 'high';
+
+export const WHEEL_SEGMENTS = [10, 20, 30, 40, 50] as const;
+export const WHEEL_RISKS: WheelRisk[] = ['low', 'medium', 'high'];
+
+export type WheelSegments = (typeof WHEEL_SEGMENTS)[number];
+
+// How many segments carry each multiplier, for every segment count and risk
+const GROUPS: Record<WheelSegments, Record<WheelRisk, [multiplier: number, count: number][]>> = {
+	10: {
+		low: [
+			[0, 2],
+			[1.2, 7],
+			[1.5, 1]
+		],
+		medium: [
+			[0, 5],
+			[1.5, 2],
+			[1.9, 1],
+			[2, 1],
+			[3, 1]
+		],
+		high: [
+			[0, 9],
+			[9.9, 1]
+		]
+	},
+	20: {
+		low: [
+			[0, 4],
+			[1.2, 14],
+			[1.5, 2]
+		],
+		medium: [
+			[0, 10],
+			[1.5, 2],
+			[1.8, 1],
+			[2, 6],
+			[3, 1]
+		],
+		high: [
+			[0, 19],
+			[19.8, 1]
+		]
+	},
+	30: {
+		low: [
+			[0, 6],
+			[1.2, 21],
+			[1.5, 3]
+		],
+		medium: [
+			[0, 15],
+			[1.5, 6],
+			[1.7, 1],
+			[2, 6],
+			[3, 1],
+			[4, 1]
+		],
+		high: [
+			[0, 29],
+			[29.7, 1]
+		]
+	},
+	40: {
+		low: [
+			[0, 8],
+			[1.2, 28],
+			[1.5, 4]
+		],
+		medium: [
+			[0, 20],
+			[1.5, 8],
+			[1.6, 1],
+			[2, 7],
+			[3, 4]
+		],
+		high: [
+			[0, 39],
+			[39.6, 1]
+		]
+	},
+	50: {
+		low: [
+			[0, 10],
+			[1.2, 35],
+			[1.5, 5]
+		],
+		medium: [
+			[0, 25],
+			[1.5, 13],
+			[2, 8],
+			[3, 3],
+			[5, 1]
+		],
+		high: [
+			[0, 49],
+			[49.5, 1]
+		]
+	}
+};
+
+/**
+ * Spread each multiplier evenly around the wheel: every segment takes the multiplier that is
+ * furthest behind its share so far
+ */
+function arrange(groups: [number, number][]): number[] {
+	const total = groups.reduce((sum, [, count]) => sum + count, 0);
+	const placed = groups.map(() => 0);
+
+	return Array.from({ length: total }, (_, segment) => {
+		let best = 0;
+		let bestDeficit = -Infinity;
+
+		groups.forEach(([, count], group) => {
+			const deficit = (count * (segment + 1)) / total - placed[group];
+			if (deficit > bestDeficit) {
+				best = group;
+				bestDeficit = deficit;
+			}
+		});
+
+		placed[best]++;
+		return groups[best][0];
+	});
+}
+
+const LAYOUTS = new Map<string, number[]>();
+
+/**
+ * Get the multiplier on each segment of a wheel, clockwise from the pointer
+ */
+export function getWheelLayout(segments: number, risk: WheelRisk): number[] {
+	const groups = GROUPS[segments as WheelSegments]?.[risk];
+	if (!groups) {
+		throw new Error(`No wheel layout for ${segments} segments at ${risk} risk`);
+	}
+
+	const key = `${segments}:${risk}`;
+	if (!LAYOUTS.has(key)) {
+		LAYOUTS.set(key, arrange(groups));
+	}
+	return LAYOUTS.get(key)!;
+}
+
+/**
+ * Map a game result (0.00-99.99, as from `generateGameResult`) onto a segment
+ */
+export function getWheelSegment(result: number, segments: number): number {
+	// Work in hundredths so float error cannot push a result across a segment boundary
+	return Math.floor((Math.round(result * 100) * segments) / 10000);
+}
+
+/**
+ * Fill colour for a segment: grey for a miss, then from blue through green to red as the
+ * multiplier grows
+ */
+export function getWheelColor(multiplier: number): string {
+	if (multiplier === 0) return 'hsl(240, 5%, 30%)';
+
+	const scale = Math.min(1, Math.log(multiplier) / Math.log(50));
+	return `hsl(${Math.round(200 - scale * 200)}, 80%, 50%)`;
+}
@@ -0,0 +1,11 @@
+import { redirect } from '@sveltejs/kit';
+import type { LayoutServerLoad } from './$types';
+
+// Loading on the server means client-side navigation into the console also passes the admin
+// guard in hooks.server.ts
+export const load: LayoutServerLoad = async ({ locals }) => {
+	if (!locals.user?.isAdmin) {
+		redirect(303, '/');
+	}
+	return {};
+};
@@ -0,0 +1,42 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { AppError } from '$lib/server/errors';
+import { requireAdmin } from '$lib/server/admin';
+import { listAuditLog, parseAuditFilter, verifyAuditChain } from '$lib/server/audit';
+
+// GET endpoint for a page of the audit log, filtered by action, actor, target or time, along with
+// whether the hash chain is intact
+export const GET: RequestHandler = async (event) => {
+	try {
+		await requireAdmin(event);
+
+		// Parse query parameters
+		const url = new URL(event.request.url);
+		const page = Math.max(1, parseInt(url.searchParams.get('page') || '1') || 1);
+		const limit = Math.min(100, Math.max(1, parseInt(url.searchParams.get('limit') || '50') || 50));
+
+		const filter = parseAuditFilter(url.searchParams);
+		if (!filter.success) {
+			return json({ success: false, error: 'Invalid audit log filter' }, { status: 400 });
+		}
+
+		const { entries, total } = listAuditLog(filter.data, { page, limit });
+
+		return json({
+			success: true,
+			data: {
+				entries,
+				total,
+				page,
+				limit,
+				chain: verifyAuditChain()
+			}
+		});
+	} catch (error) {
+		if (error instanceof AppError) {
+			return json({ success: false, error: error.message }, { status: error.statusCode });
+		}
+		console.error('Admin audit log error:', error);
+		return json({ success: false, error: 'Internal server error' }, { status: 500 });
+	}
+};
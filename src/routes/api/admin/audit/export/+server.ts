@@ -0,0 +1,39 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { AppError } from '$lib/server/errors';
+import { requireAdmin } from '$lib/server/admin';
+import { exportAuditLog, parseAuditFilter, toAuditCsv } from '$lib/server/audit';
+
+// GET endpoint for downloading every audit log entry matching a filter as CSV or JSON
+export const GET: RequestHandler = async (event) => {
+	try {
+		await requireAdmin(event);
+
+		const url = new URL(event.request.url);
+		const format = url.searchParams.get('format') === 'json' ? 'json' : 'csv';
+
+		const filter = parseAuditFilter(url.searchParams);
+		if (!filter.success) {
+			return json({ success: false, error: 'Invalid audit log filter' }, { status: 400 });
+		}
+
+		const entries = exportAuditLog(filter.data);
+		const filename = `audit-log-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+		return new Response(
+			format === 'json' ? JSON.stringify(entries, null, 2) : toAuditCsv(entries),
+			{
+				headers: {
+					'Content-Type': format === 'json' ? 'application/json' : 'text/csv; charset=utf-8',
+					'Content-Disposition': `attachment; filename="${filename}"`
+				}
+			}
+		);
+	} catch (error) {
+		if (error instanceof AppError) {
+			return json({ success: false, error: error.message }, { status: error.statusCode });
+		}
+		console.error('Admin audit export error:', error);
+		return json({ success: false, error: 'Internal server error' }, { status: 500 });
+	}
+};
@@ -0,0 +1,75 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { handleCSRF } from '$lib/server/csrf';
+import { isRateLimited, RATE_LIMITS, getRateLimitHeaders } from '$lib/server/rate-limiter';
+import { AppError } from '$lib/server/errors';
+import { requireAdmin } from '$lib/server/admin';
+import {
+	bankrollSettingsSchema,
+	getBankrollSummary,
+	updateBankrollSettings
+} from '$lib/server/bankroll';
+import { getAuditActor } from '$lib/server/audit';
+
+// GET endpoint for the bankroll, its max profit per bet and its latest movements
+export const GET: RequestHandler = async (event) => {
+	try {
+		await requireAdmin(event);
+
+		return json({ success: true, data: getBankrollSummary() });
+	} catch (error) {
+		if (error instanceof AppError) {
+			return json({ success: false, error: error.message }, { status: error.statusCode });
+		}
+		console.error('Admin bankroll error:', error);
+		return json({ success: false, error: 'Internal server error' }, { status: 500 });
+	}
+};
+
+// PUT endpoint for changing the share of the bankroll one bet can win
+export const PUT: RequestHandler = async (event) => {
+	try {
+		// CSRF Protection
+		if (!handleCSRF(event)) {
+			return json({ success: false, error: 'CSRF token validation failed' }, { status: 403 });
+		}
+
+		const admin = await requireAdmin(event);
+
+		const adminIdentifier = `${admin.id}:admin`;
+		const rateLimitResult = isRateLimited(adminIdentifier, RATE_LIMITS.api);
+		const headers = getRateLimitHeaders(adminIdentifier, RATE_LIMITS.api);
+
+		if (rateLimitResult.limited) {
+			return json(
+				{ success: false, error: 'Too many requests. Please slow down.' },
+				{ status: 429, headers }
+			);
+		}
+
+		let body: unknown;
+		try {
+			body = await event.request.json();
+		} catch {
+			return json({ success: false, error: 'Invalid request body' }, { status: 400, headers });
+		}
+
+		const parsed = bankrollSettingsSchema.safeParse(body);
+		if (!parsed.success) {
+			return json(
+				{ success: false, error: 'Max profit must be above 0% and at most 100%' },
+				{ status: 400, headers }
+			);
+		}
+
+		updateBankrollSettings(parsed.data.maxProfitPercent, getAuditActor(event, admin));
+
+		return json({ success: true, result: getBankrollSummary() }, { headers });
+	} catch (error) {
+		if (error instanceof AppError) {
+			return json({ success: false, error: error.message }, { status: error.statusCode });
+		}
+		console.error('Admin bankroll settings error:', error);
+		return json({ success: false, error: 'Internal server error' }, { status: 500 });
+	}
+};
@@ -0,0 +1,23 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { db } from '$lib/server/db';
+import { AppError } from '$lib/server/errors';
+import { requireAdmin } from '$lib/server/admin';
+import { listGameConfigs } from '$lib/server/game-config';
+
+// GET endpoint listing every game with its current settings
+export const GET: RequestHandler = async (event) => {
+	try {
+		await requireAdmin(event);
+
+		const games = db.transaction((tx) => listGameConfigs(tx));
+
+		return json({ success: true, data: { games } });
+	} catch (error) {
+		if (error instanceof AppError) {
+			return json({ success: false, error: error.message }, { status: error.statusCode });
+		}
+		console.error('Admin game list error:', error);
+		return json({ success: false, error: 'Internal server error' }, { status: 500 });
+	}
+};
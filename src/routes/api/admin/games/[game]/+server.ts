@@ -0,0 +1,53 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { handleCSRF } from '$lib/server/csrf';
+import { isRateLimited, RATE_LIMITS, getRateLimitHeaders } from '$lib/server/rate-limiter';
+import { AppError } from '$lib/server/errors';
+import { requireAdmin } from '$lib/server/admin';
+import { gameConfigSchema, updateGameConfig } from '$lib/server/game-config';
+import { getAuditActor } from '$lib/server/audit';
+
+// PUT endpoint for changing a game's house edge, bet limits, payout cap or enabled flag
+export const PUT: RequestHandler = async (event) => {
+	try {
+		// CSRF Protection
+		if (!handleCSRF(event)) {
+			return json({ success: false, error: 'CSRF token validation failed' }, { status: 403 });
+		}
+
+		const admin = await requireAdmin(event);
+
+		const adminIdentifier = `${admin.id}:admin`;
+		const rateLimitResult = isRateLimited(adminIdentifier, RATE_LIMITS.api);
+		const headers = getRateLimitHeaders(adminIdentifier, RATE_LIMITS.api);
+
+		if (rateLimitResult.limited) {
+			return json(
+				{ success: false, error: 'Too many requests. Please slow down.' },
+				{ status: 429, headers }
+			);
+		}
+
+		let body: unknown;
+		try {
+			body = await event.request.json();
+		} catch {
+			return json({ success: false, error: 'Invalid request body' }, { status: 400, headers });
+		}
+
+		const parsed = gameConfigSchema.safeParse(body);
+		if (!parsed.success) {
+			return json({ success: false, error: 'Invalid game settings' }, { status: 400, headers });
+		}
+
+		const config = updateGameConfig(event.params.game, parsed.data, getAuditActor(event, admin));
+
+		return json({ success: true, result: config }, { headers });
+	} catch (error) {
+		if (error instanceof AppError) {
+			return json({ success: false, error: error.message }, { status: error.statusCode });
+		}
+		console.error('Admin game config error:', error);
+		return json({ success: false, error: 'Internal server error' }, { status: 500 });
+	}
+};
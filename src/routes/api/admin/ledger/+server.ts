@@ -0,0 +1,53 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { handleCSRF } from '$lib/server/csrf';
+import { isRateLimited, RATE_LIMITS, getRateLimitHeaders } from '$lib/server/rate-limiter';
+import { AppError } from '$lib/server/errors';
+import { requireAdmin } from '$lib/server/admin';
+import { getLatestReconciliation, recordReconciliation } from '$lib/server/ledger';
+
+// GET endpoint for the latest ledger reconciliation; null before the first has run
+export const GET: RequestHandler = async (event) => {
+	try {
+		await requireAdmin(event);
+
+		return json({ success: true, data: getLatestReconciliation() });
+	} catch (error) {
+		if (error instanceof AppError) {
+			return json({ success: false, error: error.message }, { status: error.statusCode });
+		}
+		console.error('Admin ledger error:', error);
+		return json({ success: false, error: 'Internal server error' }, { status: 500 });
+	}
+};
+
+// POST endpoint for reconciling the ledger now rather than at the next hourly run
+export const POST: RequestHandler = async (event) => {
+	try {
+		// CSRF Protection
+		if (!handleCSRF(event)) {
+			return json({ success: false, error: 'CSRF token validation failed' }, { status: 403 });
+		}
+
+		const admin = await requireAdmin(event);
+
+		const adminIdentifier = `${admin.id}:admin`;
+		const rateLimitResult = isRateLimited(adminIdentifier, RATE_LIMITS.api);
+		const headers = getRateLimitHeaders(adminIdentifier, RATE_LIMITS.api);
+
+		if (rateLimitResult.limited) {
+			return json(
+				{ success: false, error: 'Too many requests. Please slow down.' },
+				{ status: 429, headers }
+			);
+		}
+
+		return json({ success: true, result: recordReconciliation() }, { headers });
+	} catch (error) {
+		if (error instanceof AppError) {
+			return json({ success: false, error: error.message }, { status: error.statusCode });
+		}
+		console.error('Admin ledger reconciliation error:', error);
+		return json({ success: false, error: 'Internal server error' }, { status: 500 });
+	}
+};
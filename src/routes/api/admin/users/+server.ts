@@ -0,0 +1,35 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { AppError } from '$lib/server/errors';
+import { listUsers, requireAdmin } from '$lib/server/admin';
+
+// GET endpoint for a page of users, optionally filtered by username or id
+export const GET: RequestHandler = async (event) => {
+	try {
+		await requireAdmin(event);
+
+		// Parse query parameters
+		const url = new URL(event.request.url);
+		const page = Math.max(1, parseInt(url.searchParams.get('page') || '1') || 1);
+		const limit = Math.min(50, Math.max(1, parseInt(url.searchParams.get('limit') || '20') || 20));
+		const search = url.searchParams.get('search') ?? undefined;
+
+		const { users, total } = listUsers({ search, page, limit });
+
+		return json({
+			success: true,
+			data: {
+				users,
+				total,
+				page,
+				limit
+			}
+		});
+	} catch (error) {
+		if (error instanceof AppError) {
+			return json({ success: false, error: error.message }, { status: error.statusCode });
+		}
+		console.error('Admin user list error:', error);
+		return json({ success: false, error: 'Internal server error' }, { status: 500 });
+	}
+};
@@ -0,0 +1,36 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { AppError } from '$lib/server/errors';
+import { getUserDetail, listUserBets, requireAdmin } from '$lib/server/admin';
+
+// GET endpoint for one user and a page of their bets, newest first
+export const GET: RequestHandler = async (event) => {
+	try {
+		await requireAdmin(event);
+
+		// Parse query parameters
+		const url = new URL(event.request.url);
+		const page = Math.max(1, parseInt(url.searchParams.get('page') || '1') || 1);
+		const limit = Math.min(50, Math.max(1, parseInt(url.searchParams.get('limit') || '20') || 20));
+
+		const user = getUserDetail(event.params.id);
+		const { bets, total } = listUserBets(user.id, { page, limit });
+
+		return json({
+			success: true,
+			data: {
+				user,
+				bets,
+				total,
+				page,
+				limit
+			}
+		});
+	} catch (error) {
+		if (error instanceof AppError) {
+			return json({ success: false, error: error.message }, { status: error.statusCode });
+		}
+		console.error('Admin user detail error:', error);
+		return json({ success: false, error: 'Internal server error' }, { status: 500 });
+	}
+};
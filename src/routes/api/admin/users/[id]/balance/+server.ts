@@ -0,0 +1,60 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { handleCSRF } from '$lib/server/csrf';
+import { isRateLimited, RATE_LIMITS, getRateLimitHeaders } from '$lib/server/rate-limiter';
+import { AppError } from '$lib/server/errors';
+import { adjustBalance, balanceAdjustmentSchema, requireAdmin } from '$lib/server/admin';
+import { getAuditActor } from '$lib/server/audit';
+
+// POST endpoint for crediting or debiting a user's balance, with the reason for it
+export const POST: RequestHandler = async (event) => {
+	try {
+		// CSRF Protection
+		if (!handleCSRF(event)) {
+			return json({ success: false, error: 'CSRF token validation failed' }, { status: 403 });
+		}
+
+		const admin = await requireAdmin(event);
+
+		const adminIdentifier = `${admin.id}:admin`;
+		const rateLimitResult = isRateLimited(adminIdentifier, RATE_LIMITS.api);
+		const headers = getRateLimitHeaders(adminIdentifier, RATE_LIMITS.api);
+
+		if (rateLimitResult.limited) {
+			return json(
+				{ success: false, error: 'Too many requests. Please slow down.' },
+				{ status: 429, headers }
+			);
+		}
+
+		let body: unknown;
+		try {
+			body = await event.request.json();
+		} catch {
+			return json({ success: false, error: 'Invalid request body' }, { status: 400, headers });
+		}
+
+		const parsed = balanceAdjustmentSchema.safeParse(body);
+		if (!parsed.success) {
+			return json(
+				{ success: false, error: 'A non-zero whole amount and a reason are required' },
+				{ status: 400, headers }
+			);
+		}
+
+		const newBalance = adjustBalance({
+			actor: getAuditActor(event, admin),
+			userId: event.params.id,
+			amount: parsed.data.amount,
+			reason: parsed.data.reason
+		});
+
+		return json({ success: true, result: { newBalance } }, { headers });
+	} catch (error) {
+		if (error instanceof AppError) {
+			return json({ success: false, error: error.message }, { status: error.statusCode });
+		}
+		console.error('Admin balance adjustment error:', error);
+		return json({ success: false, error: 'Internal server error' }, { status: 500 });
+	}
+};
@@ -0,0 +1,56 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { handleCSRF } from '$lib/server/csrf';
+import { isRateLimited, RATE_LIMITS, getRateLimitHeaders } from '$lib/server/rate-limiter';
+import { AppError } from '$lib/server/errors';
+import { banSchema, requireAdmin, setUserBanned } from '$lib/server/admin';
+import { getAuditActor } from '$lib/server/audit';
+
+// POST endpoint for banning or unbanning a user
+export const POST: RequestHandler = async (event) => {
+	try {
+		// CSRF Protection
+		if (!handleCSRF(event)) {
+			return json({ success: false, error: 'CSRF token validation failed' }, { status: 403 });
+		}
+
+		const admin = await requireAdmin(event);
+
+		const adminIdentifier = `${admin.id}:admin`;
+		const rateLimitResult = isRateLimited(adminIdentifier, RATE_LIMITS.api);
+		const headers = getRateLimitHeaders(adminIdentifier, RATE_LIMITS.api);
+
+		if (rateLimitResult.limited) {
+			return json(
+				{ success: false, error: 'Too many requests. Please slow down.' },
+				{ status: 429, headers }
+			);
+		}
+
+		let body: unknown;
+		try {
+			body = await event.request.json();
+		} catch {
+			return json({ success: false, error: 'Invalid request body' }, { status: 400, headers });
+		}
+
+		const parsed = banSchema.safeParse(body);
+		if (!parsed.success) {
+			return json({ success: false, error: 'Invalid ban request' }, { status: 400, headers });
+		}
+
+		const user = await setUserBanned({
+			actor: getAuditActor(event, admin),
+			userId: event.params.id,
+			banned: parsed.data.banned
+		});
+
+		return json({ success: true, result: user }, { headers });
+	} catch (error) {
+		if (error instanceof AppError) {
+			return json({ success: false, error: error.message }, { status: error.statusCode });
+		}
+		console.error('Admin ban error:', error);
+		return json({ success: false, error: 'Internal server error' }, { status: 500 });
+	}
+};
@@ -0,0 +1,27 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { handleCSRF } from '$lib/server/csrf';
+import { AppError } from '$lib/server/errors';
+import { forceLogout, requireAdmin } from '$lib/server/admin';
+import { getAuditActor } from '$lib/server/audit';
+
+// DELETE endpoint for signing a user out of every session
+export const DELETE: RequestHandler = async (event) => {
+	try {
+		// CSRF Protection
+		if (!handleCSRF(event)) {
+			return json({ success: false, error: 'CSRF token validation failed' }, { status: 403 });
+		}
+
+		const admin = await requireAdmin(event);
+		const ended = await forceLogout(event.params.id, getAuditActor(event, admin));
+
+		return json({ success: true, result: { ended } });
+	} catch (error) {
+		if (error instanceof AppError) {
+			return json({ success: false, error: error.message }, { status: error.statusCode });
+		}
+		console.error('Admin force logout error:', error);
+		return json({ success: false, error: 'Internal server error' }, { status: 500 });
+	}
+};
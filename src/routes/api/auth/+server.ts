@@ -6,8 +6,11 @@ import * as auth from '$lib/server/auth';
 import { db } from '$lib/server/db';
 import * as table from '$lib/server/db/schema';
 import { isRateLimited, RATE_LIMITS, getRateLimitHeaders } from '$lib/server/rate-limiter';
+import { postTransfer } from '$lib/server/ledger';
 import type { RequestEvent, RequestHandler } from './$types';
 
+const SIGNUP_BONUS = 100_000; // 1000.00 in minor units
+
 export const POST: RequestHandler = async (event) => {
 	// Origin validation for auth endpoints (alternative to CSRF for public endpoints)
 	const origin = event.request.headers.get('origin');
@@ -104,6 +107,13 @@ async function handleLogin(
 		);
 	}
 
+	if (existingUser.isBanned) {
+		return json(
+			{ success: false, message: 'This account has been banned' },
+			{ status: 403, headers }
+		);
+	}
+
 	const sessionToken = auth.generateSessionToken();
 	const ipAddress = event.getClientAddress();
 	const userAgent = event.request.headers.get('user-agent') ?? undefined;
@@ -128,9 +138,18 @@ async function handleRegister(
 	});
 
 	try {
-		await db
-			.insert(table.user)
-			.values({ id: userId, username: username.toLowerCase(), passwordHash });
+		// The starting balance is a bonus through the ledger, so the wallet reconciles from the start
+		db.transaction((tx) => {
+			tx.insert(table.user)
+				.values({ id: userId, username: username.toLowerCase(), passwordHash, balance: 0 })
+				.run();
+			postTransfer(tx, {
+				type: 'bonus',
+				userId,
+				amount: SIGNUP_BONUS,
+				description: 'Welcome bonus'
+			});
+		});
 
 		const sessionToken = auth.generateSessionToken();
 		const ipAddress = event.getClientAddress();
@@ -0,0 +1,18 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { db } from '$lib/server/db';
+import { listGames } from '$lib/server/games';
+import { getGameConfig } from '$lib/server/game-config';
+
+// GET endpoint listing the registered games with their current settings
+export const GET: RequestHandler = async () => {
+	const games = db.transaction((tx) =>
+		listGames().map((game) => ({
+			type: game.type,
+			...game.metadata,
+			config: getGameConfig(tx, game.type)
+		}))
+	);
+
+	return json({ success: true, data: games });
+};
@@ -0,0 +1,27 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { handleGameBet, handleGameData } from '$lib/server/game-handler';
+import { handleRoundData, handleRoundStart } from '$lib/server/round-handler';
+import { getGame } from '$lib/server/games';
+
+// POST endpoint for placing a bet on any registered game, or starting a round of a round game
+export const POST: RequestHandler = async (event) => {
+	// Shared games (crash) are served by their own routes
+	const game = getGame(event.params.game);
+	if (!game || game.kind === 'shared') {
+		return json({ success: false, error: 'Game not found' }, { status: 404 });
+	}
+
+	return game.kind === 'round' ? handleRoundStart(event, game) : handleGameBet(event, game);
+};
+
+// GET endpoint for the current seed commitment and balance, plus the active round if any
+export const GET: RequestHandler = async (event) => {
+	// Shared games (crash) are served by their own routes
+	const game = getGame(event.params.game);
+	if (!game || game.kind === 'shared') {
+		return json({ success: false, error: 'Game not found' }, { status: 404 });
+	}
+
+	return game.kind === 'round' ? handleRoundData(event, game) : handleGameData(event, game);
+};
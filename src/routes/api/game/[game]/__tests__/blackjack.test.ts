@@ -0,0 +1,202 @@
+import { describe, it, expect, beforeAll } from 'bun:test';
+import { createHash } from 'crypto';
+import { and, eq } from 'drizzle-orm';
+import * as table from '$lib/server/db/schema';
+import {
+	mockDatabase,
+	createTestUser,
+	createRequestEvent,
+	type TestDatabase
+} from '$lib/server/__tests__/test-utils';
+import { generateBlackjackShoe } from '$lib/server/provably-fair';
+import { isBlackjack } from '$lib/utils/blackjack';
+import { getCardRank } from '$lib/utils/cards';
+
+let db: TestDatabase;
+let gameRoute: typeof import('../+server');
+let actionRoute: typeof import('../action/+server');
+let rotateRoute: typeof import('../../seed/rotate/+server');
+let verifyRoute: typeof import('../../verify/+server');
+
+const params = { game: 'blackjack' };
+
+beforeAll(async () => {
+	db = mockDatabase();
+	gameRoute = await import('../+server');
+	actionRoute = await import('../action/+server');
+	rotateRoute = await import('../../seed/rotate/+server');
+	verifyRoute = await import('../../verify/+server');
+});
+
+// Route handlers are typed per route; the test events are built the same way for all of them
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type AnyEvent = any;
+
+async function call(
+	handler: (event: AnyEvent) => Response | Promise<Response>,
+	url: string,
+	sessionToken: string,
+	options: { method?: string; body?: unknown } = {}
+) {
+	const response = await handler(
+		createRequestEvent(url, {
+			method: options.method ?? 'POST',
+			body: options.body,
+			sessionToken,
+			params
+		})
+	);
+	return { status: response.status, body: await response.json() };
+}
+
+function act(sessionToken: string, body: unknown) {
+	return call(actionRoute.POST, '/api/game/blackjack/action', sessionToken, { body });
+}
+
+/**
+ * Swap the user's active server seed for one whose next shoe matches `predicate`, so the deal is known
+ */
+async function rigShoe(
+	userId: string,
+	sessionToken: string,
+	predicate: (shoe: number[]) => boolean
+): Promise<number[]> {
+	// Loading the game creates the user's seed pairs
+	await call(gameRoute.GET, '/api/game/blackjack', sessionToken, { method: 'GET' });
+	const seedPair = db
+		.select()
+		.from(table.seedPair)
+		.where(and(eq(table.seedPair.userId, userId), eq(table.seedPair.status, 'active')))
+		.get()!;
+
+	for (let attempt = 0; ; attempt++) {
+		const serverSeed = `blackjack-test-${attempt}`;
+		const shoe = generateBlackjackShoe(serverSeed, seedPair.clientSeed, seedPair.nonce + 1);
+
+		if (predicate(shoe)) {
+			db.update(table.seedPair)
+				.set({ serverSeed, serverSeedHash: createHash('sha256').update(serverSeed).digest('hex') })
+				.where(eq(table.seedPair.id, seedPair.id))
+				.run();
+			return shoe;
+		}
+	}
+}
+
+// The dealer shows 2-9, so there is no insurance or peek, and the player has no natural
+const plainDeal = (shoe: number[]) =>
+	getCardRank(shoe[1]) >= 1 && getCardRank(shoe[1]) <= 8 && !isBlackjack([shoe[0], shoe[2]]);
+
+describe('Blackjack rounds', () => {
+	it('should hide the hole card until the hand closes', async () => {
+		const { userId, sessionToken } = await createTestUser(db);
+		const shoe = await rigShoe(userId, sessionToken, plainDeal);
+
+		const started = await call(gameRoute.POST, '/api/game/blackjack', sessionToken, {
+			body: { amount: 1000 }
+		});
+
+		expect(started.status).toBe(200);
+		expect(started.body.result.newBalance).toBe(99_000);
+		expect(started.body.result.round.state.dealer).toEqual([shoe[1]]);
+		expect(started.body.result.round.state.hands[0].cards).toEqual([shoe[0], shoe[2]]);
+
+		const { body } = await act(sessionToken, { action: 'stand' });
+
+		expect(body.result.round.status).toBe('settled');
+		expect(body.result.round.state.dealer.slice(0, 2)).toEqual([shoe[1], shoe[3]]);
+		expect(body.result.newBalance).toBe(99_000 + body.result.settlement.payout);
+	});
+
+	it('should split a pair into two hands and replay the shoe when verifying', async () => {
+		const { userId, sessionToken } = await createTestUser(db);
+		const shoe = await rigShoe(
+			userId,
+			sessionToken,
+			(shoe) =>
+				plainDeal(shoe) &&
+				getCardRank(shoe[0]) === getCardRank(shoe[2]) &&
+				getCardRank(shoe[0]) !== 0
+		);
+
+		await call(gameRoute.POST, '/api/game/blackjack', sessionToken, { body: { amount: 1000 } });
+		const split = await act(sessionToken, { action: 'split' });
+
+		expect(split.body.result.newBalance).toBe(98_000);
+		expect(split.body.result.round.amount).toBe(2000);
+		expect(
+			split.body.result.round.state.hands.map((hand: { cards: number[] }) => hand.cards)
+		).toEqual([
+			[shoe[0], shoe[4]],
+			[shoe[2], shoe[5]]
+		]);
+
+		let result = split.body.result;
+		while (result.round.status === 'active') {
+			result = (await act(sessionToken, { action: 'stand' })).body.result;
+		}
+
+		await call(rotateRoute.POST, '/api/game/seed/rotate', sessionToken);
+		const verified = await call(
+			verifyRoute.GET,
+			`/api/game/verify?betId=${result.settlement.betId}`,
+			sessionToken,
+			{ method: 'GET' }
+		);
+		const { details } = verified.body.data;
+
+		expect(verified.body.data.verified).toBe(true);
+		expect(details.payout).toBe(result.settlement.payout);
+		expect(details.cards).toEqual(shoe.slice(0, details.cards.length));
+		expect(details.hands).toEqual(
+			result.round.state.hands.map((hand: { cards: number[] }) => hand.cards)
+		);
+	});
+
+	it('should take one card and double the stake on a double down', async () => {
+		const { userId, sessionToken } = await createTestUser(db);
+		await rigShoe(
+			userId,
+			sessionToken,
+			(shoe) => plainDeal(shoe) && getCardRank(shoe[0]) !== getCardRank(shoe[2])
+		);
+
+		await call(gameRoute.POST, '/api/game/blackjack', sessionToken, { body: { amount: 1000 } });
+
+		// Only a pair can be split
+		expect((await act(sessionToken, { action: 'split' })).status).toBe(400);
+
+		const { body } = await act(sessionToken, { action: 'double' });
+		const [hand] = body.result.round.state.hands;
+
+		expect(body.result.round.status).toBe('settled');
+		expect(body.result.round.amount).toBe(2000);
+		expect(hand.cards).toHaveLength(3);
+		expect(hand.doubled).toBe(true);
+	});
+
+	it('should offer insurance on an ace and pay it against a dealer blackjack', async () => {
+		const { userId, sessionToken } = await createTestUser(db);
+		await rigShoe(
+			userId,
+			sessionToken,
+			(shoe) =>
+				getCardRank(shoe[1]) === 0 && getCardRank(shoe[3]) >= 9 && !isBlackjack([shoe[0], shoe[2]])
+		);
+
+		const started = await call(gameRoute.POST, '/api/game/blackjack', sessionToken, {
+			body: { amount: 1000 }
+		});
+		expect(started.body.result.round.state.phase).toBe('insurance');
+
+		// The player has to answer the insurance offer first
+		expect((await act(sessionToken, { action: 'hit' })).status).toBe(400);
+
+		const { body } = await act(sessionToken, { action: 'insurance', accept: true });
+
+		expect(body.result.round.status).toBe('settled');
+		expect(body.result.settlement.payout).toBe(1500);
+		expect(body.result.settlement.win).toBe(false);
+		expect(body.result.newBalance).toBe(100_000);
+	});
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeAll } from 'bun:test';
+import { eq } from 'drizzle-orm';
+import * as table from '$lib/server/db/schema';
+import {
+	mockDatabase,
+	createTestUser,
+	createRequestEvent,
+	type TestDatabase
+} from '$lib/server/__tests__/test-utils';
+
+let db: TestDatabase;
+let POST: typeof import('../+server').POST;
+
+type DiceEvent = Parameters<typeof POST>[0];
+
+const params = { game: 'dice' };
+const diceBet = { amount: 100, betType: 'over', target: 50 }; // 1.00
+
+beforeAll(async () => {
+	db = mockDatabase();
+	({ POST } = await import('../+server'));
+});
+
+describe('POST /api/game/dice', () => {
+	it('should settle a bet on the active seed pair', async () => {
+		const { userId, sessionToken } = await createTestUser(db);
+
+		const response = await POST(
+			createRequestEvent<DiceEvent>('/api/game/dice', {
+				method: 'POST',
+				body: diceBet,
+				sessionToken,
+				params
+			})
+		);
+		const body = await response.json();
+
+		expect(response.status).toBe(200);
+		expect(body.success).toBe(true);
+		expect(body.result.nonce).toBe(1);
+
+		const [seedPair] = db
+			.select()
+			.from(table.seedPair)
+			.where(eq(table.seedPair.userId, userId))
+			.all()
+			.filter((pair) => pair.status === 'active');
+		expect(body.result.serverSeedHash).toBe(seedPair.serverSeedHash);
+		expect(body.result.clientSeed).toBe(seedPair.clientSeed);
+	});
+
+	it('should only take whole cents and pay out in them', async () => {
+		const { userId, sessionToken } = await createTestUser(db);
+		const bet = (amount: number) =>
+			POST(
+				createRequestEvent<DiceEvent>('/api/game/dice', {
+					method: 'POST',
+					body: { ...diceBet, amount },
+					sessionToken,
+					params
+				})
+			);
+
+		expect((await bet(0.5)).status).toBe(400);
+
+		const body = await (await bet(7)).json();
+		expect(Number.isInteger(body.result.payout)).toBe(true);
+		expect(body.result.payout).toBe(body.result.win ? 13 : 0); // 7 x 1.98, rounded down
+		expect(db.select().from(table.user).where(eq(table.user.id, userId)).get()!.balance).toBe(
+			body.result.newBalance
+		);
+	});
+
+	it('should reject a bet without an X-CSRF-Token header', async () => {
+		const { userId, sessionToken } = await createTestUser(db);
+
+		const response = await POST(
+			createRequestEvent<DiceEvent>('/api/game/dice', {
+				method: 'POST',
+				body: diceBet,
+				sessionToken,
+				csrfToken: null,
+				params
+			})
+		);
+
+		expect(response.status).toBe(403);
+		expect(db.select().from(table.bet).where(eq(table.bet.userId, userId)).all()).toHaveLength(0);
+	});
+
+	it('should return 429 for the 61st bet within a minute', async () => {
+		const { userId, sessionToken } = await createTestUser(db);
+
+		const placeBet = () =>
+			POST(
+				createRequestEvent<DiceEvent>('/api/game/dice', {
+					method: 'POST',
+					body: diceBet,
+					sessionToken,
+					params
+				})
+			);
+
+		for (let i = 0; i < 60; i++) {
+			const response = await placeBet();
+			expect(response.status).toBe(200);
+		}
+
+		const response = await placeBet();
+		const body = await response.json();
+
+		expect(response.status).toBe(429);
+		expect(body.success).toBe(false);
+		expect(response.headers.get('X-RateLimit-Remaining')).toBe('0');
+		expect(db.select().from(table.bet).where(eq(table.bet.userId, userId)).all()).toHaveLength(60);
+	});
+});
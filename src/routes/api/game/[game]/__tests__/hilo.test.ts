@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeAll } from 'bun:test';
+import { and, eq } from 'drizzle-orm';
+import * as table from '$lib/server/db/schema';
+import {
+	mockDatabase,
+	createTestUser,
+	createRequestEvent,
+	type TestDatabase
+} from '$lib/server/__tests__/test-utils';
+import { generateHiloCard } from '$lib/server/provably-fair';
+import { getCardRank } from '$lib/utils/cards';
+import { getHiloChance, type HiloGuess } from '$lib/utils/hilo';
+import { multiplyMoney } from '$lib/utils/money';
+
+let db: TestDatabase;
+let gameRoute: typeof import('../+server');
+let actionRoute: typeof import('../action/+server');
+let rotateRoute: typeof import('../../seed/rotate/+server');
+let verifyRoute: typeof import('../../verify/+server');
+
+const params = { game: 'hilo' };
+
+beforeAll(async () => {
+	db = mockDatabase();
+	gameRoute = await import('../+server');
+	actionRoute = await import('../action/+server');
+	rotateRoute = await import('../../seed/rotate/+server');
+	verifyRoute = await import('../../verify/+server');
+});
+
+// Route handlers are typed per route; the test events are built the same way for all of them
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type AnyEvent = any;
+
+async function call(
+	handler: (event: AnyEvent) => Response | Promise<Response>,
+	url: string,
+	sessionToken: string,
+	options: { method?: string; body?: unknown } = {}
+) {
+	const response = await handler(
+		createRequestEvent(url, {
+			method: options.method ?? 'POST',
+			body: options.body,
+			sessionToken,
+			params
+		})
+	);
+	return { status: response.status, body: await response.json() };
+}
+
+function act(sessionToken: string, body: unknown) {
+	return call(actionRoute.POST, '/api/game/hilo/action', sessionToken, { body });
+}
+
+/**
+ * The card the round will draw at a cursor, read from the user's active seed pair
+ */
+function peekCard(userId: string, cursor: number): number {
+	const seedPair = db
+		.select()
+		.from(table.seedPair)
+		.where(and(eq(table.seedPair.userId, userId), eq(table.seedPair.status, 'active')))
+		.get()!;
+	return generateHiloCard(seedPair.serverSeed, seedPair.clientSeed, seedPair.nonce, cursor);
+}
+
+function rightGuess(card: number, next: number): HiloGuess {
+	const diff = getCardRank(next) - getCardRank(card);
+	return diff > 0 ? 'higher' : diff < 0 ? 'lower' : 'same';
+}
+
+function wrongGuess(card: number, next: number): HiloGuess {
+	const right = rightGuess(card, next);
+	const wrong = (['higher', 'lower', 'same'] as HiloGuess[]).filter((guess) => guess !== right);
+	return wrong.find((guess) => getHiloChance(card, guess) > 0)!;
+}
+
+describe('Hi-Lo rounds', () => {
+	it('should build a streak across skips and cash out at the combined multiplier', async () => {
+		const { userId, sessionToken } = await createTestUser(db);
+
+		const started = await call(gameRoute.POST, '/api/game/hilo', sessionToken, {
+			body: { amount: 1000 }
+		});
+		const cards = Array.from({ length: 4 }, (_, cursor) => peekCard(userId, cursor));
+
+		expect(started.body.result.newBalance).toBe(99_000);
+		expect(started.body.result.round.state.cards).toEqual([cards[0]]);
+
+		// A cash-out needs at least one guess
+		expect((await act(sessionToken, { action: 'cashout' })).status).toBe(400);
+
+		await act(sessionToken, { action: 'skip' });
+		await act(sessionToken, { action: 'guess', guess: rightGuess(cards[1], cards[2]) });
+		await act(sessionToken, { action: 'guess', guess: rightGuess(cards[2], cards[3]) });
+		const { body } = await act(sessionToken, { action: 'cashout' });
+
+		const multiplier =
+			0.99 /
+			getHiloChance(cards[1], rightGuess(cards[1], cards[2])) /
+			getHiloChance(cards[2], rightGuess(cards[2], cards[3]));
+
+		expect(body.result.round.state.cards).toEqual(cards);
+		expect(body.result.settlement.multiplier).toBeCloseTo(multiplier, 10);
+		// The payout is rounded down to a whole cent
+		expect(body.result.newBalance).toBe(99_000 + multiplyMoney(1000, multiplier));
+
+		await call(rotateRoute.POST, '/api/game/seed/rotate', sessionToken);
+		const verified = await call(
+			verifyRoute.GET,
+			`/api/game/verify?betId=${body.result.settlement.betId}`,
+			sessionToken,
+			{ method: 'GET' }
+		);
+
+		expect(verified.body.data.verified).toBe(true);
+		expect(verified.body.data.details.cards).toEqual(cards);
+	});
+
+	it('should settle as a loss on a wrong guess', async () => {
+		const { userId, sessionToken } = await createTestUser(db);
+
+		await call(gameRoute.POST, '/api/game/hilo', sessionToken, { body: { amount: 1000 } });
+		const [card, next] = [peekCard(userId, 0), peekCard(userId, 1)];
+
+		const { body } = await act(sessionToken, { action: 'guess', guess: wrongGuess(card, next) });
+
+		expect(body.result.round.status).toBe('settled');
+		expect(body.result.settlement.payout).toBe(0);
+		expect(body.result.newBalance).toBe(99_000);
+	});
+
+	it('should refuse a guess that cannot win', async () => {
+		const { sessionToken } = await createTestUser(db);
+
+		let { body } = await call(gameRoute.POST, '/api/game/hilo', sessionToken, {
+			body: { amount: 100 }
+		});
+		let card: number = body.result.round.state.cards.at(-1);
+
+		// Skip to an ace or a king, where one direction has no cards left
+		while (getCardRank(card) !== 0 && getCardRank(card) !== 12) {
+			({ body } = await act(sessionToken, { action: 'skip' }));
+			card = body.result.round.state.cards.at(-1);
+		}
+
+		const guess = getCardRank(card) === 0 ? 'lower' : 'higher';
+		expect((await act(sessionToken, { action: 'guess', guess })).status).toBe(400);
+	});
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeAll } from 'bun:test';
+import {
+	mockDatabase,
+	createTestUser,
+	createRequestEvent,
+	type TestDatabase
+} from '$lib/server/__tests__/test-utils';
+import { getKenoPayouts } from '$lib/utils/keno';
+import { multiplyMoney } from '$lib/utils/money';
+
+let db: TestDatabase;
+let POST: typeof import('../+server').POST;
+let rotate: typeof import('../../seed/rotate/+server').POST;
+let verify: typeof import('../../verify/+server').GET;
+
+type KenoEvent = Parameters<typeof POST>[0];
+
+const params = { game: 'keno' };
+const picks = [1, 8, 15, 22, 29, 36];
+
+beforeAll(async () => {
+	db = mockDatabase();
+	({ POST } = await import('../+server'));
+	({ POST: rotate } = await import('../../seed/rotate/+server'));
+	({ GET: verify } = await import('../../verify/+server'));
+});
+
+async function play(sessionToken: string, body: unknown) {
+	const response = await POST(
+		createRequestEvent<KenoEvent>('/api/game/keno', {
+			method: 'POST',
+			body,
+			sessionToken,
+			params
+		})
+	);
+	return { status: response.status, body: await response.json() };
+}
+
+describe('POST /api/game/keno', () => {
+	it('should pay the table multiplier for the number of hits', async () => {
+		const { sessionToken } = await createTestUser(db);
+
+		const { status, body } = await play(sessionToken, { amount: 1000, picks, risk: 'high' });
+		const drawn = body.result.drawn as number[];
+		const hits = picks.filter((pick) => drawn.includes(pick)).length;
+		const multiplier = getKenoPayouts(picks.length, 'high')[hits];
+
+		expect(status).toBe(200);
+		expect(drawn).toHaveLength(10);
+		expect(body.result.hits).toBe(hits);
+		expect(body.result.multiplier).toBe(multiplier);
+		expect(body.result.newBalance).toBe(99_000 + multiplyMoney(1000, multiplier));
+	});
+
+	it('should reject repeated, missing or off-board picks', async () => {
+		const { sessionToken } = await createTestUser(db);
+
+		for (const invalid of [[], [3, 3], [0, 5], [41], Array.from({ length: 11 }, (_, i) => i + 1)]) {
+			const { status } = await play(sessionToken, { amount: 100, picks: invalid, risk: 'classic' });
+			expect(status).toBe(400);
+		}
+	});
+
+	it('should reproduce the draw in order when verifying', async () => {
+		const { sessionToken } = await createTestUser(db);
+
+		const { body } = await play(sessionToken, { amount: 100, picks, risk: 'low' });
+		await rotate(createRequestEvent('/api/game/seed/rotate', { method: 'POST', sessionToken }));
+
+		const response = await verify(
+			createRequestEvent(`/api/game/verify?betId=${body.result.betId}`, { sessionToken })
+		);
+		const { data } = await response.json();
+
+		expect(data.verified).toBe(true);
+		expect(data.calculatedResult).toBe(body.result.hits);
+		expect(data.details.drawn).toEqual(body.result.drawn);
+	});
+});
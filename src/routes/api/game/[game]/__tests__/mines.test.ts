@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeAll } from 'bun:test';
+import { eq } from 'drizzle-orm';
+import * as table from '$lib/server/db/schema';
+import {
+	mockDatabase,
+	createTestUser,
+	createRequestEvent,
+	type TestDatabase
+} from '$lib/server/__tests__/test-utils';
+import { multiplyMoney } from '$lib/utils/money';
+
+let db: TestDatabase;
+let gameRoute: typeof import('../+server');
+let actionRoute: typeof import('../action/+server');
+let rotateRoute: typeof import('../../seed/rotate/+server');
+let verifyRoute: typeof import('../../verify/+server');
+
+const params = { game: 'mines' };
+
+beforeAll(async () => {
+	db = mockDatabase();
+	gameRoute = await import('../+server');
+	actionRoute = await import('../action/+server');
+	rotateRoute = await import('../../seed/rotate/+server');
+	verifyRoute = await import('../../verify/+server');
+});
+
+// Route handlers are typed per route; the test events are built the same way for all of them
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type AnyEvent = any;
+
+async function call(
+	handler: (event: AnyEvent) => Response | Promise<Response>,
+	url: string,
+	sessionToken: string,
+	options: { method?: string; body?: unknown } = {}
+) {
+	const response = await handler(
+		createRequestEvent(url, {
+			method: options.method ?? 'POST',
+			body: options.body,
+			sessionToken,
+			params
+		})
+	);
+	return { status: response.status, body: await response.json() };
+}
+
+function getMines(userId: string): number[] {
+	const [round] = db.select().from(table.gameRound).where(eq(table.gameRound.userId, userId)).all();
+	return round.state.mines as number[];
+}
+
+describe('Mines rounds', () => {
+	it('should debit the stake on start and hide the mine layout', async () => {
+		const { userId, sessionToken } = await createTestUser(db);
+
+		const { status, body } = await call(gameRoute.POST, '/api/game/mines', sessionToken, {
+			body: { amount: 1000, mines: 3 }
+		});
+
+		expect(status).toBe(200);
+		expect(body.result.newBalance).toBe(99_000);
+		expect(body.result.round.status).toBe('active');
+		expect(body.result.round.state.mines).toBeUndefined();
+		expect(getMines(userId)).toHaveLength(3);
+	});
+
+	it('should resume the active round and refuse a second one', async () => {
+		const { sessionToken } = await createTestUser(db);
+
+		const started = await call(gameRoute.POST, '/api/game/mines', sessionToken, {
+			body: { amount: 100, mines: 5 }
+		});
+		const resumed = await call(gameRoute.GET, '/api/game/mines', sessionToken, { method: 'GET' });
+		const second = await call(gameRoute.POST, '/api/game/mines', sessionToken, {
+			body: { amount: 100, mines: 5 }
+		});
+
+		expect(resumed.body.data.activeRound.id).toBe(started.body.result.round.id);
+		expect(second.status).toBe(400);
+	});
+
+	it('should pay out on cash out and verify the layout once the seed is revealed', async () => {
+		const { userId, sessionToken } = await createTestUser(db);
+
+		await call(gameRoute.POST, '/api/game/mines', sessionToken, {
+			body: { amount: 1000, mines: 3 }
+		});
+		const mines = getMines(userId);
+		const safeTiles = Array.from({ length: 25 }, (_, tile) => tile).filter(
+			(tile) => !mines.includes(tile)
+		);
+
+		for (const tile of safeTiles.slice(0, 2)) {
+			const { body } = await call(actionRoute.POST, '/api/game/mines/action', sessionToken, {
+				body: { action: 'reveal', tile }
+			});
+			expect(body.result.round.status).toBe('active');
+		}
+
+		// Revealing the seed would reveal the layout, so rotation waits for the round to end
+		const blocked = await call(rotateRoute.POST, '/api/game/seed/rotate', sessionToken);
+		expect(blocked.status).toBe(400);
+
+		const { body } = await call(actionRoute.POST, '/api/game/mines/action', sessionToken, {
+			body: { action: 'cashout' }
+		});
+		const multiplier = (0.99 * (25 * 24)) / (22 * 21);
+
+		expect(body.result.round.status).toBe('settled');
+		expect(body.result.round.state.mines).toEqual(mines);
+		expect(body.result.settlement.multiplier).toBeCloseTo(multiplier, 10);
+		expect(body.result.newBalance).toBe(99_000 + multiplyMoney(1000, multiplier));
+
+		expect((await call(rotateRoute.POST, '/api/game/seed/rotate', sessionToken)).status).toBe(200);
+
+		const verified = await call(
+			verifyRoute.GET,
+			`/api/game/verify?betId=${body.result.settlement.betId}`,
+			sessionToken,
+			{ method: 'GET' }
+		);
+		expect(verified.body.data.verified).toBe(true);
+		expect(verified.body.data.details.mines).toEqual(mines);
+	});
+
+	it('should settle as a loss when a mine is revealed', async () => {
+		const { userId, sessionToken } = await createTestUser(db);
+
+		await call(gameRoute.POST, '/api/game/mines', sessionToken, {
+			body: { amount: 1000, mines: 3 }
+		});
+		const [mine] = getMines(userId);
+
+		const { body } = await call(actionRoute.POST, '/api/game/mines/action', sessionToken, {
+			body: { action: 'reveal', tile: mine }
+		});
+
+		expect(body.result.settlement.win).toBe(false);
+		expect(body.result.settlement.payout).toBe(0);
+		expect(body.result.newBalance).toBe(99_000);
+	});
+});
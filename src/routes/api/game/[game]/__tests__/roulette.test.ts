@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeAll } from 'bun:test';
+import { eq } from 'drizzle-orm';
+import * as table from '$lib/server/db/schema';
+import {
+	mockDatabase,
+	createTestUser,
+	createRequestEvent,
+	type TestDatabase
+} from '$lib/server/__tests__/test-utils';
+
+let db: TestDatabase;
+let POST: typeof import('../+server').POST;
+let rotate: typeof import('../../seed/rotate/+server').POST;
+let verify: typeof import('../../verify/+server').GET;
+
+type RouletteEvent = Parameters<typeof POST>[0];
+
+const params = { game: 'roulette' };
+
+// Covers every pocket but 0 at least once, so most spins pay something back
+const chips = [
+	{ type: 'straight', numbers: [17], amount: 100 },
+	{ type: 'corner', numbers: [17, 18, 20, 21], amount: 200 },
+	{ type: 'red', amount: 500 },
+	{ type: 'black', amount: 500 },
+	{ type: 'dozen', value: 2, amount: 200 }
+];
+
+beforeAll(async () => {
+	db = mockDatabase();
+	({ POST } = await import('../+server'));
+	({ POST: rotate } = await import('../../seed/rotate/+server'));
+	({ GET: verify } = await import('../../verify/+server'));
+});
+
+async function spin(sessionToken: string, body: unknown) {
+	const response = await POST(
+		createRequestEvent<RouletteEvent>('/api/game/roulette', {
+			method: 'POST',
+			body,
+			sessionToken,
+			params
+		})
+	);
+	return { status: response.status, body: await response.json() };
+}
+
+describe('POST /api/game/roulette', () => {
+	it('should stake the sum of the chips and store each placement payout', async () => {
+		const { userId, sessionToken } = await createTestUser(db);
+
+		const { status, body } = await spin(sessionToken, { chips });
+		const placements = body.result.placements as { payout: number }[];
+		const payout = placements.reduce((sum, placement) => sum + placement.payout, 0);
+
+		expect(status).toBe(200);
+		expect(placements).toHaveLength(chips.length);
+		expect(body.result.payout).toBe(payout);
+		expect(body.result.newBalance).toBe(100_000 - 1500 + payout);
+
+		const [bet] = db.select().from(table.bet).where(eq(table.bet.userId, userId)).all();
+		const gameData = JSON.parse(bet.gameData as string);
+
+		expect(bet.amount).toBe(1500);
+		expect(bet.result).toBe(body.result.pocket);
+		expect(gameData.placements.map((placement: { payout: number }) => placement.payout)).toEqual(
+			placements.map((placement) => placement.payout)
+		);
+	});
+
+	it('should reject placements that are not on the table', async () => {
+		const { sessionToken } = await createTestUser(db);
+
+		const split = await spin(sessionToken, {
+			chips: [{ type: 'split', numbers: [3, 4], amount: 100 }]
+		});
+		const empty = await spin(sessionToken, { chips: [] });
+
+		expect(split.status).toBe(400);
+		expect(empty.status).toBe(400);
+	});
+
+	it('should recompute the pocket and total payout when verifying', async () => {
+		const { userId, sessionToken } = await createTestUser(db);
+
+		const { body } = await spin(sessionToken, { chips });
+		await rotate(createRequestEvent('/api/game/seed/rotate', { method: 'POST', sessionToken }));
+
+		const response = await verify(
+			createRequestEvent(`/api/game/verify?betId=${body.result.betId}`, { sessionToken })
+		);
+		const { data } = await response.json();
+
+		expect(data.verified).toBe(true);
+		expect(data.calculatedResult).toBe(body.result.pocket);
+		expect(data.details.payout).toBe(body.result.payout);
+
+		// A tampered payout no longer verifies
+		db.update(table.bet)
+			.set({ payout: body.result.payout + 1 })
+			.where(eq(table.bet.userId, userId))
+			.run();
+		const tampered = await verify(
+			createRequestEvent(`/api/game/verify?betId=${body.result.betId}`, { sessionToken })
+		);
+		expect((await tampered.json()).data.verified).toBe(false);
+	});
+});
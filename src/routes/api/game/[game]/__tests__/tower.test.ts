@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeAll } from 'bun:test';
+import { eq } from 'drizzle-orm';
+import * as table from '$lib/server/db/schema';
+import {
+	mockDatabase,
+	createTestUser,
+	createRequestEvent,
+	type TestDatabase
+} from '$lib/server/__tests__/test-utils';
+
+let db: TestDatabase;
+let gameRoute: typeof import('../+server');
+let actionRoute: typeof import('../action/+server');
+let rotateRoute: typeof import('../../seed/rotate/+server');
+let verifyRoute: typeof import('../../verify/+server');
+
+const params = { game: 'tower' };
+
+beforeAll(async () => {
+	db = mockDatabase();
+	gameRoute = await import('../+server');
+	actionRoute = await import('../action/+server');
+	rotateRoute = await import('../../seed/rotate/+server');
+	verifyRoute = await import('../../verify/+server');
+});
+
+// Route handlers are typed per route; the test events are built the same way for all of them
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type AnyEvent = any;
+
+async function call(
+	handler: (event: AnyEvent) => Response | Promise<Response>,
+	url: string,
+	sessionToken: string,
+	options: { method?: string; body?: unknown } = {}
+) {
+	const response = await handler(
+		createRequestEvent(url, {
+			method: options.method ?? 'POST',
+			body: options.body,
+			sessionToken,
+			params
+		})
+	);
+	return { status: response.status, body: await response.json() };
+}
+
+function getRows(userId: string): number[][] {
+	const [round] = db.select().from(table.gameRound).where(eq(table.gameRound.userId, userId)).all();
+	return round.state.rows as number[][];
+}
+
+function pick(sessionToken: string, tile: number) {
+	return call(actionRoute.POST, '/api/game/tower/action', sessionToken, {
+		body: { action: 'pick', tile }
+	});
+}
+
+describe('Dragon Tower rounds', () => {
+	it('should commit every row on start, hide them and resume the climb', async () => {
+		const { userId, sessionToken } = await createTestUser(db);
+
+		const started = await call(gameRoute.POST, '/api/game/tower', sessionToken, {
+			body: { amount: 1000, difficulty: 'medium' }
+		});
+		const rows = getRows(userId);
+
+		expect(started.status).toBe(200);
+		expect(started.body.result.newBalance).toBe(99_000);
+		expect(started.body.result.round.state.rows).toBeUndefined();
+		expect(rows).toHaveLength(9);
+		expect(rows.every((row) => row.length === 2)).toBe(true);
+
+		await pick(sessionToken, rows[0][0]);
+		const resumed = await call(gameRoute.GET, '/api/game/tower', sessionToken, { method: 'GET' });
+
+		expect(resumed.body.data.activeRound.id).toBe(started.body.result.round.id);
+		expect(resumed.body.data.activeRound.state.picks).toEqual([rows[0][0]]);
+		expect(resumed.body.data.activeRound.state.rows).toBeUndefined();
+	});
+
+	it('should pay the climbed height on cash out and reveal every row when verifying', async () => {
+		const { userId, sessionToken } = await createTestUser(db);
+
+		await call(gameRoute.POST, '/api/game/tower', sessionToken, {
+			body: { amount: 1000, difficulty: 'hard' }
+		});
+		const rows = getRows(userId);
+
+		for (const row of rows.slice(0, 3)) {
+			const { body } = await pick(sessionToken, row[0]);
+			expect(body.result.round.status).toBe('active');
+		}
+
+		const { body } = await call(actionRoute.POST, '/api/game/tower/action', sessionToken, {
+			body: { action: 'cashout' }
+		});
+
+		expect(body.result.round.status).toBe('settled');
+		expect(body.result.round.state.rows).toEqual(rows);
+		expect(body.result.settlement.multiplier).toBeCloseTo(0.99 * 8, 10);
+		expect(body.result.newBalance).toBe(99_000 + 7920);
+
+		await call(rotateRoute.POST, '/api/game/seed/rotate', sessionToken);
+		const verified = await call(
+			verifyRoute.GET,
+			`/api/game/verify?betId=${body.result.settlement.betId}`,
+			sessionToken,
+			{ method: 'GET' }
+		);
+
+		expect(verified.body.data.verified).toBe(true);
+		expect(verified.body.data.details.rows).toEqual(rows);
+	});
+
+	it('should settle as a loss on an unsafe tile and reject tiles off the row', async () => {
+		const { userId, sessionToken } = await createTestUser(db);
+
+		await call(gameRoute.POST, '/api/game/tower', sessionToken, {
+			body: { amount: 1000, difficulty: 'master' }
+		});
+		const [[safe]] = getRows(userId);
+
+		expect((await pick(sessionToken, 4)).status).toBe(400);
+
+		const { body } = await pick(sessionToken, (safe + 1) % 4);
+
+		expect(body.result.settlement.win).toBe(false);
+		expect(body.result.settlement.payout).toBe(0);
+		expect(body.result.newBalance).toBe(99_000);
+		expect(body.result.round.state.rows).toHaveLength(9);
+	});
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeAll } from 'bun:test';
+import {
+	mockDatabase,
+	createTestUser,
+	createRequestEvent,
+	type TestDatabase
+} from '$lib/server/__tests__/test-utils';
+import { getWheelLayout } from '$lib/utils/wheel';
+import { multiplyMoney } from '$lib/utils/money';
+
+let db: TestDatabase;
+let POST: typeof import('../+server').POST;
+let rotate: typeof import('../../seed/rotate/+server').POST;
+let verify: typeof import('../../verify/+server').GET;
+
+type WheelEvent = Parameters<typeof POST>[0];
+
+const params = { game: 'wheel' };
+
+beforeAll(async () => {
+	db = mockDatabase();
+	({ POST } = await import('../+server'));
+	({ POST: rotate } = await import('../../seed/rotate/+server'));
+	({ GET: verify } = await import('../../verify/+server'));
+});
+
+async function play(sessionToken: string, body: unknown) {
+	const response = await POST(
+		createRequestEvent<WheelEvent>('/api/game/wheel', {
+			method: 'POST',
+			body,
+			sessionToken,
+			params
+		})
+	);
+	return { status: response.status, body: await response.json() };
+}
+
+describe('POST /api/game/wheel', () => {
+	it('should pay the multiplier on the segment under the pointer', async () => {
+		const { sessionToken } = await createTestUser(db);
+
+		const { status, body } = await play(sessionToken, {
+			amount: 1000,
+			segments: 20,
+			risk: 'medium'
+		});
+		const multiplier = getWheelLayout(20, 'medium')[body.result.segment];
+
+		expect(status).toBe(200);
+		expect(body.result.multiplier).toBe(multiplier);
+		expect(body.result.newBalance).toBe(99_000 + multiplyMoney(1000, multiplier));
+	});
+
+	it('should reject unsupported segment counts', async () => {
+		const { sessionToken } = await createTestUser(db);
+
+		for (const segments of [0, 15, 60, 10.5]) {
+			const { status } = await play(sessionToken, { amount: 100, segments, risk: 'low' });
+			expect(status).toBe(400);
+		}
+	});
+
+	it('should reproduce the segment when verifying', async () => {
+		const { sessionToken } = await createTestUser(db);
+
+		const { body } = await play(sessionToken, { amount: 100, segments: 50, risk: 'high' });
+		await rotate(createRequestEvent('/api/game/seed/rotate', { method: 'POST', sessionToken }));
+
+		const response = await verify(
+			createRequestEvent(`/api/game/verify?betId=${body.result.betId}`, { sessionToken })
+		);
+		const { data } = await response.json();
+
+		expect(data.verified).toBe(true);
+		expect(data.calculatedResult).toBe(body.result.segment);
+		expect(data.details.multiplier).toBe(body.result.multiplier);
+	});
+});
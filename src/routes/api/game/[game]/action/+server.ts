@@ -0,0 +1,14 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { handleRoundAction } from '$lib/server/round-handler';
+import { getGame } from '$lib/server/games';
+
+// POST endpoint for acting on the active round of a round game (reveal, cash out, ...)
+export const POST: RequestHandler = async (event) => {
+	const game = getGame(event.params.game);
+	if (!game || game.kind !== 'round') {
+		return json({ success: false, error: 'Game not found' }, { status: 404 });
+	}
+
+	return handleRoundAction(event, game);
+};
@@ -0,0 +1,22 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { db } from '$lib/server/db';
+import { isGameType } from '$lib/server/games';
+import { getGameConfig } from '$lib/server/game-config';
+import { getBankroll, getMaxProfit } from '$lib/server/bankroll';
+
+// GET endpoint for a game's house edge, bet limits, payout cap and whether it is enabled, along with
+// the bankroll's current max profit per bet, so the client prices bets the way the server settles them
+export const GET: RequestHandler = async (event) => {
+	if (!isGameType(event.params.game)) {
+		return json({ success: false, error: 'Game not found' }, { status: 404 });
+	}
+
+	const game = event.params.game;
+	const data = db.transaction((tx) => ({
+		...getGameConfig(tx, game),
+		maxProfit: getMaxProfit(getBankroll(tx))
+	}));
+
+	return json({ success: true, data });
+};
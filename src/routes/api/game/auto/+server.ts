@@ -0,0 +1,89 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import * as auth from '$lib/server/auth';
+import { handleCSRF } from '$lib/server/csrf';
+import { isRateLimited, RATE_LIMITS, getRateLimitHeaders } from '$lib/server/rate-limiter';
+import { AppError } from '$lib/server/errors';
+import { autoBetStartSchema, getAutoBetSession, startAutoBetSession } from '$lib/server/auto-bet';
+
+// GET endpoint for the user's running auto-bet session, or the last one to have run
+export const GET: RequestHandler = async (event) => {
+	try {
+		const sessionToken = auth.getSessionToken(event);
+		if (!sessionToken) {
+			return json({ success: false, error: 'Authentication required' }, { status: 401 });
+		}
+
+		const { session, user } = await auth.validateSessionToken(sessionToken);
+		if (!session || !user) {
+			return json({ success: false, error: 'Invalid session' }, { status: 401 });
+		}
+
+		return json({
+			success: true,
+			data: { session: getAutoBetSession(user.id), balance: user.balance }
+		});
+	} catch (error) {
+		console.error('Get auto-bet session error:', error);
+		return json({ success: false, error: 'Internal server error' }, { status: 500 });
+	}
+};
+
+// POST endpoint for starting an auto-bet session with a game, its bet parameters and the strategy
+export const POST: RequestHandler = async (event) => {
+	try {
+		// CSRF Protection
+		if (!handleCSRF(event)) {
+			return json({ success: false, error: 'CSRF token validation failed' }, { status: 403 });
+		}
+
+		const sessionToken = auth.getSessionToken(event);
+		if (!sessionToken) {
+			return json({ success: false, error: 'Authentication required' }, { status: 401 });
+		}
+
+		const { session, user } = await auth.validateSessionToken(sessionToken);
+		if (!session || !user) {
+			return json({ success: false, error: 'Invalid session' }, { status: 401 });
+		}
+
+		const userIdentifier = `${user.id}:auto-bet`;
+		const rateLimitResult = isRateLimited(userIdentifier, RATE_LIMITS.api);
+		const headers = getRateLimitHeaders(userIdentifier, RATE_LIMITS.api);
+
+		if (rateLimitResult.limited) {
+			return json(
+				{ success: false, error: 'Too many requests. Please slow down.' },
+				{ status: 429, headers }
+			);
+		}
+
+		let body: unknown;
+		try {
+			body = await event.request.json();
+		} catch {
+			return json({ success: false, error: 'Invalid request body' }, { status: 400, headers });
+		}
+
+		const parsed = autoBetStartSchema.safeParse(body);
+		if (!parsed.success) {
+			return json({ success: false, error: 'Invalid auto-bet settings' }, { status: 400, headers });
+		}
+
+		try {
+			const result = startAutoBetSession(user.id, parsed.data);
+			return json({ success: true, result }, { headers });
+		} catch (error) {
+			if (error instanceof AppError) {
+				return json(
+					{ success: false, error: error.message },
+					{ status: error.statusCode, headers }
+				);
+			}
+			throw error;
+		}
+	} catch (error) {
+		console.error('Start auto-bet error:', error);
+		return json({ success: false, error: 'Internal server error' }, { status: 500 });
+	}
+};
@@ -0,0 +1,54 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import * as auth from '$lib/server/auth';
+import { handleCSRF } from '$lib/server/csrf';
+import { isRateLimited, RATE_LIMITS, getRateLimitHeaders } from '$lib/server/rate-limiter';
+import { AppError } from '$lib/server/errors';
+import { stopAutoBetSession } from '$lib/server/auto-bet';
+
+// POST endpoint for stopping the user's running auto-bet session
+export const POST: RequestHandler = async (event) => {
+	try {
+		// CSRF Protection
+		if (!handleCSRF(event)) {
+			return json({ success: false, error: 'CSRF token validation failed' }, { status: 403 });
+		}
+
+		const sessionToken = auth.getSessionToken(event);
+		if (!sessionToken) {
+			return json({ success: false, error: 'Authentication required' }, { status: 401 });
+		}
+
+		const { session, user } = await auth.validateSessionToken(sessionToken);
+		if (!session || !user) {
+			return json({ success: false, error: 'Invalid session' }, { status: 401 });
+		}
+
+		const userIdentifier = `${user.id}:auto-bet`;
+		const rateLimitResult = isRateLimited(userIdentifier, RATE_LIMITS.api);
+		const headers = getRateLimitHeaders(userIdentifier, RATE_LIMITS.api);
+
+		if (rateLimitResult.limited) {
+			return json(
+				{ success: false, error: 'Too many requests. Please slow down.' },
+				{ status: 429, headers }
+			);
+		}
+
+		try {
+			const result = stopAutoBetSession(user.id);
+			return json({ success: true, result }, { headers });
+		} catch (error) {
+			if (error instanceof AppError) {
+				return json(
+					{ success: false, error: error.message },
+					{ status: error.statusCode, headers }
+				);
+			}
+			throw error;
+		}
+	} catch (error) {
+		console.error('Stop auto-bet error:', error);
+		return json({ success: false, error: 'Internal server error' }, { status: 500 });
+	}
+};
@@ -0,0 +1,60 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import * as auth from '$lib/server/auth';
+import { getAutoBetSession, subscribeToAutoBet } from '$lib/server/auto-bet';
+import type { GameBetResult } from '$lib/server/game-handler';
+import type { AutoBetEvent } from '$lib/utils/auto-bet';
+
+// GET endpoint streaming the user's auto-bet results and session updates as server-sent events.
+// A running session is sent first, so a reloaded page picks up where it left off.
+export const GET: RequestHandler = async (event) => {
+	const sessionToken = auth.getSessionToken(event);
+	if (!sessionToken) {
+		return json({ success: false, error: 'Authentication required' }, { status: 401 });
+	}
+
+	const { session, user } = await auth.validateSessionToken(sessionToken);
+	if (!session || !user) {
+		return json({ success: false, error: 'Invalid session' }, { status: 401 });
+	}
+
+	const encoder = new TextEncoder();
+	let unsubscribe = () => {};
+
+	const stream = new ReadableStream<Uint8Array>({
+		start(controller) {
+			const send = (autoBetEvent: AutoBetEvent<GameBetResult>) => {
+				try {
+					controller.enqueue(encoder.encode(`data: ${JSON.stringify(autoBetEvent)}\n\n`));
+				} catch {
+					// The client has gone away
+					unsubscribe();
+				}
+			};
+
+			const current = getAutoBetSession(user.id);
+			if (current?.status === 'running') send({ type: 'session', session: current });
+			unsubscribe = subscribeToAutoBet(user.id, send);
+
+			event.request.signal.addEventListener('abort', () => {
+				unsubscribe();
+				try {
+					controller.close();
+				} catch {
+					// Already closed
+				}
+			});
+		},
+		cancel() {
+			unsubscribe();
+		}
+	});
+
+	return new Response(stream, {
+		headers: {
+			'Content-Type': 'text/event-stream',
+			'Cache-Control': 'no-cache',
+			Connection: 'keep-alive'
+		}
+	});
+};
@@ -0,0 +1,93 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import * as auth from '$lib/server/auth';
+import { handleCSRF } from '$lib/server/csrf';
+import { isRateLimited, RATE_LIMITS, getRateLimitHeaders } from '$lib/server/rate-limiter';
+import { AppError } from '$lib/server/errors';
+import { validateCrashBet } from '$lib/server/provably-fair';
+import { getCrashState, placeCrashBet } from '$lib/server/crash';
+import { crashGame } from '$lib/server/games/crash';
+
+// GET endpoint for the current crash round, the user's bet in it and recent crash points
+export const GET: RequestHandler = async (event) => {
+	try {
+		const sessionToken = auth.getSessionToken(event);
+		if (!sessionToken) {
+			return json({ success: false, error: 'Authentication required' }, { status: 401 });
+		}
+
+		const { session, user } = await auth.validateSessionToken(sessionToken);
+		if (!session || !user) {
+			return json({ success: false, error: 'Invalid session' }, { status: 401 });
+		}
+
+		return json({ success: true, data: { ...getCrashState(user.id), balance: user.balance } });
+	} catch (error) {
+		console.error('Get crash data error:', error);
+		return json({ success: false, error: 'Internal server error' }, { status: 500 });
+	}
+};
+
+// POST endpoint for betting on the round that is counting down
+export const POST: RequestHandler = async (event) => {
+	try {
+		// CSRF Protection
+		if (!handleCSRF(event)) {
+			return json({ success: false, error: 'CSRF token validation failed' }, { status: 403 });
+		}
+
+		const sessionToken = auth.getSessionToken(event);
+		if (!sessionToken) {
+			return json({ success: false, error: 'Authentication required' }, { status: 401 });
+		}
+
+		const { session, user } = await auth.validateSessionToken(sessionToken);
+		if (!session || !user) {
+			return json({ success: false, error: 'Invalid session' }, { status: 401 });
+		}
+
+		const userIdentifier = `${user.id}:betting`;
+		const rateLimitResult = isRateLimited(userIdentifier, RATE_LIMITS.betting);
+		const headers = getRateLimitHeaders(userIdentifier, RATE_LIMITS.betting);
+
+		if (rateLimitResult.limited) {
+			return json(
+				{ success: false, error: 'Too many bets. Please slow down.' },
+				{ status: 429, headers }
+			);
+		}
+
+		let body: unknown;
+		try {
+			body = await event.request.json();
+		} catch {
+			return json({ success: false, error: 'Invalid request body' }, { status: 400, headers });
+		}
+
+		const parsed = crashGame.requestSchema.safeParse(body);
+		if (!parsed.success) {
+			return json({ success: false, error: 'Invalid bet parameters' }, { status: 400, headers });
+		}
+
+		const validation = validateCrashBet(parsed.data.amount, parsed.data.autoCashout, user.balance);
+		if (!validation.valid) {
+			return json({ success: false, error: validation.error }, { status: 400, headers });
+		}
+
+		try {
+			const result = placeCrashBet(user.id, parsed.data);
+			return json({ success: true, result }, { headers });
+		} catch (error) {
+			if (error instanceof AppError) {
+				return json(
+					{ success: false, error: error.message, ...(error.code && { code: error.code }) },
+					{ status: error.statusCode, headers }
+				);
+			}
+			throw error;
+		}
+	} catch (error) {
+		console.error('Crash bet error:', error);
+		return json({ success: false, error: 'Internal server error' }, { status: 500 });
+	}
+};
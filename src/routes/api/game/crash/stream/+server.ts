@@ -0,0 +1,47 @@
+import type { RequestHandler } from './$types';
+import { getCrashRoundEvent, subscribeToCrash } from '$lib/server/crash';
+import type { CrashEvent } from '$lib/utils/crash';
+
+// GET endpoint streaming crash rounds, the running multiplier and cashouts as server-sent events.
+// The stream is public: it only carries what every player in the round can see.
+export const GET: RequestHandler = async ({ request }) => {
+	const encoder = new TextEncoder();
+	let unsubscribe = () => {};
+
+	const stream = new ReadableStream<Uint8Array>({
+		start(controller) {
+			const send = (event: CrashEvent) => {
+				try {
+					controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+				} catch {
+					// The client has gone away
+					unsubscribe();
+				}
+			};
+
+			const current = getCrashRoundEvent();
+			if (current) send(current);
+			unsubscribe = subscribeToCrash(send);
+
+			request.signal.addEventListener('abort', () => {
+				unsubscribe();
+				try {
+					controller.close();
+				} catch {
+					// Already closed
+				}
+			});
+		},
+		cancel() {
+			unsubscribe();
+		}
+	});
+
+	return new Response(stream, {
+		headers: {
+			'Content-Type': 'text/event-stream',
+			'Cache-Control': 'no-cache',
+			Connection: 'keep-alive'
+		}
+	});
+};
@@ -4,6 +4,7 @@ import type { RequestHandler } from './$types';
 import { db } from '$lib/server/db';
 import * as table from '$lib/server/db/schema';
 import * as auth from '$lib/server/auth';
+import { isGameType } from '$lib/server/games';
 
 // GET endpoint for retrieving bet history
 export const GET: RequestHandler = async (event) => {
@@ -22,12 +23,12 @@ export const GET: RequestHandler = async (event) => {
 		const url = new URL(event.request.url);
 		const page = Math.max(1, parseInt(url.searchParams.get('page') || '1'));
 		const limit = Math.min(50, Math.max(1, parseInt(url.searchParams.get('limit') || '20')));
-		const gameType = url.searchParams.get('gameType') as 'dice' | 'flip' | null;
+		const gameType = url.searchParams.get('gameType');
 		const offset = (page - 1) * limit;
 
 		// Build query conditions
 		const conditions = [eq(table.bet.userId, user.id)];
-		if (gameType && (gameType === 'dice' || gameType === 'flip')) {
+		if (isGameType(gameType)) {
 			conditions.push(eq(table.bet.gameType, gameType));
 		}
 
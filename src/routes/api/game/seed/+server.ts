@@ -0,0 +1,87 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { db } from '$lib/server/db';
+import * as auth from '$lib/server/auth';
+import { handleCSRF } from '$lib/server/csrf';
+import { AppError } from '$lib/server/errors';
+import { isRateLimited, RATE_LIMITS, getRateLimitHeaders } from '$lib/server/rate-limiter';
+import { getSeedState, rotateSeedPair, validateClientSeed } from '$lib/server/seed-pair';
+
+// GET endpoint for the active client seed, hashed server seeds and last revealed pair
+export const GET: RequestHandler = async (event) => {
+	try {
+		const sessionToken = auth.getSessionToken(event);
+		if (!sessionToken) {
+			return json({ success: false, error: 'Authentication required' }, { status: 401 });
+		}
+
+		const { session, user } = await auth.validateSessionToken(sessionToken);
+		if (!session || !user) {
+			return json({ success: false, error: 'Invalid session' }, { status: 401 });
+		}
+
+		const seedState = db.transaction((tx) => getSeedState(tx, user.id));
+
+		return json({ success: true, data: seedState });
+	} catch (error) {
+		console.error('Get seed state error:', error);
+		return json({ success: false, error: 'Internal server error' }, { status: 500 });
+	}
+};
+
+// PUT endpoint for changing the client seed, which forces a server seed rotation
+export const PUT: RequestHandler = async (event) => {
+	try {
+		if (!handleCSRF(event)) {
+			return json({ success: false, error: 'CSRF token validation failed' }, { status: 403 });
+		}
+
+		const sessionToken = auth.getSessionToken(event);
+		if (!sessionToken) {
+			return json({ success: false, error: 'Authentication required' }, { status: 401 });
+		}
+
+		const { session, user } = await auth.validateSessionToken(sessionToken);
+		if (!session || !user) {
+			return json({ success: false, error: 'Invalid session' }, { status: 401 });
+		}
+
+		const userIdentifier = `${user.id}:seed-rotate`;
+		const rateLimitResult = isRateLimited(userIdentifier, RATE_LIMITS.api);
+		const headers = getRateLimitHeaders(userIdentifier, RATE_LIMITS.api);
+
+		if (rateLimitResult.limited) {
+			return json(
+				{ success: false, error: 'Too many requests. Please slow down.' },
+				{ status: 429, headers }
+			);
+		}
+
+		let body: { clientSeed?: unknown };
+		try {
+			body = await event.request.json();
+		} catch {
+			return json({ success: false, error: 'Invalid request body' }, { status: 400, headers });
+		}
+
+		const validation = validateClientSeed(body.clientSeed);
+		if (!validation.valid) {
+			return json({ success: false, error: validation.error }, { status: 400, headers });
+		}
+
+		// A new client seed only applies to a fresh server seed, so the active pair is revealed
+		const seedState = db.transaction((tx) => {
+			rotateSeedPair(tx, user.id, body.clientSeed as string);
+			return getSeedState(tx, user.id);
+		});
+
+		return json({ success: true, data: seedState }, { headers });
+	} catch (error) {
+		if (error instanceof AppError) {
+			return json({ success: false, error: error.message }, { status: error.statusCode });
+		}
+
+		console.error('Update client seed error:', error);
+		return json({ success: false, error: 'Internal server error' }, { status: 500 });
+	}
+};
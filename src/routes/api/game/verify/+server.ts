@@ -4,12 +4,11 @@ import type { RequestHandler } from './$types';
 import { db } from '$lib/server/db';
 import * as table from '$lib/server/db/schema';
 import * as auth from '$lib/server/auth';
-import {
-	verifyGameResult,
-	verifyServerSeed,
-	generateDiceRoll,
-	generateCoinFlip
-} from '$lib/server/provably-fair';
+import { verifyServerSeed } from '$lib/server/provably-fair';
+import { getGame } from '$lib/server/games';
+
+// Results are stored as reals, so allow for float rounding when comparing
+const RESULT_TOLERANCE = 0.01;
 
 // GET endpoint for verifying a specific bet
 export const GET: RequestHandler = async (event) => {
@@ -44,22 +43,54 @@ export const GET: RequestHandler = async (event) => {
 
 		const bet = bets[0];
 
-		// Verify server seed hash
-		const seedHashValid = verifyServerSeed(bet.serverSeed, bet.serverSeedHash);
+		// Bets played on a seed pair stay unverifiable until the user rotates it and reveals the seed
+		if (bet.seedPairId) {
+			const [seedPair] = await db
+				.select({ status: table.seedPair.status })
+				.from(table.seedPair)
+				.where(eq(table.seedPair.id, bet.seedPairId));
+
+			if (!seedPair || seedPair.status !== 'revealed') {
+				return json(
+					{
+						success: false,
+						error: 'Server seed is still active. Rotate your seed pair to verify this bet.'
+					},
+					{ status: 403 }
+				);
+			}
+		}
 
-		// Calculate expected result based on game type
-		let calculatedResult: number;
-		if (bet.gameType === 'dice') {
-			calculatedResult = generateDiceRoll(bet.serverSeed, bet.clientSeed, bet.nonce);
-		} else if (bet.gameType === 'flip') {
-			calculatedResult = generateCoinFlip(bet.serverSeed, bet.clientSeed, bet.nonce);
-		} else {
+		const game = getGame(bet.gameType);
+		if (!game) {
 			return json({ success: false, error: 'Unknown game type' }, { status: 400 });
 		}
 
-		// Verify the result matches
-		const verified =
-			seedHashValid && verifyGameResult(bet.serverSeed, bet.clientSeed, bet.nonce, bet.result);
+		const gameData: Record<string, unknown> =
+			typeof bet.gameData === 'string'
+				? JSON.parse(bet.gameData)
+				: (bet.gameData as Record<string, unknown>);
+
+		// Verify server seed hash
+		const seedHashValid = verifyServerSeed(bet.serverSeed, bet.serverSeedHash);
+
+		// Recompute the result with the game's own derivation
+		const { result: calculatedResult, ...details } = game.deriveResult(
+			bet.serverSeed,
+			bet.clientSeed,
+			bet.nonce,
+			gameData
+		);
+
+		// Verify the result, and the payout where the game derives it, match. A payout above the
+		// game's cap when the bet settled was paid at the cap.
+		const resultValid = Math.abs(calculatedResult - bet.result) < RESULT_TOLERANCE;
+		const expectedPayout =
+			details.payout === undefined || gameData.payoutCap === undefined
+				? details.payout
+				: Math.min(details.payout, Number(gameData.payoutCap));
+		const payoutValid = expectedPayout === undefined || expectedPayout === bet.payout;
+		const verified = seedHashValid && resultValid && payoutValid;
 
 		return json({
 			success: true,
@@ -74,10 +105,8 @@ export const GET: RequestHandler = async (event) => {
 				calculatedResult,
 				gameType: bet.gameType,
 				seedHashValid,
-				gameData:
-					typeof bet.gameData === 'string'
-						? JSON.parse(bet.gameData)
-						: (bet.gameData as Record<string, unknown>)
+				gameData,
+				details
 			}
 		});
 	} catch (error) {
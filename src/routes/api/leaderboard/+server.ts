@@ -144,10 +144,10 @@ export const GET: RequestHandler = async ({ url }) => {
 		const leaderboard: LeaderboardEntry[] = leaderboardData.map((entry, index) => ({
 			rank: offset + index + 1,
 			username: entry.username,
-			balance: Math.round(entry.balance * 100) / 100,
-			totalWagered: Math.round(entry.totalWagered * 100) / 100,
-			totalProfit: Math.round(entry.totalProfit * 100) / 100,
-			biggestWin: Math.round(entry.biggestWin * 100) / 100,
+			balance: entry.balance,
+			totalWagered: entry.totalWagered,
+			totalProfit: entry.totalProfit,
+			biggestWin: entry.biggestWin,
 			winRate: entry.winRate,
 			totalBets: entry.totalBets
 		}));
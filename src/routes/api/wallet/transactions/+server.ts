@@ -0,0 +1,49 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import * as auth from '$lib/server/auth';
+import * as table from '$lib/server/db/schema';
+import { listTransactions, type LedgerEntryType } from '$lib/server/ledger';
+
+function isEntryType(type: string | null): type is LedgerEntryType {
+	return (table.transaction.type.enumValues as readonly (string | null)[]).includes(type);
+}
+
+// GET endpoint for a page of the user's wallet transactions, newest first
+export const GET: RequestHandler = async (event) => {
+	try {
+		const sessionToken = auth.getSessionToken(event);
+		if (!sessionToken) {
+			return json({ success: false, error: 'Authentication required' }, { status: 401 });
+		}
+
+		const { session, user } = await auth.validateSessionToken(sessionToken);
+		if (!session || !user) {
+			return json({ success: false, error: 'Invalid session' }, { status: 401 });
+		}
+
+		// Parse query parameters
+		const url = new URL(event.request.url);
+		const page = Math.max(1, parseInt(url.searchParams.get('page') || '1') || 1);
+		const limit = Math.min(50, Math.max(1, parseInt(url.searchParams.get('limit') || '20') || 20));
+		const type = url.searchParams.get('type');
+
+		const { transactions, total } = listTransactions(user.id, {
+			page,
+			limit,
+			type: isEntryType(type) ? type : undefined
+		});
+
+		return json({
+			success: true,
+			data: {
+				transactions,
+				total,
+				page,
+				limit
+			}
+		});
+	} catch (error) {
+		console.error('Wallet transactions error:', error);
+		return json({ success: false, error: 'Internal server error' }, { status: 500 });
+	}
+};